@@ -1,42 +1,149 @@
 
-import React, { useState, useCallback } from 'react';
-import type { AnalysisResult, TableRow } from './types';
-import { parseAndCleanFile } from './services/dataService';
-import { generateInsights, generateChatResponse } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import type { AnalysisResult, TableRow, ColumnSchema, OutlierRule, CleaningRecipe, ColumnType, PinnedChart, SavedDashboard, ImportOptions, ImportProgress, FilterSet, DataEdit, PivotConfig } from './types';
+import { summarizeTable, type CleanedTable } from './services/dataService';
+import { startImport, type ImportTask } from './services/importService';
+import { restoreDroppedRows } from './services/cleaningService';
+import { applySchema, overrideColumnType } from './services/schemaService';
+import { EMPTY_FILTER_SET, applyFilterSet, describeFilterSet, hasActiveFilters } from './services/filterService';
+import { carryFormulaColumns, recomputeFormulaColumns } from './services/formulaService';
+import { applyOutlierDetections, applyOutlierRules, describeOutlierDecisions, detectRuleOutliers } from './services/outlierService';
+import { EMPTY_PIVOT_CONFIG } from './services/pivotService';
+import { EMPTY_EDIT_HISTORY, applyEdit, revertEdit, getEditedColumns, type EditableTable } from './services/editService';
+import { getSchemaSignature, loadSavedDashboard, saveDashboard } from './services/dashboardService';
+import { generateInsights } from './services/geminiService';
+import { generateGroundedChatResponse } from './services/chatService';
 import FileUpload from './components/FileUpload';
 import Dashboard from './components/Dashboard';
 import { GithubIcon, LoaderCircle } from 'lucide-react';
 
+// Profiles the rows analyses see, after the outlier decisions, and tells the AI what was decided.
+const summarizeAnalysis = (data: TableRow[], schema: ColumnSchema[], outlierRules: OutlierRule[]) => {
+  const detections = detectRuleOutliers(data, schema, outlierRules);
+  const { profile, summary } = summarizeTable(applyOutlierDetections(data, detections), schema);
+  return { profile, summary: detections.length > 0 ? `${summary}\nOutlier Handling:\n${describeOutlierDecisions(detections)}\n` : summary };
+};
+
+// Profiling takes seconds on large tables, so edits show at once and the profile catches up once they pause.
+const SUMMARY_DELAY_MS = 500;
+// Typing a chart title saves the dashboard once, after the typing stops.
+const DASHBOARD_SAVE_DELAY_MS = 1000;
+
 const App: React.FC = () => {
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  // One result per table; a workbook loaded as separate sheets gives several.
+  const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
+  const [activeResultIndex, setActiveResultIndex] = useState(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  // Set while the upload form is open to load another file alongside the current tables.
+  const [isAddingFile, setIsAddingFile] = useState(false);
+  const [savedDashboard, setSavedDashboard] = useState<SavedDashboard | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const importTaskRef = useRef<ImportTask | null>(null);
 
-  const handleFileProcess = useCallback(async (file: File) => {
-    setIsLoading(true);
-    setError(null);
-    setAnalysisResult(null);
+  const analysisResult = analysisResults[activeResultIndex] ?? null;
+
+  const updateActiveResult = useCallback((update: (prev: AnalysisResult) => AnalysisResult) => {
+    setAnalysisResults(prev => prev.map((result, i) => (i === activeResultIndex ? update(result) : result)));
+  }, [activeResultIndex]);
+
+  // Pending profile and summary updates, by table index.
+  const summaryTimersRef = useRef(new Map<number, number>());
+  // Pending dashboard saves, by schema signature.
+  const dashboardSaveTimersRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    const timers = summaryTimersRef.current;
+    return () => timers.forEach(timer => window.clearTimeout(timer));
+  }, []);
+
+  // Re-profiles the active table after its data, schema or outlier rules change, once changes pause.
+  const scheduleSummary = useCallback(() => {
+    const index = activeResultIndex;
+    const timers = summaryTimersRef.current;
+    window.clearTimeout(timers.get(index));
+    timers.set(index, window.setTimeout(() => {
+      timers.delete(index);
+      setAnalysisResults(prev => prev.map((result, i) => (
+        i === index ? { ...result, ...summarizeAnalysis(result.cleanedData, result.schema, result.outlierRules) } : result
+      )));
+    }, SUMMARY_DELAY_MS));
+  }, [activeResultIndex]);
+
+  const offerSavedDashboard = useCallback(async (result: AnalysisResult) => {
+    if (result.pinnedCharts.length > 0) return;
+    try {
+      setSavedDashboard(await loadSavedDashboard(getSchemaSignature(result.schema)));
+    } catch (storageError) {
+      // Saved dashboards are a convenience; the analysis still works without them.
+      console.error("Could not load saved dashboard:", storageError);
+    }
+  }, []);
 
+  // Parses and cleans the file in a worker, then runs the initial AI analysis for each table it yields.
+  // Returns null if the user cancels the import.
+  const analyzeFile = useCallback(async (file: File, recipe: CleaningRecipe, importOptions: ImportOptions, pinnedCharts: PinnedChart[]) => {
+    setLoadingMessage('Parsing and cleaning data...');
+    const task = startImport(file, recipe, importOptions, setImportProgress);
+    importTaskRef.current = task;
+    let parsed: CleanedTable[] | null;
     try {
-      setLoadingMessage('Parsing and cleaning data...');
-      const { cleanedData, summary } = await parseAndCleanFile(file);
+      parsed = await task.result;
+    } finally {
+      importTaskRef.current = null;
+      setImportProgress(null);
+    }
+    if (!parsed) return null;
+    const tables = parsed.filter(table => table.cleanedData.length > 0);
 
-      if (cleanedData.length === 0) {
-        throw new Error("No data could be extracted from the file. It might be empty or in an unsupported format.");
-      }
-      
-      setLoadingMessage('Generating initial analysis with AI...');
+    if (tables.length === 0) {
+      throw new Error("No data could be extracted from the file. It might be empty or in an unsupported format.");
+    }
+
+    const results: AnalysisResult[] = [];
+    for (const [i, { sheetName, cleanedData, profile, summary, cleaningReport, schema }] of tables.entries()) {
+      setLoadingMessage(tables.length > 1 ? `Generating initial analysis with AI (table ${i + 1} of ${tables.length})...` : 'Generating initial analysis with AI...');
       const insights = await generateInsights(summary);
-      
-      setAnalysisResult({
+      // Re-cleaning a sheet later reads just that sheet again.
+      const sourceOptions = importOptions.excel && sheetName
+        ? { ...importOptions, excel: { ...importOptions.excel, sheets: [sheetName] } }
+        : importOptions;
+      results.push({
         fileName: file.name,
+        sheetName,
+        source: { file, importOptions: sourceOptions },
         cleanedData,
+        cleaningRecipe: recipe,
+        cleaningReport,
+        schema,
+        pinnedCharts,
+        filterSet: EMPTY_FILTER_SET,
+        pivotConfig: EMPTY_PIVOT_CONFIG,
+        outlierRules: [],
+        editHistory: EMPTY_EDIT_HISTORY,
+        profile,
         summary,
         insights,
+        insightsOutdated: false,
         chatHistory: [{ role: 'model', parts: [{ text: insights }] }],
       });
+    }
+    return results;
+  }, []);
 
+  const handleFileProcess = useCallback(async (file: File, recipe: CleaningRecipe, importOptions: ImportOptions = {}) => {
+    setIsLoading(true);
+    setError(null);
+    setAnalysisResults([]);
+    setActiveResultIndex(0);
+    setSavedDashboard(null);
+
+    try {
+      const results = await analyzeFile(file, recipe, importOptions, []);
+      if (!results) return;
+      setAnalysisResults(results);
+      await offerSavedDashboard(results[0]);
     } catch (err) {
       console.error(err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
@@ -44,12 +151,233 @@ const App: React.FC = () => {
       setIsLoading(false);
       setLoadingMessage('');
     }
+  }, [analyzeFile, offerSavedDashboard]);
+
+  const handleCancelImport = useCallback(() => {
+    importTaskRef.current?.cancel();
   }, []);
 
   const handleReset = useCallback(() => {
-    setAnalysisResult(null);
+    setAnalysisResults([]);
+    setActiveResultIndex(0);
+    setIsAddingFile(false);
+    setSavedDashboard(null);
     setError(null);
   }, []);
+
+  // Re-runs only the active table, keeping its pinned charts.
+  const handleRecipeChange = useCallback(async (recipe: CleaningRecipe) => {
+    if (!analysisResult?.source) return;
+    const { file, importOptions } = analysisResult.source;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const results = await analyzeFile(file, recipe, importOptions, analysisResult.pinnedCharts);
+      // Filters, pivot fields and outlier rules on columns the new recipe dropped are ignored until those columns come back.
+      // Hand edits are discarded, since they refer to rows of the previous cleaning, but formula columns are recomputed.
+      // Formulas whose columns the new recipe dropped or retyped so they no longer check are dropped with them.
+      if (results) {
+        const [result] = results;
+        updateActiveResult(prev => {
+          // Types the user chose stay chosen for columns that are still there.
+          const overrides = prev.schema.filter(column => column.overridden && !column.formula && result.schema.some(c => c.name === column.name));
+          const overridden = overrides.reduce((next, { name, type }) => overrideColumnType(next, name, type), result.schema);
+          const schema = carryFormulaColumns(prev.schema, overridden);
+          const typedData = overrides.length > 0 ? applySchema(result.cleanedData, schema, overrides.map(({ name }) => name)) : result.cleanedData;
+          const cleanedData = recomputeFormulaColumns(typedData, schema);
+          return {
+            ...result,
+            schema,
+            cleanedData,
+            filterSet: prev.filterSet,
+            pivotConfig: prev.pivotConfig,
+            outlierRules: prev.outlierRules,
+            ...summarizeAnalysis(cleanedData, schema, prev.outlierRules),
+            // The new insights were written before the outlier decisions, type overrides and formula columns were applied.
+            insightsOutdated: prev.outlierRules.length > 0 || schema !== result.schema,
+          };
+        });
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [analysisResult, analyzeFile, updateActiveResult]);
+
+  // Loads another file next to the current tables and switches to its first table.
+  const handleAddFile = useCallback(async (file: File, recipe: CleaningRecipe, importOptions: ImportOptions = {}) => {
+    setIsAddingFile(false);
+    setIsLoading(true);
+    setError(null);
+    setSavedDashboard(null);
+    try {
+      const results = await analyzeFile(file, recipe, importOptions, []);
+      if (!results) return;
+      setAnalysisResults(prev => [...prev, ...results]);
+      setActiveResultIndex(analysisResults.length);
+      await offerSavedDashboard(results[0]);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [analysisResults.length, analyzeFile, offerSavedDashboard]);
+
+  // Adds a table joined or appended from the loaded ones and makes it the working dataset.
+  const handleCombine = useCallback(async (name: string, { data, schema }: { data: TableRow[]; schema: ColumnSchema[] }) => {
+    setIsLoading(true);
+    setError(null);
+    setSavedDashboard(null);
+    try {
+      setLoadingMessage('Generating initial analysis with AI...');
+      const { profile, summary } = summarizeTable(data, schema);
+      const insights = await generateInsights(summary);
+      const result: AnalysisResult = {
+        fileName: name,
+        source: null,
+        cleanedData: data,
+        cleaningRecipe: [],
+        cleaningReport: { originalRowCount: data.length, steps: [], droppedRows: [], changedCells: [], restoredRowCount: 0 },
+        schema,
+        pinnedCharts: [],
+        filterSet: EMPTY_FILTER_SET,
+        pivotConfig: EMPTY_PIVOT_CONFIG,
+        outlierRules: [],
+        editHistory: EMPTY_EDIT_HISTORY,
+        profile,
+        summary,
+        insights,
+        insightsOutdated: false,
+        chatHistory: [{ role: 'model', parts: [{ text: insights }] }],
+      };
+      setAnalysisResults(prev => [...prev, result]);
+      setActiveResultIndex(analysisResults.length);
+      await offerSavedDashboard(result);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [analysisResults.length, offerSavedDashboard]);
+
+  const handleSelectTable = useCallback((index: number) => {
+    setActiveResultIndex(index);
+    setSavedDashboard(null);
+    offerSavedDashboard(analysisResults[index]);
+  }, [analysisResults, offerSavedDashboard]);
+
+  const handlePinnedChartsChange = useCallback((pinnedCharts: PinnedChart[]) => {
+    if (!analysisResult) return;
+    updateActiveResult(prev => ({ ...prev, pinnedCharts }));
+    // Editing the dashboard replaces whatever was saved for these columns.
+    setSavedDashboard(null);
+    const schemaSignature = getSchemaSignature(analysisResult.schema);
+    const { fileName } = analysisResult;
+    const timers = dashboardSaveTimersRef.current;
+    window.clearTimeout(timers.get(schemaSignature));
+    timers.set(schemaSignature, window.setTimeout(() => {
+      timers.delete(schemaSignature);
+      saveDashboard({ schemaSignature, fileName, charts: pinnedCharts, updatedAt: Date.now() })
+        .catch(err => console.error("Could not save dashboard:", err));
+    }, DASHBOARD_SAVE_DELAY_MS));
+  }, [analysisResult, updateActiveResult]);
+
+  const handleApplySavedDashboard = useCallback(() => {
+    if (!savedDashboard) return;
+    updateActiveResult(prev => ({ ...prev, pinnedCharts: savedDashboard.charts }));
+    setSavedDashboard(null);
+  }, [savedDashboard, updateActiveResult]);
+
+  const handleFilterSetChange = useCallback((filterSet: FilterSet) => {
+    updateActiveResult(prev => ({ ...prev, filterSet }));
+  }, [updateActiveResult]);
+
+  // Applies a change from the data table's edit log; the summary follows once edits pause.
+  const applyTableChange = useCallback((
+    change: (table: EditableTable) => EditableTable,
+    editHistory: (prev: AnalysisResult) => AnalysisResult['editHistory'],
+    changedColumns: string[] | undefined,
+  ) => {
+    updateActiveResult(prev => {
+      const table = change({ data: prev.cleanedData, schema: prev.schema, filterSet: prev.filterSet });
+      return {
+        ...prev,
+        cleanedData: recomputeFormulaColumns(table.data, table.schema, changedColumns),
+        schema: table.schema,
+        filterSet: table.filterSet,
+        editHistory: editHistory(prev),
+        insightsOutdated: true,
+      };
+    });
+    scheduleSummary();
+  }, [updateActiveResult, scheduleSummary]);
+
+  const handleEdit = useCallback((edit: DataEdit) => {
+    applyTableChange(table => applyEdit(table, edit), prev => ({ past: [...prev.editHistory.past, edit], future: [] }), getEditedColumns(edit));
+  }, [applyTableChange]);
+
+  const handleUndo = useCallback(() => {
+    const edit = analysisResult?.editHistory.past.at(-1);
+    if (!edit) return;
+    applyTableChange(table => revertEdit(table, edit), prev => ({
+      past: prev.editHistory.past.slice(0, -1),
+      future: [edit, ...prev.editHistory.future],
+    }), getEditedColumns(edit));
+  }, [analysisResult, applyTableChange]);
+
+  const handleRedo = useCallback(() => {
+    const edit = analysisResult?.editHistory.future[0];
+    if (!edit) return;
+    applyTableChange(table => applyEdit(table, edit), prev => ({
+      past: [...prev.editHistory.past, edit],
+      future: prev.editHistory.future.slice(1),
+    }), getEditedColumns(edit));
+  }, [analysisResult, applyTableChange]);
+
+  const handleRefreshInsights = useCallback(async () => {
+    if (!analysisResult) return;
+    try {
+      const insights = await generateInsights(analysisResult.summary);
+      updateActiveResult(prev => ({ ...prev, insights, insightsOutdated: false }));
+    } catch (err) {
+      console.error("Could not refresh insights:", err);
+    }
+  }, [analysisResult, updateActiveResult]);
+
+  const handlePivotConfigChange = useCallback((pivotConfig: PivotConfig) => {
+    updateActiveResult(prev => ({ ...prev, pivotConfig }));
+  }, [updateActiveResult]);
+
+  const handleOutlierRulesChange = useCallback((outlierRules: OutlierRule[]) => {
+    updateActiveResult(prev => ({ ...prev, outlierRules, insightsOutdated: true }));
+    scheduleSummary();
+  }, [updateActiveResult, scheduleSummary]);
+
+  const handleRestoreRows = useCallback((sourceIndices: number[]) => {
+    updateActiveResult(prev => {
+      const restored = restoreDroppedRows(prev.cleanedData, prev.cleaningReport, sourceIndices);
+      const cleanedData = recomputeFormulaColumns(applySchema(restored.cleanedData, prev.schema), prev.schema);
+      return { ...prev, cleanedData, cleaningReport: restored.report };
+    });
+    scheduleSummary();
+  }, [updateActiveResult, scheduleSummary]);
+
+  const handleColumnTypeChange = useCallback((column: string, type: ColumnType) => {
+    updateActiveResult(prev => {
+      const schema = overrideColumnType(prev.schema, column, type);
+      const cleanedData = recomputeFormulaColumns(applySchema(prev.cleanedData, schema, [column]), schema);
+      return { ...prev, schema, cleanedData, insightsOutdated: true };
+    });
+    scheduleSummary();
+  }, [updateActiveResult, scheduleSummary]);
   
   const handleChatSubmit = useCallback(async (message: string) => {
     if (!analysisResult) return;
@@ -59,25 +387,32 @@ const App: React.FC = () => {
         { role: 'user' as const, parts: [{ text: message }] }
     ];
 
-    setAnalysisResult(prev => prev ? { ...prev, chatHistory: updatedHistory } : null);
+    updateActiveResult(prev => ({ ...prev, chatHistory: updatedHistory }));
     
     try {
-        const aiResponse = await generateChatResponse(analysisResult.summary, updatedHistory);
-        setAnalysisResult(prev => {
-            if (!prev) return null;
-            const finalHistory = [...updatedHistory, { role: 'model' as const, parts: [{ text: aiResponse }] }];
+        // With filters on, the chat answers and queries the same rows the table and charts show.
+        const { cleanedData, schema, filterSet, outlierRules } = analysisResult;
+        const rows = applyOutlierRules(cleanedData, schema, outlierRules);
+        const filtered = hasActiveFilters(filterSet, schema);
+        const chatRows = filtered ? applyFilterSet(rows, schema, filterSet) : rows;
+        const context = filtered
+            ? `${summarizeTable(chatRows, schema).summary}\nThese figures cover only the rows matching the active filters: ${describeFilterSet(filterSet, schema)}.`
+            : analysisResult.summary;
+        const { text, queries } = await generateGroundedChatResponse(context, updatedHistory, chatRows, schema);
+        updateActiveResult(prev => {
+            const reply = { role: 'model' as const, parts: [{ text }], ...(queries.length > 0 ? { queries } : {}) };
+            const finalHistory = [...updatedHistory, reply];
             return { ...prev, chatHistory: finalHistory };
         });
     } catch (err) {
         console.error("Chat error:", err);
-        setAnalysisResult(prev => {
-            if (!prev) return null;
+        updateActiveResult(prev => {
             const errorMessage = "Sorry, I couldn't get a response. Please try again.";
             const finalHistory = [...updatedHistory, { role: 'model' as const, parts: [{ text: errorMessage }] }];
             return { ...prev, chatHistory: finalHistory };
         });
     }
-}, [analysisResult]);
+}, [analysisResult, updateActiveResult]);
 
 
   return (
@@ -100,8 +435,19 @@ const App: React.FC = () => {
         {isLoading && (
           <div className="flex flex-col items-center justify-center h-64 text-center">
             <LoaderCircle className="w-12 h-12 animate-spin text-primary-600" />
-            <p className="mt-4 text-lg font-semibold text-gray-700">{loadingMessage}</p>
-            <p className="text-gray-500">This may take a moment...</p>
+            <p className="mt-4 text-lg font-semibold text-gray-700">{importProgress?.message ?? loadingMessage}</p>
+            {importProgress?.fraction != null ? (
+              <div className="mt-3 w-full max-w-md bg-gray-200 rounded-full h-2">
+                <div className="bg-primary-600 h-2 rounded-full transition-all" style={{ width: `${Math.round(importProgress.fraction * 100)}%` }} />
+              </div>
+            ) : (
+              <p className="text-gray-500">This may take a moment...</p>
+            )}
+            {importProgress && (
+              <button onClick={handleCancelImport} className="mt-4 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+                Cancel
+              </button>
+            )}
           </div>
         )}
 
@@ -119,11 +465,35 @@ const App: React.FC = () => {
           <FileUpload onProcessFile={handleFileProcess} />
         )}
 
-        {!isLoading && analysisResult && (
+        {!isLoading && analysisResult && isAddingFile && (
+          <FileUpload onProcessFile={handleAddFile} onCancel={() => setIsAddingFile(false)} />
+        )}
+
+        {!isLoading && analysisResult && !isAddingFile && (
           <Dashboard 
+            key={activeResultIndex}
             result={analysisResult} 
+            tables={analysisResults}
+            activeTableIndex={activeResultIndex}
+            onSelectTable={handleSelectTable}
             onReset={handleReset} 
+            onAddFile={() => setIsAddingFile(true)}
+            onCombine={handleCombine}
             onChatSubmit={handleChatSubmit} 
+            onRecipeChange={handleRecipeChange}
+            onRestoreRows={handleRestoreRows}
+            onColumnTypeChange={handleColumnTypeChange}
+            onFilterSetChange={handleFilterSetChange}
+            onPivotConfigChange={handlePivotConfigChange}
+            onOutlierRulesChange={handleOutlierRulesChange}
+            onEdit={handleEdit}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onRefreshInsights={handleRefreshInsights}
+            onPinnedChartsChange={handlePinnedChartsChange}
+            savedDashboard={savedDashboard}
+            onApplySavedDashboard={handleApplySavedDashboard}
+            onDismissSavedDashboard={() => setSavedDashboard(null)}
           />
         )}
       </main>
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { BoxPlotStats } from '../services/statsService';
+
+interface BoxPlotChartProps {
+  groups: Array<{ label: string; stats: BoxPlotStats }>;
+  valueLabel: string;
+  groupLabel?: string;
+  height?: number;
+}
+
+const WIDTH = 800;
+const MARGIN = { top: 20, right: 20, bottom: 60, left: 60 };
+const MAX_OUTLIERS_DRAWN = 200;
+const TICK_COUNT = 5;
+
+const formatTick = (value: number) => (Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : Number(value.toPrecision(3)).toString());
+
+// recharts has no box plot, so this draws one directly as SVG with the same look as the other charts.
+const BoxPlotChart: React.FC<BoxPlotChartProps> = ({ groups, valueLabel, groupLabel, height = 400 }) => {
+  if (groups.length === 0) {
+    return <div className="text-center text-gray-500 h-96 flex items-center justify-center">No numeric values to plot.</div>;
+  }
+
+  const allValues = groups.flatMap(({ stats }) => [stats.lowerWhisker, stats.upperWhisker, ...stats.outliers]);
+  let lo = allValues.reduce((a, b) => (b < a ? b : a));
+  let hi = allValues.reduce((a, b) => (b > a ? b : a));
+  if (lo === hi) {
+    lo -= 1;
+    hi += 1;
+  }
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const y = (value: number) => MARGIN.top + plotHeight - ((value - lo) / (hi - lo)) * plotHeight;
+  const band = plotWidth / groups.length;
+  const boxWidth = Math.min(60, band * 0.5);
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, i) => lo + ((hi - lo) * i) / TICK_COUNT);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" height={height} className="font-sans text-xs">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" strokeDasharray="3 3" />
+          <text x={MARGIN.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" fill="#6b7280">{formatTick(tick)}</text>
+        </g>
+      ))}
+      <text transform={`translate(14 ${MARGIN.top + plotHeight / 2}) rotate(-90)`} textAnchor="middle" fill="#374151">{valueLabel}</text>
+      {groupLabel && <text x={MARGIN.left + plotWidth / 2} y={height - 12} textAnchor="middle" fill="#374151">{groupLabel}</text>}
+
+      {groups.map(({ label, stats }, i) => {
+        const cx = MARGIN.left + band * i + band / 2;
+        const left = cx - boxWidth / 2;
+        return (
+          <g key={label}>
+            <title>{`${label}\nn = ${stats.count}\nMin ${stats.min}\nQ1 ${formatTick(stats.q1)}\nMedian ${formatTick(stats.median)}\nQ3 ${formatTick(stats.q3)}\nMax ${stats.max}\nOutliers ${stats.outliers.length}`}</title>
+            <line x1={cx} x2={cx} y1={y(stats.upperWhisker)} y2={y(stats.q3)} stroke="#374151" />
+            <line x1={cx} x2={cx} y1={y(stats.q1)} y2={y(stats.lowerWhisker)} stroke="#374151" />
+            <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={y(stats.upperWhisker)} y2={y(stats.upperWhisker)} stroke="#374151" />
+            <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={y(stats.lowerWhisker)} y2={y(stats.lowerWhisker)} stroke="#374151" />
+            <rect x={left} y={y(stats.q3)} width={boxWidth} height={Math.max(1, y(stats.q1) - y(stats.q3))} fill="#bfdbfe" stroke="#3b82f6" />
+            <line x1={left} x2={left + boxWidth} y1={y(stats.median)} y2={y(stats.median)} stroke="#1e40af" strokeWidth={2} />
+            {stats.outliers.slice(0, MAX_OUTLIERS_DRAWN).map((value, j) => (
+              <circle key={j} cx={cx} cy={y(value)} r={3} fill="none" stroke="#ef4444" />
+            ))}
+            <text x={cx} y={height - MARGIN.bottom + 16} textAnchor="middle" fill="#374151">
+              {label.length > 14 ? `${label.slice(0, 13)}…` : label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BoxPlotChart;
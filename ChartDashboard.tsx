@@ -0,0 +1,151 @@
+import React, { useState, useRef, useMemo } from 'react';
+import type { TableRow, ColumnSchema, ChartConfig, PinnedChart, FilterSet, PivotConfig } from '../types';
+import { CHART_HEIGHT_OPTIONS } from '../services/dashboardService';
+import { applyFilterSet, describeFilterSet, getActiveFilters, hasActiveFilters } from '../services/filterService';
+import { computePivot, isPivotReady, pivotToChartTable } from '../services/pivotService';
+import ChartView from './ChartView';
+import ChartExportMenu from './ChartExportMenu';
+import { ChevronLeft, ChevronRight, Maximize2, Minimize2, Pencil, Trash2, GripVertical } from 'lucide-react';
+
+interface ChartDashboardProps {
+  // The rows before filtering; each chart applies the filters it was pinned with.
+  data: TableRow[];
+  schema: ColumnSchema[];
+  // Current filters, for charts pinned before filters were saved with them.
+  filterSet: FilterSet;
+  // Pivot table fields, for charts drawn from its output.
+  pivotConfig: PivotConfig;
+  outlierRows?: Map<string, Set<TableRow>>;
+  charts: PinnedChart[];
+  onChange: (charts: PinnedChart[]) => void;
+  // Opens a pinned chart's config in the chart builder.
+  onEditChart: (config: ChartConfig) => void;
+}
+
+const iconButtonClassName = "p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:hover:text-gray-400";
+
+interface ChartTable {
+  data: TableRow[];
+  pivot: { data: TableRow[]; schema: ColumnSchema[] };
+  // e.g. `Region is one of East`, or empty without filters.
+  description: string;
+}
+
+const getFilterKey = (filterSet: FilterSet, schema: ColumnSchema[]) =>
+  JSON.stringify([filterSet.combinator, getActiveFilters(filterSet, schema).map(({ id: _id, ...filter }) => filter)]);
+
+const ChartDashboard: React.FC<ChartDashboardProps> = ({ data, schema, filterSet, pivotConfig, outlierRows, charts, onChange, onEditChart }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const chartRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  // Charts pinned with the same filters share the filtered rows, and the pivot built from them.
+  const chartTables = useMemo(() => {
+    const tables = new Map<string, ChartTable>();
+    charts.forEach(chart => {
+      const chartFilters = chart.filterSet ?? filterSet;
+      const key = getFilterKey(chartFilters, schema);
+      let table = tables.get(key);
+      if (!table) {
+        const filtered = hasActiveFilters(chartFilters, schema);
+        table = {
+          data: filtered ? applyFilterSet(data, schema, chartFilters) : data,
+          pivot: { data: [], schema: [] },
+          description: filtered ? describeFilterSet(chartFilters, schema) : '',
+        };
+        tables.set(key, table);
+      }
+      if (chart.config.source === 'pivot' && table.pivot.schema.length === 0 && isPivotReady(pivotConfig)) {
+        table.pivot = pivotToChartTable(computePivot(table.data, pivotConfig), schema);
+      }
+    });
+    return tables;
+  }, [charts, data, schema, filterSet, pivotConfig]);
+
+  if (charts.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 text-center text-gray-500">
+        No charts pinned yet. Build a chart on the Visualization tab and choose "Pin to Dashboard".
+      </div>
+    );
+  }
+
+  const updateChart = (id: string, changes: Partial<PinnedChart>) =>
+    onChange(charts.map(chart => (chart.id === id ? { ...chart, ...changes } : chart)));
+
+  const moveChart = (from: number, to: number) => {
+    if (to < 0 || to >= charts.length || from === to) return;
+    const next = [...charts];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {charts.map((chart, index) => {
+        const table = chartTables.get(getFilterKey(chart.filterSet ?? filterSet, schema))!;
+        return (
+          <div
+            key={chart.id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) moveChart(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`bg-white p-4 rounded-lg shadow-md border border-gray-200 ${chart.width === 2 ? 'lg:col-span-2' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center mb-3 space-x-2">
+              <GripVertical className="w-4 h-4 text-gray-300 cursor-move flex-shrink-0" />
+              <input
+                type="text"
+                value={chart.title}
+                onChange={e => updateChart(chart.id, { title: e.target.value })}
+                aria-label="Chart title"
+                className="flex-1 min-w-0 font-semibold text-gray-800 border-transparent hover:border-gray-300 focus:border-primary-500 focus:ring-primary-500 rounded-md text-sm"
+              />
+              <select
+                value={chart.height}
+                onChange={e => updateChart(chart.id, { height: Number(e.target.value) })}
+                aria-label="Chart height"
+                className="text-xs border-gray-300 rounded-md py-1"
+              >
+                {CHART_HEIGHT_OPTIONS.map(h => <option key={h} value={h}>{h}px</option>)}
+              </select>
+              <button onClick={() => updateChart(chart.id, { width: chart.width === 2 ? 1 : 2 })} title={chart.width === 2 ? 'Half width' : 'Full width'} className={iconButtonClassName}>
+                {chart.width === 2 ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+              </button>
+              <button onClick={() => moveChart(index, index - 1)} disabled={index === 0} title="Move earlier" className={iconButtonClassName}>
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button onClick={() => moveChart(index, index + 1)} disabled={index === charts.length - 1} title="Move later" className={iconButtonClassName}>
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <button onClick={() => onEditChart(chart.config)} title="Open in chart builder" className={iconButtonClassName}>
+                <Pencil className="w-4 h-4" />
+              </button>
+              <ChartExportMenu getContainer={() => chartRefs.current[chart.id] ?? null} title={chart.title} />
+              <button onClick={() => onChange(charts.filter(c => c.id !== chart.id))} title="Remove from dashboard" className="p-1 text-gray-400 hover:text-red-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {table.description && <p className="mb-2 text-xs text-gray-500">Filtered: {table.description}</p>}
+            <div ref={el => { chartRefs.current[chart.id] = el; }}>
+              <ChartView
+                data={chart.config.source === 'pivot' ? table.pivot.data : table.data}
+                schema={chart.config.source === 'pivot' ? table.pivot.schema : schema}
+                config={chart.config}
+                height={chart.height}
+                outlierRows={chart.config.source === 'pivot' ? undefined : outlierRows}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ChartDashboard;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { exportChartAsSVG, exportChartAsPNG, copyChartToClipboard } from '../utils/export';
+import { Download, Copy, Check } from 'lucide-react';
+
+interface ChartExportMenuProps {
+  // Element that contains the rendered chart.
+  getContainer: () => HTMLElement | null;
+  title: string;
+}
+
+const PNG_SCALES = [1, 2, 3];
+
+const ChartExportMenu: React.FC<ChartExportMenuProps> = ({ getContainer, title }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [status, setStatus] = useState<{ message: string; ok: boolean } | null>(null);
+
+  const run = async (action: (container: HTMLElement) => void | Promise<void>, doneMessage?: string) => {
+    const container = getContainer();
+    if (!container) return;
+    setStatus(null);
+    try {
+      await action(container);
+      if (doneMessage) setStatus({ message: doneMessage, ok: true });
+      else setIsOpen(false);
+    } catch (err) {
+      console.error("Chart export error:", err);
+      setStatus({ message: err instanceof Error ? err.message : 'Export failed.', ok: false });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => { setIsOpen(v => !v); setStatus(null); }} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors">
+        <Download className="w-4 h-4 mr-2" /> Export
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-10 space-y-2 text-sm">
+          <button onClick={() => run(container => exportChartAsSVG(container, title))} className="w-full text-left px-2 py-1.5 rounded hover:bg-gray-100">
+            Download SVG
+          </button>
+          <div className="flex items-center justify-between">
+            <button onClick={() => run(container => exportChartAsPNG(container, title, scale))} className="flex-1 text-left px-2 py-1.5 rounded hover:bg-gray-100">
+              Download PNG
+            </button>
+            <select value={scale} onChange={e => setScale(Number(e.target.value))} aria-label="PNG resolution" className="text-xs border-gray-300 rounded-md py-1">
+              {PNG_SCALES.map(s => <option key={s} value={s}>{s}x</option>)}
+            </select>
+          </div>
+          <button onClick={() => run(container => copyChartToClipboard(container, title, scale), 'Copied to clipboard.')} className="w-full flex items-center px-2 py-1.5 rounded hover:bg-gray-100">
+            <Copy className="w-4 h-4 mr-2" /> Copy as image
+          </button>
+          {status && (
+            <p className={`flex items-center text-xs px-2 ${status.ok ? 'text-gray-500' : 'text-red-600'}`}>
+              {status.ok && <Check className="w-3 h-3 mr-1 text-green-600" />}
+              {status.message}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartExportMenu;
@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, AreaChart, Area, ComposedChart, ScatterChart, Scatter, PieChart, Pie, Cell,
+  XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import type { TableRow, ColumnSchema, ChartConfig } from '../types';
+import { buildChartModel, getAxisLabels } from '../services/chartService';
+import { formatPeriodLabel } from '../services/dateService';
+import { FORECAST_KEY, FORECAST_LEVEL, FORECAST_LOWER_KEY, FORECAST_UPPER_KEY, describeForecast } from '../services/forecastService';
+import type { ChartSeries } from '../services/aggregationService';
+import BoxPlotChart from './BoxPlotChart';
+import CorrelationHeatmap from './CorrelationHeatmap';
+
+interface ChartViewProps {
+  data: TableRow[];
+  schema: ColumnSchema[];
+  config: ChartConfig;
+  height?: number;
+  // Outliers flagged but kept, per column; marked on histograms and scatter plots.
+  outlierRows?: Map<string, Set<TableRow>>;
+}
+
+export const SERIES_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+const OUTLIER_COLOR = '#dc2626';
+
+// Renders one chart from its config; used by the chart builder and by pinned dashboard charts.
+const ChartView: React.FC<ChartViewProps> = ({ data, schema, config, height = 400, outlierRows }) => {
+  const { chartType, xAxisKey, yAxisKey, sizeKey, period, gaps, showTrendLine, isDonut } = config;
+  const chart = useMemo(() => buildChartModel(data, schema, config, outlierRows), [data, schema, config, outlierRows]);
+  const axisLabels = getAxisLabels(config);
+  // Axis titles are part of the SVG so exported charts keep them.
+  const xLabel = { value: axisLabels.x, position: 'insideBottom' as const, offset: -10, fill: '#374151' };
+  const yLabel = { value: axisLabels.y, angle: -90, position: 'insideLeft' as const, style: { textAnchor: 'middle' }, fill: '#374151' };
+  const margin = { top: 10, right: 20, bottom: 20, left: 20 };
+
+  const renderSeries = (series: ChartSeries[], points: number) => series.map((s, i) => {
+    const color = SERIES_COLORS[i % SERIES_COLORS.length];
+    switch (chartType) {
+      case 'stackedBar':
+      case 'percentBar':
+        return <Bar key={s.key} dataKey={s.key} name={s.name} stackId="stack" fill={color} />;
+      case 'area':
+        return <Area key={s.key} type="monotone" dataKey={s.key} name={s.name} stroke={color} fill={color} fillOpacity={0.3} connectNulls={gaps === 'connect' || period === 'none'} />;
+      case 'line':
+        return <Line key={s.key} type="monotone" dataKey={s.key} name={s.name} stroke={color} connectNulls={gaps === 'connect' || period === 'none'} dot={points <= 100} activeDot={{ r: 8 }} />;
+      default:
+        return <Bar key={s.key} dataKey={s.key} name={s.name} fill={color} />;
+    }
+  });
+
+  const renderChart = () => {
+    if (chart?.kind === 'timeSeries') {
+      if (chart.points.length === 0) {
+        return <div className="text-center text-gray-500 flex items-center justify-center" style={{ height }}>No valid dates found in "{xAxisKey}".</div>;
+      }
+      // Forecast bands are areas, which need a composed chart to sit under the lines.
+      const ChartComponent = chart.forecast ? ComposedChart : chartType === 'area' ? AreaChart : LineChart;
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <ChartComponent data={chart.points} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={(t: number) => formatPeriodLabel(t, period)} label={xLabel} />
+            <YAxis label={yLabel} />
+            <Tooltip labelFormatter={(t) => formatPeriodLabel(Number(t), period)} />
+            <Legend />
+            {chart.forecast && (
+              <Area
+                dataKey={(point: Record<string, number | null>) => (point[FORECAST_LOWER_KEY] == null ? null : [point[FORECAST_LOWER_KEY], point[FORECAST_UPPER_KEY]])}
+                name={`${Math.round(FORECAST_LEVEL * 100)}% band`}
+                stroke="none"
+                fill={SERIES_COLORS[0]}
+                fillOpacity={0.15}
+                isAnimationActive={false}
+              />
+            )}
+            {renderSeries(chart.series, chart.points.length)}
+            {chart.forecast && (
+              <Line type="monotone" dataKey={FORECAST_KEY} name="Forecast" stroke={SERIES_COLORS[0]} strokeDasharray="6 3" dot={false} isAnimationActive={false} />
+            )}
+          </ChartComponent>
+        </ResponsiveContainer>
+      );
+    }
+    if (chart?.kind === 'grouped' && chartType === 'pie') {
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <PieChart>
+            <Tooltip />
+            <Legend />
+            <Pie data={chart.rows} dataKey="s0" nameKey="label" innerRadius={isDonut ? '50%' : 0} outerRadius="80%" label>
+              {chart.rows.map((row, i) => <Cell key={String(row.label)} fill={SERIES_COLORS[i % SERIES_COLORS.length]} />)}
+            </Pie>
+          </PieChart>
+        </ResponsiveContainer>
+      );
+    }
+    if (chart?.kind === 'grouped') {
+      const isBar = chartType === 'bar' || chartType === 'stackedBar' || chartType === 'percentBar';
+      const ChartComponent = isBar ? BarChart : chartType === 'area' ? AreaChart : LineChart;
+      const isPercent = chartType === 'percentBar';
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <ChartComponent data={chart.rows} stackOffset={isPercent ? 'expand' : undefined} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" label={xLabel} />
+            <YAxis tickFormatter={isPercent ? (v: number) => `${Math.round(v * 100)}%` : undefined} label={yLabel} />
+            <Tooltip />
+            <Legend />
+            {renderSeries(chart.series, chart.rows.length)}
+          </ChartComponent>
+        </ResponsiveContainer>
+      );
+    }
+    if (chart?.kind === 'scatter') {
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <ScatterChart margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="x" type="number" name={xAxisKey} domain={['auto', 'auto']} label={xLabel} />
+            <YAxis dataKey="y" type="number" name={yAxisKey} domain={['auto', 'auto']} label={yLabel} />
+            {sizeKey && <ZAxis dataKey="z" type="number" name={sizeKey} range={[20, 400]} />}
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <Legend />
+            {chart.groups.map((group, i) => (
+              <Scatter
+                key={group.name}
+                name={group.name}
+                data={group.points}
+                fill={group.isOutlier ? OUTLIER_COLOR : SERIES_COLORS[i % SERIES_COLORS.length]}
+                fillOpacity={group.isOutlier ? 1 : 0.7}
+                shape={group.isOutlier ? 'diamond' : 'circle'}
+              />
+            ))}
+            {showTrendLine && chart.fit && (
+              <ReferenceLine
+                segment={[
+                  { x: chart.xRange[0], y: chart.fit.slope * chart.xRange[0] + chart.fit.intercept },
+                  { x: chart.xRange[1], y: chart.fit.slope * chart.xRange[1] + chart.fit.intercept },
+                ]}
+                stroke="#111827"
+                strokeDasharray="6 3"
+                ifOverflow="extendDomain"
+              />
+            )}
+          </ScatterChart>
+        </ResponsiveContainer>
+      );
+    }
+    if (chart?.kind === 'box') {
+      return <BoxPlotChart groups={chart.groups} valueLabel={axisLabels.y} groupLabel={axisLabels.x} height={height} />;
+    }
+    if (chart?.kind === 'heatmap') {
+      return <CorrelationHeatmap columns={chart.columns} matrix={chart.matrix} />;
+    }
+    if (chart?.kind === 'histogram') {
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <BarChart data={chart.bins} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="range" angle={-45} textAnchor="end" height={80} label={{ ...xLabel, offset: 0 }} />
+            <YAxis label={yLabel} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="count" fill="#3b82f6">
+              {chart.bins.map(bin => <Cell key={bin.range} fill={bin.outliers > 0 ? OUTLIER_COLOR : '#3b82f6'} />)}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+    return <div className="text-center text-gray-500 flex items-center justify-center" style={{ height }}>Please select columns to generate a chart.</div>;
+  };
+
+  return (
+    <>
+      {chart?.kind === 'grouped' && chart.totalGroups > chart.rows.length && (
+        <p className="text-sm text-gray-500 mb-2">Showing {chart.rows.length} of {chart.totalGroups} groups.</p>
+      )}
+      {chart?.kind === 'box' && chart.totalGroups > chart.groups.length && (
+        <p className="text-sm text-gray-500 mb-2">Showing the {chart.groups.length} largest of {chart.totalGroups} groups.</p>
+      )}
+      {chart?.kind === 'timeSeries' && chart.forecast && <p className="text-sm text-gray-500 mb-2">Forecast: {describeForecast(chart.forecast)}</p>}
+      {chart?.kind === 'timeSeries' && chart.forecastError && <p className="text-sm text-red-600 mb-2">No forecast: {chart.forecastError}</p>}
+      {chart?.kind === 'histogram' && chart.bins.some(bin => bin.outliers > 0) && (
+        <p className="text-sm text-gray-500 mb-2">Bins in red hold values flagged as outliers.</p>
+      )}
+      {chart?.kind === 'scatter' && (
+        <p className="text-sm text-gray-500 mb-2">
+          {chart.shown < chart.total ? `Showing a sample of ${chart.shown} of ${chart.total} points.` : `${chart.total} points.`}
+          {showTrendLine && chart.fit && ` Trend: y = ${chart.fit.slope.toPrecision(3)}x + ${chart.fit.intercept.toPrecision(3)} (R² = ${chart.fit.r2.toFixed(2)}).`}
+        </p>
+      )}
+      {renderChart()}
+    </>
+  );
+};
+
+export default ChartView;
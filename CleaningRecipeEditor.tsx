@@ -0,0 +1,121 @@
+import React from 'react';
+import type { CleaningRecipe, CleaningStep, MissingValueStrategy, DateOrder } from '../types';
+import { CLEANING_STEP_LABELS, MISSING_VALUE_STRATEGY_LABELS, DATE_ORDER_LABELS, COLUMN_SCOPED_STEPS } from '../services/cleaningService';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+
+interface CleaningRecipeEditorProps {
+  recipe: CleaningRecipe;
+  // Known column names; column pickers are hidden until the file has been parsed.
+  columns: string[];
+  onChange: (recipe: CleaningRecipe) => void;
+}
+
+const CleaningRecipeEditor: React.FC<CleaningRecipeEditorProps> = ({ recipe, columns, onChange }) => {
+  const updateStep = (index: number, changes: Partial<CleaningStep>) => {
+    onChange(recipe.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= recipe.length) return;
+    const next = [...recipe];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const toggleColumn = (index: number, column: string) => {
+    const current = recipe[index].columns ?? [];
+    const next = current.includes(column) ? current.filter(c => c !== column) : [...current, column];
+    updateStep(index, { columns: next });
+  };
+
+  return (
+    <ol className="space-y-2">
+      {recipe.map((step, index) => (
+        <li key={step.type} className={`border rounded-lg p-3 ${step.enabled ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50'}`}>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={step.enabled}
+                onChange={e => updateStep(index, { enabled: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className={step.enabled ? '' : 'text-gray-400'}>{index + 1}. {CLEANING_STEP_LABELS[step.type]}</span>
+            </label>
+            <div className="flex space-x-1">
+              <button type="button" onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" aria-label="Move step up">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={() => moveStep(index, 1)} disabled={index === recipe.length - 1} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" aria-label="Move step down">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {step.enabled && step.type === 'handleMissing' && (
+            <div className="mt-2 ml-6 flex flex-wrap items-center gap-2">
+              <select
+                value={step.strategy ?? 'drop'}
+                onChange={e => updateStep(index, { strategy: e.target.value as MissingValueStrategy })}
+                className="text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                {(Object.keys(MISSING_VALUE_STRATEGY_LABELS) as MissingValueStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{MISSING_VALUE_STRATEGY_LABELS[strategy]}</option>
+                ))}
+              </select>
+              {step.strategy === 'constant' && (
+                <input
+                  type="text"
+                  value={step.fillValue ?? ''}
+                  onChange={e => updateStep(index, { fillValue: e.target.value })}
+                  placeholder="Fill value"
+                  className="text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              )}
+            </div>
+          )}
+
+          {step.enabled && step.type === 'parseDates' && (
+            <div className="mt-2 ml-6">
+              <select
+                value={step.dateOrder ?? 'auto'}
+                onChange={e => updateStep(index, { dateOrder: e.target.value as DateOrder })}
+                className="text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+                  <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {step.enabled && COLUMN_SCOPED_STEPS.includes(step.type) && columns.length > 0 && (
+            <div className="mt-2 ml-6">
+              <p className="text-xs text-gray-500 mb-1">
+                {step.type === 'removeDuplicates' ? 'Compare on columns' : 'Apply to columns'} ({step.columns?.length ? `${step.columns.length} selected` : step.type === 'parseDates' ? 'auto-detect' : 'all'}):
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {columns.map(column => {
+                  const selected = step.columns?.includes(column) ?? false;
+                  return (
+                    <button
+                      type="button"
+                      key={column}
+                      onClick={() => toggleColumn(index, column)}
+                      className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${selected ? 'bg-primary-100 border-primary-300 text-primary-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      {column}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CleaningRecipeEditor;
@@ -0,0 +1,198 @@
+import React, { useState, useMemo } from 'react';
+import type { CleaningReport } from '../types';
+import { describeCleaningStep } from '../services/cleaningService';
+import { Undo2 } from 'lucide-react';
+
+interface CleaningReportPanelProps {
+  report: CleaningReport;
+  onRestoreRows: (sourceIndices: number[]) => void;
+}
+
+const MAX_CHANGES_SHOWN = 200;
+
+const formatValue = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? <span className="italic text-gray-400">empty</span> : String(value);
+
+const CleaningReportPanel: React.FC<CleaningReportPanelProps> = ({ report, onRestoreRows }) => {
+  const [stepFilter, setStepFilter] = useState<number | 'all'>('all');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [currentPage, setCurrentPage] = useState(1);
+  const rowsPerPage = 15;
+
+  const visibleDropped = useMemo(
+    () => (stepFilter === 'all' ? report.droppedRows : report.droppedRows.filter(d => d.stepIndex === stepFilter)),
+    [report.droppedRows, stepFilter]
+  );
+
+  const droppedHeaders = useMemo(() => {
+    const headers = new Set<string>();
+    visibleDropped.slice(0, 500).forEach(d => Object.keys(d.row).forEach(key => headers.add(key)));
+    return Array.from(headers);
+  }, [visibleDropped]);
+
+  const totalPages = Math.ceil(visibleDropped.length / rowsPerPage);
+  const paginatedDropped = visibleDropped.slice((currentPage - 1) * rowsPerPage, currentPage * rowsPerPage);
+
+  const toggleSelected = (sourceIndex: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sourceIndex)) next.delete(sourceIndex);
+      else next.add(sourceIndex);
+      return next;
+    });
+  };
+
+  const handleRestore = (sourceIndices: number[]) => {
+    if (sourceIndices.length === 0) return;
+    onRestoreRows(sourceIndices);
+    setSelected(new Set());
+    setCurrentPage(1);
+  };
+
+  const finalRowCount = report.steps.length > 0 ? report.steps[report.steps.length - 1].rowsAfter : report.originalRowCount;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Cleaning Steps</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {report.originalRowCount} rows read from the file, {finalRowCount} kept after cleaning
+          {report.restoredRowCount > 0 && `, ${report.restoredRowCount} restored by hand`}.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Step', 'Rows before', 'Rows after', 'Rows removed', 'Cells changed', 'Columns removed'].map(label => (
+                  <th key={label} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report.steps.map((stepReport, index) => (
+                <tr key={index}>
+                  <td className="px-4 py-3 text-sm text-gray-700">{index + 1}. {describeCleaningStep(stepReport.step)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{stepReport.rowsBefore}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{stepReport.rowsAfter}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{stepReport.rowsBefore - stepReport.rowsAfter}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{stepReport.cellsChanged}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{stepReport.columnsRemoved.join(', ') || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 gap-2">
+          <h3 className="text-lg font-semibold text-gray-800">Dropped Rows ({report.droppedRows.length})</h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={stepFilter}
+              onChange={e => { setStepFilter(e.target.value === 'all' ? 'all' : Number(e.target.value)); setCurrentPage(1); }}
+              className="text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="all">All steps</option>
+              {report.steps.map((stepReport, index) => (
+                stepReport.rowsBefore > stepReport.rowsAfter && <option key={index} value={index}>{describeCleaningStep(stepReport.step)}</option>
+              ))}
+            </select>
+            <button onClick={() => handleRestore(Array.from(selected))} disabled={selected.size === 0} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+              <Undo2 className="w-4 h-4 mr-2" /> Restore selected ({selected.size})
+            </button>
+            <button onClick={() => handleRestore(visibleDropped.map(d => d.sourceIndex))} disabled={visibleDropped.length === 0} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+              Restore all shown
+            </button>
+          </div>
+        </div>
+
+        {visibleDropped.length === 0 ? (
+          <p className="text-sm text-gray-500">No rows were dropped.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 py-3"></th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  {droppedHeaders.map(header => (
+                    <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {paginatedDropped.map(dropped => (
+                  <tr key={dropped.sourceIndex} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(dropped.sourceIndex)}
+                        onChange={() => toggleSelected(dropped.sourceIndex)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{dropped.sourceIndex + 1}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{dropped.reason}</td>
+                    {droppedHeaders.map(header => (
+                      <td key={header} className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">{formatValue(dropped.row[header])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex justify-between items-center mt-4">
+            <span className="text-sm text-gray-600">Page {currentPage} of {totalPages}</span>
+            <div className="flex space-x-2">
+              <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1} className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed">
+                Previous
+              </button>
+              <button onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))} disabled={currentPage === totalPages} className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed">
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Changed Cells</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {report.steps.reduce((total, s) => total + s.cellsChanged, 0)} cells were trimmed, filled or converted.
+          {report.changedCells.length > MAX_CHANGES_SHOWN && ` Showing the first ${MAX_CHANGES_SHOWN}.`}
+        </p>
+        {report.changedCells.length > 0 && (
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Row', 'Column', 'Step', 'Before', 'After'].map(label => (
+                    <th key={label} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.changedCells.slice(0, MAX_CHANGES_SHOWN).map((change, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2 text-sm text-gray-700">{change.sourceIndex + 1}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{change.column}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{describeCleaningStep(report.steps[change.stepIndex].step)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{formatValue(change.before)}{change.before !== null && <span className="text-gray-400"> ({typeof change.before})</span>}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{formatValue(change.after)}{change.after !== null && <span className="text-gray-400"> ({typeof change.after})</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CleaningReportPanel;
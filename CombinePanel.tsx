@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import type { TableRow, ColumnSchema } from '../types';
+import {
+  JOIN_TYPE_LABELS, APPEND_MODE_LABELS, previewJoin, joinTables, alignColumns, appendTables,
+  type JoinType, type JoinKey, type AppendMode, type CombineTable,
+} from '../services/combineService';
+import { COLUMN_TYPE_LABELS } from '../services/schemaService';
+import { FilePlus, Plus, X, AlertTriangle } from 'lucide-react';
+
+interface CombinePanelProps {
+  tables: CombineTable[];
+  activeIndex: number;
+  onCombine: (name: string, table: { data: TableRow[]; schema: ColumnSchema[] }) => void;
+  onAddFile: () => void;
+  onClose: () => void;
+}
+
+type CombineMode = 'join' | 'append';
+
+const inputClassName = "text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+const formatPercent = (part: number, total: number) => (total === 0 ? '0%' : `${Math.round((part / total) * 100)}%`);
+
+// Pairs columns with the same name, falling back to the first column of each table.
+const guessJoinKeys = (left: CombineTable, right: CombineTable): JoinKey[] => {
+  const shared = left.schema.find(column => right.schema.some(({ name }) => name === column.name));
+  if (shared) return [{ left: shared.name, right: shared.name }];
+  return left.schema[0] && right.schema[0] ? [{ left: left.schema[0].name, right: right.schema[0].name }] : [];
+};
+
+const CombinePanel: React.FC<CombinePanelProps> = ({ tables, activeIndex, onCombine, onAddFile, onClose }) => {
+  const otherIndex = activeIndex === 0 ? 1 : 0;
+  const [mode, setMode] = useState<CombineMode>('join');
+  const [leftIndex, setLeftIndex] = useState(activeIndex);
+  const [rightIndex, setRightIndex] = useState(otherIndex);
+  const [keys, setKeys] = useState<JoinKey[]>(() => (tables.length > 1 ? guessJoinKeys(tables[activeIndex], tables[otherIndex]) : []));
+  const [joinType, setJoinType] = useState<JoinType>('left');
+  const [appendIndices, setAppendIndices] = useState<number[]>(() => tables.map((_, i) => i));
+  const [appendMode, setAppendMode] = useState<AppendMode>('all');
+  const [addSource, setAddSource] = useState(true);
+  const [name, setName] = useState('');
+
+  const left = tables[leftIndex];
+  const right = tables[rightIndex];
+  const appendSelection = useMemo(() => appendIndices.map(i => tables[i]), [appendIndices, tables]);
+
+  const joinPreview = useMemo(
+    () => (mode === 'join' && left && right && keys.length > 0 ? previewJoin(left, right, keys) : null),
+    [mode, left, right, keys],
+  );
+  const alignment = useMemo(
+    () => (mode === 'append' ? alignColumns(appendSelection, appendMode) : []),
+    [mode, appendSelection, appendMode],
+  );
+
+  if (tables.length < 2) {
+    return (
+      <div className="text-sm text-gray-600">
+        <p>Joining and appending need at least two tables. Load another file to combine it with this one.</p>
+        <button onClick={onAddFile} className="mt-3 flex items-center px-3 py-1.5 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700">
+          <FilePlus className="w-4 h-4 mr-1" /> Add File
+        </button>
+      </div>
+    );
+  }
+
+  const selectTables = (nextLeft: number, nextRight: number) => {
+    setLeftIndex(nextLeft);
+    setRightIndex(nextRight);
+    setKeys(guessJoinKeys(tables[nextLeft], tables[nextRight]));
+  };
+
+  const updateKey = (index: number, patch: Partial<JoinKey>) => {
+    setKeys(prev => prev.map((key, i) => (i === index ? { ...key, ...patch } : key)));
+  };
+
+  const toggleAppendTable = (index: number) => {
+    setAppendIndices(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)));
+  };
+
+  const defaultName = mode === 'join'
+    ? `${left.name} + ${right.name}`
+    : appendSelection.map(table => table.name).join(' + ');
+  const canJoin = leftIndex !== rightIndex && keys.length > 0;
+  const canAppend = appendSelection.length > 1 && alignment.length > 0;
+
+  const handleCombine = () => {
+    const resultName = name.trim() || defaultName;
+    if (mode === 'join' && canJoin) onCombine(resultName, joinTables(left, right, keys, joinType));
+    if (mode === 'append' && canAppend) onCombine(resultName, appendTables(appendSelection, appendMode, addSource));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-4 text-sm">
+        {(['join', 'append'] as CombineMode[]).map(option => (
+          <label key={option} className="flex items-center">
+            <input type="radio" checked={mode === option} onChange={() => setMode(option)} className="mr-1.5 text-primary-600 focus:ring-primary-500" />
+            {option === 'join' ? 'Join on key columns' : 'Append rows'}
+          </label>
+        ))}
+      </div>
+
+      {mode === 'join' && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select value={leftIndex} onChange={e => selectTables(Number(e.target.value), rightIndex)} className={`${inputClassName} py-1`}>
+              {tables.map((table, i) => <option key={i} value={i}>{table.name}</option>)}
+            </select>
+            <span className="text-gray-500">joined with</span>
+            <select value={rightIndex} onChange={e => selectTables(leftIndex, Number(e.target.value))} className={`${inputClassName} py-1`}>
+              {tables.map((table, i) => <option key={i} value={i}>{table.name}</option>)}
+            </select>
+            <select value={joinType} onChange={e => setJoinType(e.target.value as JoinType)} className={`${inputClassName} py-1`}>
+              {(Object.keys(JOIN_TYPE_LABELS) as JoinType[]).map(type => <option key={type} value={type}>{JOIN_TYPE_LABELS[type]}</option>)}
+            </select>
+          </div>
+          {leftIndex === rightIndex && <p className="text-sm text-red-600">Pick two different tables.</p>}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Match rows where</p>
+            {keys.map((key, i) => (
+              <div key={i} className="flex items-center gap-2 text-sm">
+                <select value={key.left} onChange={e => updateKey(i, { left: e.target.value })} className={`${inputClassName} py-1`}>
+                  {left.schema.map(column => <option key={column.name} value={column.name}>{column.name}</option>)}
+                </select>
+                <span className="text-gray-500">=</span>
+                <select value={key.right} onChange={e => updateKey(i, { right: e.target.value })} className={`${inputClassName} py-1`}>
+                  {right.schema.map(column => <option key={column.name} value={column.name}>{column.name}</option>)}
+                </select>
+                {keys.length > 1 && (
+                  <button onClick={() => setKeys(prev => prev.filter((_, k) => k !== i))} className="p-1 text-gray-400 hover:text-red-600" title="Remove key">
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => setKeys(prev => [...prev, { left: left.schema[0].name, right: right.schema[0].name }])}
+              className="flex items-center text-sm text-primary-600 hover:underline"
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add key column
+            </button>
+          </div>
+
+          {joinPreview && canJoin && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 space-y-1">
+              <p>
+                {joinPreview.leftMatched} of {joinPreview.leftTotal} rows of <span className="font-medium">{left.name}</span> match
+                {' '}({formatPercent(joinPreview.leftMatched, joinPreview.leftTotal)});{' '}
+                {joinPreview.rightMatched} of {joinPreview.rightTotal} rows of <span className="font-medium">{right.name}</span> match
+                {' '}({formatPercent(joinPreview.rightMatched, joinPreview.rightTotal)}).
+              </p>
+              <p>The joined table will have {joinPreview.rowCounts[joinType]} rows.</p>
+              {joinPreview.unmatchedLeftKeys.length > 0 && (
+                <p className="text-xs text-gray-500">Unmatched in {left.name}: <span className="font-mono">{joinPreview.unmatchedLeftKeys.join(', ')}</span></p>
+              )}
+              {joinPreview.unmatchedRightKeys.length > 0 && (
+                <p className="text-xs text-gray-500">Unmatched in {right.name}: <span className="font-mono">{joinPreview.unmatchedRightKeys.join(', ')}</span></p>
+              )}
+              {joinPreview.duplicateRightKeys > 0 && (
+                <p className="flex items-center text-xs text-amber-700">
+                  <AlertTriangle className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+                  {joinPreview.duplicateRightKeys} key{joinPreview.duplicateRightKeys === 1 ? '' : 's'} appear more than once in {right.name}, so matching rows of {left.name} are repeated.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode === 'append' && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            {tables.map((table, i) => (
+              <label key={i} className="flex items-center">
+                <input type="checkbox" checked={appendIndices.includes(i)} onChange={() => toggleAppendTable(i)} className="mr-1.5 rounded text-primary-600 focus:ring-primary-500" />
+                {table.name} <span className="ml-1 text-gray-400">({table.data.length} rows)</span>
+              </label>
+            ))}
+          </div>
+          <select value={appendMode} onChange={e => setAppendMode(e.target.value as AppendMode)} className={`${inputClassName} py-1`}>
+            {(Object.keys(APPEND_MODE_LABELS) as AppendMode[]).map(option => <option key={option} value={option}>{APPEND_MODE_LABELS[option]}</option>)}
+          </select>
+          <label className="flex items-center text-sm">
+            <input type="checkbox" checked={addSource} onChange={e => setAddSource(e.target.checked)} className="mr-1.5 rounded text-primary-600 focus:ring-primary-500" />
+            Add a column naming the table each row came from
+          </label>
+
+          {appendSelection.length < 2 && <p className="text-sm text-red-600">Pick at least two tables.</p>}
+          {appendSelection.length > 1 && alignment.length === 0 && <p className="text-sm text-red-600">These tables have no columns in common.</p>}
+          {appendSelection.length > 1 && alignment.length > 0 && (
+            <div className="overflow-x-auto max-h-64 border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Column</th>
+                    {appendSelection.map((table, i) => <th key={i} className="px-3 py-2 text-center font-medium text-gray-600">{table.name}</th>)}
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Type</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {alignment.map(column => (
+                    <tr key={column.name}>
+                      <td className="px-3 py-1.5 text-gray-800">{column.name}</td>
+                      {column.presentIn.map((present, i) => (
+                        <td key={i} className={`px-3 py-1.5 text-center ${present ? 'text-green-600' : 'text-gray-400'}`}>{present ? '✓' : 'missing'}</td>
+                      ))}
+                      <td className={`px-3 py-1.5 ${column.typeConflict ? 'text-amber-700' : 'text-gray-600'}`}>
+                        {COLUMN_TYPE_LABELS[column.type]}{column.typeConflict && ' (types differ)'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {canAppend && (
+            <p className="text-sm text-gray-700">
+              The appended table will have {appendSelection.reduce((total, table) => total + table.data.length, 0)} rows and {alignment.length + (addSource ? 1 : 0)} columns.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t border-gray-100">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={defaultName}
+          className={`${inputClassName} py-1.5 w-64`}
+          title="Name of the new table"
+        />
+        <button onClick={onClose} className="px-4 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+          Cancel
+        </button>
+        <button
+          onClick={handleCombine}
+          disabled={mode === 'join' ? !canJoin : !canAppend}
+          className="px-4 py-2 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          {mode === 'join' ? 'Create Joined Table' : 'Create Appended Table'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CombinePanel;
@@ -0,0 +1,65 @@
+import React from 'react';
+
+interface CorrelationHeatmapProps {
+  columns: string[];
+  // Square matrix of coefficients between -1 and 1; NaN where a pair has too little data.
+  matrix: number[][];
+  onCellClick?: (rowColumn: string, columnColumn: string) => void;
+}
+
+const CELL = 56;
+const LABEL_SPACE = 120;
+
+// Blue for positive, red for negative, fading to white around zero.
+export const correlationColor = (r: number): string => {
+  if (Number.isNaN(r)) return '#f3f4f6';
+  const strength = Math.min(1, Math.abs(r));
+  const [cr, cg, cb] = r >= 0 ? [59, 130, 246] : [239, 68, 68];
+  const mix = (c: number) => Math.round(255 - (255 - c) * strength);
+  return `rgb(${mix(cr)}, ${mix(cg)}, ${mix(cb)})`;
+};
+
+const truncate = (label: string) => (label.length > 16 ? `${label.slice(0, 15)}…` : label);
+
+const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ columns, matrix, onCellClick }) => {
+  if (columns.length < 2) {
+    return <div className="text-center text-gray-500 h-96 flex items-center justify-center">At least two numeric columns are needed for a correlation heatmap.</div>;
+  }
+  const size = LABEL_SPACE + columns.length * CELL;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg viewBox={`0 0 ${size} ${size}`} width={size} height={size} className="font-sans text-xs mx-auto">
+        {columns.map((column, i) => (
+          <g key={column}>
+            <text x={LABEL_SPACE - 6} y={LABEL_SPACE + i * CELL + CELL / 2} textAnchor="end" dominantBaseline="middle" fill="#374151">{truncate(column)}</text>
+            <text transform={`translate(${LABEL_SPACE + i * CELL + CELL / 2} ${LABEL_SPACE - 6}) rotate(-45)`} fill="#374151">{truncate(column)}</text>
+          </g>
+        ))}
+        {matrix.map((row, i) =>
+          row.map((r, j) => (
+            <g
+              key={`${i}-${j}`}
+              onClick={onCellClick && i !== j ? () => onCellClick(columns[i], columns[j]) : undefined}
+              className={onCellClick && i !== j ? 'cursor-pointer' : undefined}
+            >
+              <title>{`${columns[i]} × ${columns[j]}: ${Number.isNaN(r) ? 'not enough data' : r.toFixed(3)}`}</title>
+              <rect x={LABEL_SPACE + j * CELL} y={LABEL_SPACE + i * CELL} width={CELL - 2} height={CELL - 2} rx={3} fill={correlationColor(r)} />
+              <text
+                x={LABEL_SPACE + j * CELL + CELL / 2 - 1}
+                y={LABEL_SPACE + i * CELL + CELL / 2 - 1}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fill={Math.abs(r) > 0.6 ? '#ffffff' : '#111827'}
+              >
+                {Number.isNaN(r) ? '–' : r.toFixed(2)}
+              </text>
+            </g>
+          ))
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default CorrelationHeatmap;
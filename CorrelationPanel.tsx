@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { TableRow, ColumnSchema, ChartConfig } from '../types';
+import type { CorrelationMethod } from '../services/statsService';
+import {
+  CORRELATION_METHOD_LABELS, analyzeCorrelations, describeStrength, getMeasureLabel, getRelationshipChart, type Relationship, type RelationshipKind,
+} from '../services/correlationService';
+import { formatStat } from '../services/profileService';
+import CorrelationHeatmap from './CorrelationHeatmap';
+import { ArrowRight } from 'lucide-react';
+
+interface CorrelationPanelProps {
+  data: TableRow[];
+  schema: ColumnSchema[];
+  // Opens a chart in the Visualization tab.
+  onOpenChart: (config: ChartConfig) => void;
+}
+
+const MAX_LISTED_RELATIONSHIPS = 20;
+const MAX_LISTED_GROUPS = 6;
+
+const KIND_LABELS: Record<RelationshipKind, string> = {
+  numeric: 'Numeric pair',
+  categorical: 'Categorical pair',
+  mixed: 'Group means',
+};
+
+const CHART_LABELS: Record<RelationshipKind, string> = {
+  numeric: 'Scatter plot',
+  categorical: 'Stacked bars',
+  mixed: 'Box plot',
+};
+
+const RelationshipRow: React.FC<{ relationship: Relationship; method: CorrelationMethod; onOpen: () => void }> = ({ relationship, method, onOpen }) => {
+  const { kind, columns: [a, b], value, strength, count, groupMeans } = relationship;
+  return (
+    <li className="py-3 flex flex-wrap items-start gap-3 text-sm">
+      <div className="flex-1 min-w-0">
+        <p className="text-gray-800">
+          <span className="font-medium">{a}</span> {kind === 'mixed' ? 'by' : 'and'} <span className="font-medium">{b}</span>
+          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">{KIND_LABELS[kind]}</span>
+        </p>
+        <p className="text-gray-500">
+          {getMeasureLabel(relationship, method)} = <span className="tabular-nums text-gray-700">{value.toFixed(2)}</span>, {describeStrength(strength)}
+          {kind === 'numeric' && (value >= 0 ? ' positive' : ' negative')} · {count.toLocaleString()} rows
+        </p>
+        {groupMeans && (
+          <p className="mt-1 text-xs text-gray-500">
+            Mean {a}: {groupMeans.slice(0, MAX_LISTED_GROUPS).map(group => `${group.group} ${formatStat(group.mean)}`).join(', ')}
+            {groupMeans.length > MAX_LISTED_GROUPS && `, and ${groupMeans.length - MAX_LISTED_GROUPS} more groups`}
+          </p>
+        )}
+      </div>
+      <button onClick={onOpen} className="flex items-center text-primary-600 hover:underline">
+        {CHART_LABELS[kind]} <ArrowRight className="w-4 h-4 ml-1" />
+      </button>
+    </li>
+  );
+};
+
+const CorrelationPanel: React.FC<CorrelationPanelProps> = ({ data, schema, onOpenChart }) => {
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const analysis = useMemo(() => analyzeCorrelations(data, schema, method), [data, schema, method]);
+  const { numericColumns, matrix, categoricalColumns, cramersMatrix, relationships } = analysis;
+
+  if (numericColumns.length < 2 && categoricalColumns.length < 2 && relationships.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 text-gray-500">
+        Relationships need at least two numeric columns, two categorical columns, or one of each.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Numeric correlations</h3>
+            <p className="text-sm text-gray-500">Click a cell to open its scatter plot. Spearman ranks the values first, so it also catches curved but steady relationships.</p>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            {(Object.keys(CORRELATION_METHOD_LABELS) as CorrelationMethod[]).map(option => (
+              <label key={option} className="flex items-center">
+                <input type="radio" checked={method === option} onChange={() => setMethod(option)} className="mr-1.5 text-primary-600 focus:ring-primary-500" />
+                {CORRELATION_METHOD_LABELS[option]}
+              </label>
+            ))}
+          </div>
+        </div>
+        {numericColumns.length >= 2
+          ? <CorrelationHeatmap columns={numericColumns} matrix={matrix} onCellClick={(a, b) => onOpenChart(getRelationshipChart('numeric', [a, b]))} />
+          : <p className="text-sm text-gray-500">At least two numeric columns are needed.</p>}
+      </div>
+
+      {categoricalColumns.length >= 2 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Categorical associations (Cramér's V)</h3>
+            <p className="text-sm text-gray-500">
+              0 means the categories occur independently, 1 that one column determines the other. Columns with more than a few dozen distinct values are left out. Click a cell to open its stacked bar chart.
+            </p>
+          </div>
+          <CorrelationHeatmap columns={categoricalColumns} matrix={cramersMatrix} onCellClick={(a, b) => onOpenChart(getRelationshipChart('categorical', [a, b]))} />
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">Strongest relationships</h3>
+        <p className="text-sm text-gray-500">
+          Every pair of columns, strongest first. Group means compare a numeric column across the groups of a categorical one using η, the share of its spread the groups explain.
+        </p>
+        {relationships.length === 0 ? (
+          <p className="mt-3 text-sm text-gray-500">No pair of columns has enough rows in common.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-gray-100">
+            {relationships.slice(0, MAX_LISTED_RELATIONSHIPS).map(relationship => (
+              <RelationshipRow
+                key={`${relationship.kind}-${relationship.columns.join('-')}`}
+                relationship={relationship}
+                method={method}
+                onOpen={() => onOpenChart(getRelationshipChart(relationship.kind, relationship.columns))}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CorrelationPanel;
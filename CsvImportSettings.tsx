@@ -0,0 +1,124 @@
+import React from 'react';
+import type { CsvImportOptions, TableRow } from '../types';
+import { CSV_DELIMITER_LABELS, CSV_ENCODING_LABELS, DECIMAL_SEPARATOR_LABELS, THOUSANDS_SEPARATOR_LABELS } from '../services/csvService';
+
+interface CsvImportSettingsProps {
+  options: CsvImportOptions;
+  onChange: (options: CsvImportOptions) => void;
+  // First rows parsed with the current settings.
+  preview: { fields: string[]; rows: TableRow[] } | null;
+}
+
+const inputClassName = "mt-1 block w-full text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+const labelClassName = "block text-xs font-medium text-gray-700";
+
+const CsvImportSettings: React.FC<CsvImportSettingsProps> = ({ options, onChange, preview }) => {
+  const update = (changes: Partial<CsvImportOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor="csvDelimiter" className={labelClassName}>Delimiter</label>
+          <select id="csvDelimiter" value={options.delimiter} onChange={e => update({ delimiter: e.target.value })} className={inputClassName}>
+            {Object.entries(CSV_DELIMITER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="csvEncoding" className={labelClassName}>Encoding</label>
+          <select id="csvEncoding" value={options.encoding} onChange={e => update({ encoding: e.target.value })} className={inputClassName}>
+            {Object.entries(CSV_ENCODING_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="csvDecimal" className={labelClassName}>Decimal separator</label>
+          <select
+            id="csvDecimal"
+            value={options.decimalSeparator}
+            onChange={e => update({ decimalSeparator: e.target.value as CsvImportOptions['decimalSeparator'] })}
+            className={inputClassName}
+          >
+            {(Object.keys(DECIMAL_SEPARATOR_LABELS) as CsvImportOptions['decimalSeparator'][]).map(value => (
+              <option key={value} value={value}>{DECIMAL_SEPARATOR_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="csvThousands" className={labelClassName}>Thousands separator</label>
+          <select
+            id="csvThousands"
+            value={options.thousandsSeparator}
+            onChange={e => update({ thousandsSeparator: e.target.value as CsvImportOptions['thousandsSeparator'] })}
+            className={inputClassName}
+          >
+            {(Object.keys(THOUSANDS_SEPARATOR_LABELS) as CsvImportOptions['thousandsSeparator'][])
+              .filter(value => value !== options.decimalSeparator)
+              .map(value => <option key={value} value={value}>{THOUSANDS_SEPARATOR_LABELS[value]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="csvHeaderRow" className={labelClassName}>Header row</label>
+          <input
+            type="number"
+            id="csvHeaderRow"
+            min={1}
+            value={options.headerRow}
+            onChange={e => update({ headerRow: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="csvComment" className={labelClassName}>Comment prefix</label>
+          <input
+            type="text"
+            id="csvComment"
+            value={options.commentPrefix}
+            placeholder="None"
+            maxLength={3}
+            onChange={e => update({ commentPrefix: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="csvQuote" className={labelClassName}>Quote character</label>
+          <select id="csvQuote" value={options.quoteChar} onChange={e => update({ quoteChar: e.target.value })} className={inputClassName}>
+            <option value={'"'}>Double quote (")</option>
+            <option value="'">Single quote (')</option>
+          </select>
+        </div>
+      </div>
+
+      {preview && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            {preview.fields.length > 0 ? `Preview: ${preview.fields.length} columns, first ${preview.rows.length} rows` : 'No columns found with these settings.'}
+          </p>
+          {preview.fields.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {preview.fields.map(field => (
+                      <th key={field} className="px-2 py-1 text-left font-semibold text-gray-700 whitespace-nowrap">{field}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.rows.map((row, i) => (
+                    <tr key={i}>
+                      {preview.fields.map(field => (
+                        <td key={field} className="px-2 py-1 text-gray-700 whitespace-nowrap max-w-xs truncate">{row[field] ?? ''}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImportSettings;
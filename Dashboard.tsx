@@ -1,37 +1,210 @@
 
-import React, { useState } from 'react';
-import type { AnalysisResult } from '../types';
+import React, { useState, useMemo } from 'react';
+import type { AnalysisResult, TableRow, ColumnSchema, OutlierRule, CleaningRecipe, ColumnType, ChartConfig, PinnedChart, SavedDashboard, FilterSet, DataEdit, PivotConfig } from '../types';
 import { exportDataAsCSV } from '../utils/export';
+import { describeCleaningStep } from '../services/cleaningService';
+import { DEFAULT_CHART_CONFIG } from '../services/chartService';
+import { createChartId, DEFAULT_CHART_HEIGHT } from '../services/dashboardService';
+import { applyFilterSet, hasActiveFilters } from '../services/filterService';
+import { profileTable } from '../services/profileService';
+import { applyOutlierDetections, detectRuleOutliers, getMarkedOutlierRows, getOutlierCells } from '../services/outlierService';
+import { computePivot, getActivePivotConfig, getPivotValueLabel, isPivotReady, pivotToChartTable } from '../services/pivotService';
 import InsightsPanel from './InsightsPanel';
 import DataTable from './DataTable';
 import VisualizationPanel from './VisualizationPanel';
-import { Download, RotateCcw, MessageSquare, BarChart, Table } from 'lucide-react';
+import CleaningRecipeEditor from './CleaningRecipeEditor';
+import CleaningReportPanel from './CleaningReportPanel';
+import ChartDashboard from './ChartDashboard';
+import FilterSummaryBar from './FilterSummaryBar';
+import PivotPanel from './PivotPanel';
+import CombinePanel from './CombinePanel';
+import ProfilePanel from './ProfilePanel';
+import OutliersPanel from './OutliersPanel';
+import CorrelationPanel from './CorrelationPanel';
+import HypothesisTestPanel from './HypothesisTestPanel';
+import ModelPanel from './ModelPanel';
+import { Download, RotateCcw, MessageSquare, BarChart, Table, SlidersHorizontal, ClipboardList, LayoutDashboard, Grid3x3, FilePlus, Combine, Activity, AlertTriangle, GitCompare, FlaskConical, TrendingUp } from 'lucide-react';
 
 interface DashboardProps {
   result: AnalysisResult;
+  // All loaded tables: workbook sheets loaded separately, added files and tables combined from them.
+  tables: AnalysisResult[];
+  activeTableIndex: number;
+  onSelectTable: (index: number) => void;
   onReset: () => void;
+  onAddFile: () => void;
+  onCombine: (name: string, table: { data: TableRow[]; schema: ColumnSchema[] }) => void;
   onChatSubmit: (message: string) => void;
+  onRecipeChange: (recipe: CleaningRecipe) => void;
+  onRestoreRows: (sourceIndices: number[]) => void;
+  onColumnTypeChange: (column: string, type: ColumnType) => void;
+  onFilterSetChange: (filterSet: FilterSet) => void;
+  onPivotConfigChange: (config: PivotConfig) => void;
+  onOutlierRulesChange: (rules: OutlierRule[]) => void;
+  onEdit: (edit: DataEdit) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRefreshInsights: () => void;
+  onPinnedChartsChange: (charts: PinnedChart[]) => void;
+  // A dashboard saved for a file with the same columns, offered until applied or dismissed.
+  savedDashboard: SavedDashboard | null;
+  onApplySavedDashboard: () => void;
+  onDismissSavedDashboard: () => void;
 }
 
-type ActiveTab = 'insights' | 'data' | 'visuals';
+type ActiveTab = 'insights' | 'data' | 'profile' | 'outliers' | 'correlations' | 'tests' | 'model' | 'pivot' | 'visuals' | 'dashboard' | 'cleaning';
 
-const Dashboard: React.FC<DashboardProps> = ({ result, onReset, onChatSubmit }) => {
+// Tabs that work on the filtered rows.
+const FILTERED_TABS: ActiveTab[] = ['insights', 'profile', 'correlations', 'tests', 'model', 'pivot', 'visuals'];
+
+const Dashboard: React.FC<DashboardProps> = ({
+  result, tables, activeTableIndex, onSelectTable, onReset, onAddFile, onCombine, onChatSubmit, onRecipeChange, onRestoreRows, onColumnTypeChange,
+  onFilterSetChange, onPivotConfigChange, onOutlierRulesChange, onEdit, onUndo, onRedo, onRefreshInsights, onPinnedChartsChange, savedDashboard, onApplySavedDashboard, onDismissSavedDashboard,
+}) => {
   const [activeTab, setActiveTab] = useState<ActiveTab>('insights');
+  const [isEditingRecipe, setIsEditingRecipe] = useState(false);
+  const [isCombining, setIsCombining] = useState(false);
+  const [draftRecipe, setDraftRecipe] = useState<CleaningRecipe>(result.cleaningRecipe);
+  const [chartConfig, setChartConfig] = useState<ChartConfig>(DEFAULT_CHART_CONFIG);
+
+  const combineTables = useMemo(
+    () => tables.map(table => ({ name: table.sheetName ?? table.fileName, data: table.cleanedData, schema: table.schema })),
+    [tables],
+  );
+  const columns = useMemo(() => result.schema.map(column => column.name), [result.schema]);
+  const enabledSteps = result.cleaningRecipe.filter(step => step.enabled);
+  const isFiltered = hasActiveFilters(result.filterSet, result.schema);
+  // The data table filters in its own worker; the other tabs get the matching rows here.
+  const usesFilteredData = FILTERED_TABS.includes(activeTab);
+  const outlierDetections = useMemo(
+    () => detectRuleOutliers(result.cleanedData, result.schema, result.outlierRules),
+    [result.cleanedData, result.schema, result.outlierRules],
+  );
+  // The rows every analysis sees: the cleaned data after the outlier decisions.
+  const analysisData = useMemo(() => applyOutlierDetections(result.cleanedData, outlierDetections), [result.cleanedData, outlierDetections]);
+  const outlierCells = useMemo(() => getOutlierCells(outlierDetections), [outlierDetections]);
+  const outlierRows = useMemo(() => getMarkedOutlierRows(result.cleanedData, outlierDetections), [result.cleanedData, outlierDetections]);
+  const filteredData = useMemo(
+    () => (usesFilteredData && isFiltered ? applyFilterSet(analysisData, result.schema, result.filterSet) : analysisData),
+    [usesFilteredData, isFiltered, analysisData, result.schema, result.filterSet],
+  );
+
+  // The stored profile covers all rows; with filters on, the Profile tab describes just the matching ones.
+  const profile = useMemo(
+    () => (activeTab === 'profile' && isFiltered ? profileTable(filteredData, result.schema) : result.profile),
+    [activeTab, isFiltered, filteredData, result.schema, result.profile],
+  );
+
+  const pivotConfig = useMemo(() => getActivePivotConfig(result.pivotConfig, result.schema), [result.pivotConfig, result.schema]);
+  const usesPivot = activeTab === 'pivot' || activeTab === 'visuals';
+  const pivotResult = useMemo(
+    () => (usesPivot && isPivotReady(pivotConfig) ? computePivot(filteredData, pivotConfig) : null),
+    [usesPivot, pivotConfig, filteredData],
+  );
+  // The pivot's output as a table that charts can draw from.
+  const pivotTable = useMemo(
+    () => (pivotResult ? pivotToChartTable(pivotResult, result.schema) : { data: [], schema: [] }),
+    [pivotResult, result.schema],
+  );
+
+  const handleChartPivot = () => {
+    const [firstRow] = pivotConfig.rows;
+    const [firstColumn] = pivotConfig.columns;
+    setChartConfig({
+      ...DEFAULT_CHART_CONFIG,
+      source: 'pivot',
+      chartType: firstRow && firstColumn ? 'stackedBar' : 'bar',
+      xAxisKey: firstRow ?? firstColumn ?? '',
+      seriesKey: firstRow && firstColumn ? firstColumn : '',
+      yAxisKey: getPivotValueLabel(pivotConfig.values[0]),
+      // Each group is a single pivot cell unless there are further row or column fields.
+      aggregation: 'sum',
+    });
+    setActiveTab('visuals');
+  };
+
+  const handlePinChart = (title: string, config: ChartConfig) => {
+    onPinnedChartsChange([...result.pinnedCharts, { id: createChartId(), title, config, filterSet: result.filterSet, width: 1, height: DEFAULT_CHART_HEIGHT }]);
+  };
+
+  // Opens a chart from another tab in the Visualization tab.
+  const handleOpenChart = (config: ChartConfig) => {
+    setChartConfig(config);
+    setActiveTab('visuals');
+  };
 
   const TABS: { id: ActiveTab; label: string; icon: React.ReactNode }[] = [
     { id: 'insights', label: 'AI Insights & Chat', icon: <MessageSquare className="w-4 h-4 mr-2" /> },
     { id: 'data', label: 'Data Table', icon: <Table className="w-4 h-4 mr-2" /> },
+    { id: 'profile', label: 'Profile', icon: <Activity className="w-4 h-4 mr-2" /> },
+    { id: 'outliers', label: `Outliers${result.outlierRules.length > 0 ? ` (${result.outlierRules.length})` : ''}`, icon: <AlertTriangle className="w-4 h-4 mr-2" /> },
+    { id: 'correlations', label: 'Relationships', icon: <GitCompare className="w-4 h-4 mr-2" /> },
+    { id: 'tests', label: 'Tests', icon: <FlaskConical className="w-4 h-4 mr-2" /> },
+    { id: 'model', label: 'Model', icon: <TrendingUp className="w-4 h-4 mr-2" /> },
+    { id: 'pivot', label: 'Pivot', icon: <Grid3x3 className="w-4 h-4 mr-2" /> },
     { id: 'visuals', label: 'Visualization', icon: <BarChart className="w-4 h-4 mr-2" /> },
+    { id: 'dashboard', label: `My Dashboard${result.pinnedCharts.length > 0 ? ` (${result.pinnedCharts.length})` : ''}`, icon: <LayoutDashboard className="w-4 h-4 mr-2" /> },
+    { id: 'cleaning', label: 'Cleaning Report', icon: <ClipboardList className="w-4 h-4 mr-2" /> },
   ];
 
   return (
     <div className="space-y-6">
+      {tables.length > 1 && (
+        <div className="flex items-center space-x-2 overflow-x-auto">
+          <span className="text-sm text-gray-500 flex-shrink-0">Tables:</span>
+          {combineTables.map(({ name }, index) => (
+            <button
+              key={`${name}-${index}`}
+              onClick={() => onSelectTable(index)}
+              className={`px-3 py-1.5 text-sm rounded-lg whitespace-nowrap transition-colors ${
+                index === activeTableIndex ? 'bg-primary-600 text-white font-medium' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 flex flex-col md:flex-row justify-between items-start md:items-center">
         <div>
-          <h2 className="text-2xl font-bold text-gray-800">Analysis for <span className="text-primary-600">{result.fileName}</span></h2>
-          <p className="text-sm text-gray-500 mt-1">{result.cleanedData.length} rows of cleaned data.</p>
+          <h2 className="text-2xl font-bold text-gray-800">Analysis for <span className="text-primary-600">{result.fileName}</span>
+            {result.sheetName && <span className="text-gray-500 font-medium"> / {result.sheetName}</span>}
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {result.cleanedData.length} rows of cleaned data
+            {analysisData.length < result.cleanedData.length && (
+              <>
+                {', '}{result.cleanedData.length - analysisData.length} excluded as{' '}
+                <button onClick={() => setActiveTab('outliers')} className="text-primary-600 hover:underline">outliers</button>
+              </>
+            )}
+            {result.cleaningReport.droppedRows.length > 0 && (
+              <>
+                {' '}({result.cleaningReport.droppedRows.length} of {result.cleaningReport.originalRowCount} rows removed during cleaning,{' '}
+                <button onClick={() => setActiveTab('cleaning')} className="text-primary-600 hover:underline">see report</button>)
+              </>
+            )}.
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Cleaning: {enabledSteps.length > 0 ? enabledSteps.map(describeCleaningStep).join(' → ') : 'none (raw data)'}
+          </p>
         </div>
         <div className="flex items-center space-x-2 mt-4 md:mt-0">
+          <button onClick={onAddFile} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors">
+            <FilePlus className="w-4 h-4 mr-2" /> Add File
+          </button>
+          <button onClick={() => { setIsCombining(v => !v); setIsEditingRecipe(false); }} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors">
+            <Combine className="w-4 h-4 mr-2" /> Join / Append
+          </button>
+          <button
+            onClick={() => { setDraftRecipe(result.cleaningRecipe); setIsEditingRecipe(v => !v); setIsCombining(false); }}
+            disabled={!result.source}
+            title={result.source ? undefined : 'Combined tables have no file to re-clean; change the recipes of the tables they came from instead.'}
+            className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-2" /> Cleaning Recipe
+          </button>
           <button onClick={() => exportDataAsCSV(result.cleanedData, result.fileName)} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors">
             <Download className="w-4 h-4 mr-2" /> Export CSV
           </button>
@@ -41,8 +214,55 @@ const Dashboard: React.FC<DashboardProps> = ({ result, onReset, onChatSubmit })
         </div>
       </div>
 
+      {isEditingRecipe && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800 mb-1">Cleaning Recipe</h3>
+          <p className="text-sm text-gray-500 mb-4">Switch steps on or off and reorder them. Applying re-runs the analysis on the original file{result.editHistory.past.length > 0 ? ` and discards your ${result.editHistory.past.length} manual edit${result.editHistory.past.length === 1 ? '' : 's'}` : ''}.</p>
+          <CleaningRecipeEditor recipe={draftRecipe} columns={columns} onChange={setDraftRecipe} />
+          <div className="flex justify-end space-x-2 mt-4">
+            <button onClick={() => setIsEditingRecipe(false)} className="px-4 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button onClick={() => onRecipeChange(draftRecipe)} className="px-4 py-2 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700">
+              Apply &amp; Re-analyze
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isCombining && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800 mb-1">Join or Append Tables</h3>
+          <p className="text-sm text-gray-500 mb-4">The result is added as a new table and becomes the one you are working on. The tables it came from stay as they are.</p>
+          <CombinePanel
+            tables={combineTables}
+            activeIndex={activeTableIndex}
+            onCombine={(name, table) => { setIsCombining(false); onCombine(name, table); }}
+            onAddFile={onAddFile}
+            onClose={() => setIsCombining(false)}
+          />
+        </div>
+      )}
+
+      {savedDashboard && (
+        <div className="bg-primary-50 border border-primary-200 text-primary-800 px-4 py-3 rounded-lg flex flex-col md:flex-row md:items-center justify-between">
+          <p className="text-sm">
+            A saved dashboard with {savedDashboard.charts.length} chart{savedDashboard.charts.length === 1 ? '' : 's'} matches this file's columns
+            {' '}(last used with <span className="font-medium">{savedDashboard.fileName}</span> on {new Date(savedDashboard.updatedAt).toLocaleDateString()}).
+          </p>
+          <div className="flex space-x-2 mt-2 md:mt-0 md:ml-4 flex-shrink-0">
+            <button onClick={onDismissSavedDashboard} className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+              Dismiss
+            </button>
+            <button onClick={() => { onApplySavedDashboard(); setActiveTab('dashboard'); }} className="px-3 py-1.5 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700">
+              Reapply Dashboard
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="border-b border-gray-200">
-        <nav className="-mb-px flex space-x-6" aria-label="Tabs">
+        <nav className="-mb-px flex space-x-6 overflow-x-auto" aria-label="Tabs">
           {TABS.map((tab) => (
             <button
               key={tab.id}
@@ -61,9 +281,53 @@ const Dashboard: React.FC<DashboardProps> = ({ result, onReset, onChatSubmit })
       </div>
 
       <div>
-        {activeTab === 'insights' && <InsightsPanel insights={result.insights} chatHistory={result.chatHistory} onChatSubmit={onChatSubmit} />}
-        {activeTab === 'data' && <DataTable data={result.cleanedData} />}
-        {activeTab === 'visuals' && <VisualizationPanel data={result.cleanedData} />}
+        {isFiltered && usesFilteredData && (
+          <FilterSummaryBar
+            filterSet={result.filterSet}
+            schema={result.schema}
+            rowCount={filteredData.length}
+            totalRowCount={analysisData.length}
+            onEdit={() => setActiveTab('data')}
+            onClear={() => onFilterSetChange({ ...result.filterSet, filters: [] })}
+          />
+        )}
+        {activeTab === 'insights' && <InsightsPanel insights={result.insights} chatHistory={result.chatHistory} onChatSubmit={onChatSubmit} insightsOutdated={result.insightsOutdated} onRefreshInsights={onRefreshInsights} />}
+        {activeTab === 'data' && <DataTable data={result.cleanedData} schema={result.schema} onColumnTypeChange={onColumnTypeChange} filterSet={result.filterSet} onFilterSetChange={onFilterSetChange}
+            editHistory={result.editHistory} onEdit={onEdit} onUndo={onUndo} onRedo={onRedo} outlierCells={outlierCells} />}
+        {activeTab === 'outliers' && (
+          <OutliersPanel data={result.cleanedData} schema={result.schema} rules={result.outlierRules} detections={outlierDetections} onRulesChange={onOutlierRulesChange} />
+        )}
+        {activeTab === 'profile' && <ProfilePanel profile={profile} />}
+        {activeTab === 'correlations' && <CorrelationPanel data={filteredData} schema={result.schema} onOpenChart={handleOpenChart} />}
+        {activeTab === 'tests' && <HypothesisTestPanel data={filteredData} schema={result.schema} />}
+        {activeTab === 'model' && <ModelPanel data={filteredData} schema={result.schema} onOpenChart={handleOpenChart} />}
+        {activeTab === 'pivot' && (
+          <PivotPanel schema={result.schema} config={pivotConfig} onConfigChange={onPivotConfigChange} result={pivotResult} fileName={result.fileName} onChartPivot={handleChartPivot} />
+        )}
+        {activeTab === 'visuals' && (
+          <VisualizationPanel
+            data={chartConfig.source === 'pivot' ? pivotTable.data : filteredData}
+            schema={chartConfig.source === 'pivot' ? pivotTable.schema : result.schema}
+            config={chartConfig}
+            onConfigChange={setChartConfig}
+            onPinChart={handlePinChart}
+            canUsePivot={pivotResult !== null}
+            outlierRows={outlierRows}
+          />
+        )}
+        {activeTab === 'dashboard' && (
+          <ChartDashboard
+            data={analysisData}
+            schema={result.schema}
+            filterSet={result.filterSet}
+            pivotConfig={pivotConfig}
+            outlierRows={outlierRows}
+            charts={result.pinnedCharts}
+            onChange={onPinnedChartsChange}
+            onEditChart={handleOpenChart}
+          />
+        )}
+        {activeTab === 'cleaning' && <CleaningReportPanel report={result.cleaningReport} onRestoreRows={onRestoreRows} />}
       </div>
     </div>
   );
@@ -1,125 +1,617 @@
-
-import React, { useState, useMemo } from 'react';
-import type { TableRow } from '../types';
-import { ChevronUp, ChevronDown } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { TableRow, CellValue, ColumnSchema, ColumnType, FilterSet, DataEdit, EditHistory, OutlierAction } from '../types';
+import { COLUMN_TYPE_LABELS } from '../services/schemaService';
+import { isEmptyQuery, queryRowIndices, type SortConfig, type SortDirection, type TableQuery } from '../services/tableQueryService';
+import { createTableQueryRunner, type TableQueryRunner } from '../services/tableWorkerService';
+import { createFilter, getActiveFilters } from '../services/filterService';
+import { detectDateOrder } from '../services/dateService';
+import { createCellEdit, createDeleteColumnEdit, createDeleteRowsEdit, describeEdit, getEditMarkers, parseCellInput, validateColumnName } from '../services/editService';
+import { checkFormula, getFormulaDependents } from '../services/formulaService';
+import FilterBuilder from './FilterBuilder';
+import FormulaColumnEditor from './FormulaColumnEditor';
+import { ChevronUp, ChevronDown, Columns3, Eye, EyeOff, Pin, PinOff, LoaderCircle, Filter, Pencil, Trash2, Plus, Undo2, Redo2, History, Sigma } from 'lucide-react';
 
 interface DataTableProps {
   data: TableRow[];
+  schema: ColumnSchema[];
+  onColumnTypeChange: (column: string, type: ColumnType) => void;
+  filterSet: FilterSet;
+  onFilterSetChange: (filterSet: FilterSet) => void;
+  editHistory: EditHistory;
+  onEdit: (edit: DataEdit) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Cells flagged by an outlier rule, with the rule's decision, by row position and column.
+  outlierCells: Map<number, Map<string, OutlierAction>>;
+}
+
+interface CellEditor {
+  row: number;
+  column: string;
+  value: string;
+  error: string | null;
 }
 
-const DataTable: React.FC<DataTableProps> = ({ data }) => {
-  const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'ascending' | 'descending' } | null>(null);
-  const [filters, setFilters] = useState<Record<string, string>>({});
+interface ColumnRename {
+  column: string;
+  value: string;
+  error: string | null;
+}
+
+const formatCell = (value: CellValue | undefined) => (value === null || value === undefined ? '' : String(value));
+
+const OUTLIER_CELL_CLASSES: Record<OutlierAction, string> = {
+  keep: 'bg-orange-50 group-hover:bg-orange-100',
+  cap: 'bg-orange-50 group-hover:bg-orange-100 italic',
+  exclude: 'bg-red-50 group-hover:bg-red-100 text-gray-400 line-through',
+};
+
+const OUTLIER_CELL_NOTES: Record<OutlierAction, string> = {
+  keep: 'outlier, kept',
+  cap: 'outlier, capped in analyses',
+  exclude: 'outlier, row excluded from analyses',
+};
+
+// Ctrl+Z and friends are left to the browser while typing in a field.
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 600;
+// Rows rendered above and below the visible ones so fast scrolling does not show blank space.
+const OVERSCAN = 10;
+const DEFAULT_COLUMN_WIDTH = 160;
+const MIN_COLUMN_WIDTH = 60;
+const ROW_NUMBER_WIDTH = 64;
+const QUERY_DEBOUNCE_MS = 250;
+// 0 shows every row on one page; scrolling is virtualized either way.
+const PAGE_SIZE_OPTIONS = [100, 1000, 10000, 0];
+
+const DataTable: React.FC<DataTableProps> = ({ data, schema, onColumnTypeChange, filterSet, onFilterSetChange, editHistory, onEdit, onUndo, onRedo, outlierCells }) => {
+  const [sorts, setSorts] = useState<SortConfig[]>([]);
+  const [showFilters, setShowFilters] = useState(filterSet.filters.length > 0);
   const [currentPage, setCurrentPage] = useState(1);
-  const rowsPerPage = 15;
+  const [pageSize, setPageSize] = useState(1000);
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [frozenColumns, setFrozenColumns] = useState<string[]>([]);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  // Row positions after filtering and sorting, with the rows they were worked out from.
+  const [queryResult, setQueryResult] = useState<{ data: TableRow[]; indices: Uint32Array } | null>(null);
+  const [isQuerying, setIsQuerying] = useState(false);
+  const [cellEditor, setCellEditor] = useState<CellEditor | null>(null);
+  const [columnRename, setColumnRename] = useState<ColumnRename | null>(null);
+  const [showEditLog, setShowEditLog] = useState(false);
+  const [showFormulaEditor, setShowFormulaEditor] = useState(false);
+  const runnerRef = useRef<TableQueryRunner | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const runner = createTableQueryRunner(data, schema);
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, [data, schema]);
 
-  const headers = useMemo(() => (data.length > 0 ? Object.keys(data[0]) : []), [data]);
+  useEffect(() => {
+    const query: TableQuery = { filterSet, sorts };
+    if (isEmptyQuery(query, schema)) {
+      setQueryResult(null);
+      setIsQuerying(false);
+      return;
+    }
+    let cancelled = false;
+    setIsQuerying(true);
+    const timer = setTimeout(() => {
+      runnerRef.current?.run(query)
+        .catch(err => {
+          // Slower, but the table still filters if the worker is gone.
+          console.error("Table worker failed, querying on the page instead:", err);
+          return queryRowIndices(data, schema, query);
+        })
+        .then(indices => {
+          if (cancelled || !indices) return;
+          setQueryResult({ data, indices });
+          setIsQuerying(false);
+        });
+    }, QUERY_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [data, schema, filterSet, sorts]);
+
+  // The first page of a new result set is the useful one.
+  useEffect(() => {
+    setCurrentPage(1);
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [filterSet]);
 
-  const filteredData = useMemo(() => {
-    let filterableData = [...data];
-    Object.entries(filters).forEach(([key, value]) => {
-      if (value) {
-        filterableData = filterableData.filter(row =>
-          String(row[key]).toLowerCase().includes(value.toLowerCase())
-        );
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
       }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const editMarkers = useMemo(() => getEditMarkers(editHistory.past), [editHistory.past]);
+
+  // Why each formula column currently fails to compute, if it does; it reads only the columns to its left.
+  const formulaErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    schema.forEach((column, index) => {
+      if (!column.formula) return;
+      const checked = checkFormula(column.formula, schema.slice(0, index));
+      if ('error' in checked) errors[column.name] = checked.error;
+    });
+    return errors;
+  }, [schema]);
+
+  const activeFilterColumns = useMemo(() => new Set(getActiveFilters(filterSet, schema).map(filter => filter.column)), [filterSet, schema]);
+
+  // Frozen columns move to the left edge, in table order.
+  const visibleColumns = useMemo(() => {
+    const shown = schema.filter(column => !hiddenColumns.includes(column.name));
+    return [...shown.filter(column => frozenColumns.includes(column.name)), ...shown.filter(column => !frozenColumns.includes(column.name))];
+  }, [schema, hiddenColumns, frozenColumns]);
+
+  const widthOf = (column: string) => columnWidths[column] ?? DEFAULT_COLUMN_WIDTH;
+
+  // Left offsets for the sticky frozen columns, after the row number column.
+  const frozenOffsets = useMemo(() => {
+    const offsets: Record<string, number> = {};
+    let left = ROW_NUMBER_WIDTH;
+    visibleColumns.forEach(({ name }) => {
+      if (!frozenColumns.includes(name)) return;
+      offsets[name] = left;
+      left += columnWidths[name] ?? DEFAULT_COLUMN_WIDTH;
     });
-    return filterableData;
-  }, [data, filters]);
-
-  const sortedData = useMemo(() => {
-    let sortableData = [...filteredData];
-    if (sortConfig !== null) {
-      sortableData.sort((a, b) => {
-        const valA = a[sortConfig.key];
-        const valB = b[sortConfig.key];
-        if (valA === null || valA === undefined) return 1;
-        if (valB === null || valB === undefined) return -1;
-        
-        if (valA < valB) return sortConfig.direction === 'ascending' ? -1 : 1;
-        if (valA > valB) return sortConfig.direction === 'ascending' ? 1 : -1;
-        return 0;
-      });
+    return offsets;
+  }, [visibleColumns, frozenColumns, columnWidths]);
+
+  const tableWidth = visibleColumns.reduce((total, { name }) => total + widthOf(name), ROW_NUMBER_WIDTH);
+
+  // Until the query over the current rows comes back, the last result stands in only if the rows kept
+  // their positions, as they do after cell edits. Added or deleted rows shift positions, and stale ones
+  // would show and edit the wrong rows, so the table shows every row in order meanwhile.
+  const rowIndices = queryResult && queryResult.data.length === data.length ? queryResult.indices : null;
+  const totalRows = rowIndices ? rowIndices.length : data.length;
+  const effectivePageSize = pageSize === 0 ? Math.max(totalRows, 1) : pageSize;
+  const totalPages = Math.max(1, Math.ceil(totalRows / effectivePageSize));
+  const page = Math.min(currentPage, totalPages);
+  const pageStart = (page - 1) * effectivePageSize;
+  const pageRowCount = Math.max(0, Math.min(effectivePageSize, totalRows - pageStart));
+
+  const firstRendered = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRendered = Math.min(pageRowCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const renderedPositions: number[] = [];
+  for (let i = firstRendered; i < lastRendered; i++) {
+    const position = pageStart + i;
+    renderedPositions.push(rowIndices ? rowIndices[position] : position);
+  }
+
+  const goToPage = (next: number) => {
+    setCurrentPage(next);
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  // A click sorts by that column alone; shift-click adds it as the next key, or flips it if already sorted.
+  const requestSort = (key: string, addKey: boolean) => {
+    const existing = sorts.find(sort => sort.key === key);
+    const flipped: SortDirection = existing?.direction === 'ascending' ? 'descending' : 'ascending';
+    if (addKey) {
+      setSorts(existing ? sorts.map(sort => (sort.key === key ? { key, direction: flipped } : sort)) : [...sorts, { key, direction: 'ascending' }]);
+    } else {
+      setSorts([{ key, direction: sorts.length === 1 && existing ? flipped : 'ascending' }]);
     }
-    return sortableData;
-  }, [filteredData, sortConfig]);
-  
-  const totalPages = Math.ceil(sortedData.length / rowsPerPage);
-  const paginatedData = sortedData.slice((currentPage - 1) * rowsPerPage, currentPage * rowsPerPage);
-
-  const requestSort = (key: string) => {
-    let direction: 'ascending' | 'descending' = 'ascending';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-      direction = 'descending';
+    goToPage(1);
+  };
+
+  const addColumnFilter = (column: ColumnSchema) => {
+    onFilterSetChange({ ...filterSet, filters: [...filterSet.filters, createFilter(column.name, column.type)] });
+    setShowFilters(true);
+  };
+
+  const startCellEdit = (row: number, column: string) => {
+    if (schema.find(c => c.name === column)?.formula) return;
+    setCellEditor({ row, column, value: formatCell(data[row][column]), error: null });
+  };
+
+  // Returns false when the value does not fit the column, leaving the editor open.
+  const commitCellEdit = (): boolean => {
+    if (!cellEditor) return true;
+    const { row, column, value } = cellEditor;
+    const type = schema.find(c => c.name === column)?.type ?? 'text';
+    // Typed dates are read the way the rest of the column is, e.g. day first.
+    const dateOrder = detectDateOrder(data.slice(0, 1000).map(r => r[column] ?? null));
+    const parsed = parseCellInput(value, type, dateOrder);
+    if ('error' in parsed) {
+      setCellEditor({ ...cellEditor, error: parsed.error });
+      return false;
     }
-    setSortConfig({ key, direction });
-    setCurrentPage(1);
+    const edit = data[row] ? createCellEdit(data, row, column, parsed.value) : null;
+    if (edit) onEdit(edit);
+    setCellEditor(null);
+    return true;
   };
 
-  const handleFilterChange = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
-    setCurrentPage(1);
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitCellEdit();
+    } else if (e.key === 'Escape') {
+      setCellEditor(null);
+    }
+  };
+
+  const addRow = () => {
+    onEdit({ type: 'addRow', row: data.length });
+    // The new row is last in the original order, so jump to the last page.
+    setCurrentPage(Math.ceil((data.length + 1) / (pageSize === 0 ? data.length + 1 : pageSize)));
+    requestAnimationFrame(() => scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight }));
+  };
+
+  const deleteRow = (row: number) => {
+    if (cellEditor?.row === row) setCellEditor(null);
+    onEdit(createDeleteRowsEdit(data, [row]));
+  };
+
+  const commitRename = () => {
+    if (!columnRename) return;
+    const { column, value } = columnRename;
+    const error = validateColumnName(value, schema, column);
+    if (error) {
+      setColumnRename({ ...columnRename, error });
+      return;
+    }
+    const to = value.trim();
+    setColumnRename(null);
+    if (to === column) return;
+    onEdit({ type: 'renameColumn', from: column, to });
+    // Keep the column's display settings under its new name.
+    const rename = (name: string) => (name === column ? to : name);
+    setHiddenColumns(prev => prev.map(rename));
+    setFrozenColumns(prev => prev.map(rename));
+    setSorts(prev => prev.map(sort => ({ ...sort, key: rename(sort.key) })));
+    setColumnWidths(prev => {
+      if (!(column in prev)) return prev;
+      const { [column]: width, ...rest } = prev;
+      return { ...rest, [to]: width };
+    });
+  };
+
+  const deleteColumn = (column: string) => {
+    onEdit(createDeleteColumnEdit(data, schema, column));
+    setSorts(prev => prev.filter(sort => sort.key !== column));
+  };
+
+  const toggleHidden = (column: string) => {
+    setHiddenColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+  };
+
+  const toggleFrozen = (column: string) => {
+    setFrozenColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+  };
+
+  const startResize = (column: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(column);
+    const handleMove = (event: MouseEvent) => {
+      setColumnWidths(prev => ({ ...prev, [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX) }));
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const cellStyle = (column: string): React.CSSProperties => {
+    const width = widthOf(column);
+    return frozenColumns.includes(column)
+      ? { width, minWidth: width, maxWidth: width, position: 'sticky', left: frozenOffsets[column] }
+      : { width, minWidth: width, maxWidth: width };
   };
 
   if (data.length === 0) {
-    return <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 text-center text-gray-500">No data available to display.</div>;
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 text-center text-gray-500">
+        No data available to display.
+        {editHistory.past.length > 0 && <button onClick={onUndo} className="ml-2 text-primary-600 hover:underline">Undo last edit</button>}
+      </div>
+    );
   }
 
   return (
     <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
-      <h3 className="text-lg font-semibold text-gray-800 mb-4">Explore Data</h3>
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Explore Data</h3>
+        <div className="flex items-center space-x-3 text-sm text-gray-600">
+          {isQuerying && <LoaderCircle className="w-4 h-4 animate-spin text-primary-600" />}
+          <span>
+            {totalRows.toLocaleString()} {totalRows === 1 ? 'row' : 'rows'}
+            {totalRows !== data.length && ` (filtered from ${data.length.toLocaleString()})`}
+          </span>
+          {sorts.length > 0 && (
+            <button onClick={() => setSorts([])} className="text-primary-600 hover:underline" title="Shift-click column names to sort by more than one column">
+              Clear sort
+            </button>
+          )}
+          <button onClick={onUndo} disabled={editHistory.past.length === 0} title="Undo (Ctrl+Z)" className="p-1.5 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40">
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={onRedo} disabled={editHistory.future.length === 0} title="Redo (Ctrl+Shift+Z)" className="p-1.5 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40">
+            <Redo2 className="w-4 h-4" />
+          </button>
+          {editHistory.past.length > 0 && (
+            <button onClick={() => setShowEditLog(v => !v)} className="flex items-center px-3 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+              <History className="w-4 h-4 mr-1" /> Edit log ({editHistory.past.length})
+            </button>
+          )}
+          <button onClick={() => setShowFormulaEditor(v => !v)} className="flex items-center px-3 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            <Sigma className="w-4 h-4 mr-1" /> Add column
+          </button>
+          <button onClick={addRow} className="flex items-center px-3 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            <Plus className="w-4 h-4 mr-1" /> Add row
+          </button>
+          <button onClick={() => setShowFilters(v => !v)} className={`flex items-center px-3 py-1 border rounded-md hover:bg-gray-50 ${activeFilterColumns.size > 0 ? 'bg-primary-50 border-primary-300 text-primary-700' : 'bg-white border-gray-300'}`}>
+            <Filter className="w-4 h-4 mr-1" /> Filters{filterSet.filters.length > 0 && ` (${filterSet.filters.length})`}
+          </button>
+          <button onClick={() => setShowColumnMenu(v => !v)} className="flex items-center px-3 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            <Columns3 className="w-4 h-4 mr-1" /> Columns{hiddenColumns.length > 0 && ` (${hiddenColumns.length} hidden)`}
+          </button>
+        </div>
+      </div>
+
+      {showFormulaEditor && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <FormulaColumnEditor
+            data={data}
+            schema={schema}
+            onAdd={column => {
+              onEdit({ type: 'addColumn', column });
+              setShowFormulaEditor(false);
+            }}
+            onCancel={() => setShowFormulaEditor(false)}
+          />
+        </div>
+      )}
+
+      {showEditLog && editHistory.past.length > 0 && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <p className="text-xs text-gray-500 mb-2">Changes made by hand, newest first. They are kept with this analysis and included in exports.</p>
+          <ol className="max-h-40 overflow-y-auto space-y-1 text-sm text-gray-700">
+            {[...editHistory.past].reverse().map((edit, index) => (
+              <li key={editHistory.past.length - index}>{describeEdit(edit)}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {showFilters && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <FilterBuilder filterSet={filterSet} schema={schema} data={data} onChange={onFilterSetChange} />
+        </div>
+      )}
+
+      {showColumnMenu && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg grid grid-cols-2 md:grid-cols-4 gap-2">
+          {schema.map(({ name }) => {
+            const hidden = hiddenColumns.includes(name);
+            const frozen = frozenColumns.includes(name);
+            const dependents = getFormulaDependents(schema, name);
+            return (
+              <div key={name} className="flex items-center justify-between bg-white border border-gray-200 rounded-md px-2 py-1 text-sm">
+                {columnRename?.column === name ? (
+                  <input
+                    autoFocus
+                    value={columnRename.value}
+                    onChange={e => setColumnRename({ ...columnRename, value: e.target.value, error: null })}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      else if (e.key === 'Escape') setColumnRename(null);
+                    }}
+                    onBlur={() => setColumnRename(null)}
+                    title={columnRename.error ?? undefined}
+                    className={`min-w-0 flex-1 py-0 px-1 text-sm rounded border ${columnRename.error ? 'border-red-400' : 'border-gray-300'}`}
+                  />
+                ) : (
+                  <span className={`truncate ${hidden ? 'text-gray-400' : 'text-gray-700'}`} title={name}>{name}</span>
+                )}
+                <div className="flex items-center flex-shrink-0 ml-2">
+                  <button onClick={() => setColumnRename({ column: name, value: name, error: null })} title="Rename column" className="p-1 text-gray-500 hover:text-gray-800">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteColumn(name)}
+                    disabled={schema.length === 1 || dependents.length > 0}
+                    title={dependents.length > 0 ? `Used by ${dependents.join(', ')}` : 'Delete column'}
+                    className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-40"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => toggleFrozen(name)} disabled={hidden} title={frozen ? 'Unfreeze column' : 'Freeze column'} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-40">
+                    {frozen ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => toggleHidden(name)} title={hidden ? 'Show column' : 'Hide column'} className="p-1 text-gray-500 hover:text-gray-800">
+                    {hidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto border border-gray-200 rounded-lg"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="table-fixed border-separate border-spacing-0" style={{ width: tableWidth }}>
+          <thead className="bg-gray-50 sticky top-0 z-20">
             <tr>
-              {headers.map(header => (
-                <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th scope="col" className="sticky left-0 z-10 bg-gray-50 border-b border-gray-200 px-2 text-right text-xs font-medium text-gray-400" style={{ width: ROW_NUMBER_WIDTH, minWidth: ROW_NUMBER_WIDTH }}>
+                #
+              </th>
+              {visibleColumns.map(column => {
+                const { name: header, type, inferredType, confidence, overridden, formula } = column;
+                const sortIndex = sorts.findIndex(sort => sort.key === header);
+                return (
+                <th
+                  key={header}
+                  scope="col"
+                  className={`relative bg-gray-50 border-b border-gray-200 px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${frozenColumns.includes(header) ? 'z-10 border-r' : ''}`}
+                  style={cellStyle(header)}
+                >
                   <div className="flex flex-col">
-                    <button onClick={() => requestSort(header)} className="flex items-center group">
-                      {header}
-                      <span className="ml-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        {sortConfig?.key === header ? (sortConfig.direction === 'ascending' ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />) : <ChevronUp className="h-4 w-4 text-gray-300"/>}
+                    <button onClick={e => requestSort(header, e.shiftKey)} className="flex items-center group min-w-0" title={`${header} (shift-click to add to the sort)`}>
+                      <span className="truncate">{header}</span>
+                      {sortIndex >= 0 ? (
+                        <span className="ml-1 flex items-center text-primary-600">
+                          {sorts[sortIndex].direction === 'ascending' ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                          {sorts.length > 1 && <span className="text-[10px] font-semibold">{sortIndex + 1}</span>}
+                        </span>
+                      ) : (
+                        <span className="ml-1 opacity-0 group-hover:opacity-100 transition-opacity"><ChevronUp className="h-4 w-4 text-gray-300"/></span>
+                      )}
+                    </button>
+                    {formula ? (
+                      <span
+                        title={formulaErrors[header] ?? formula}
+                        className={`mt-1 block truncate text-xs normal-case font-normal font-mono ${formulaErrors[header] ? 'text-red-600' : 'text-primary-600'}`}
+                      >
+                        = {formula}
                       </span>
+                    ) : (
+                      <select
+                        value={type}
+                        onChange={e => onColumnTypeChange(header, e.target.value as ColumnType)}
+                        title={overridden
+                          ? `Set by you (detected as ${COLUMN_TYPE_LABELS[inferredType]})`
+                          : `Detected with ${Math.round(confidence * 100)}% confidence`}
+                        className={`mt-1 block w-full py-0.5 text-xs normal-case font-normal border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 ${overridden ? 'text-primary-600' : 'text-gray-500'}`}
+                      >
+                        {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(option => (
+                          <option key={option} value={option}>{COLUMN_TYPE_LABELS[option]}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => addColumnFilter(column)}
+                      className={`mt-1 flex items-center text-xs normal-case font-normal ${activeFilterColumns.has(header) ? 'text-primary-600' : 'text-gray-400 hover:text-gray-600'}`}
+                    >
+                      <Filter className="w-3 h-3 mr-1" /> {activeFilterColumns.has(header) ? 'Filtered' : 'Add filter'}
                     </button>
-                    <input
-                      type="text"
-                      placeholder={`Filter...`}
-                      value={filters[header] || ''}
-                      onChange={e => handleFilterChange(header, e.target.value)}
-                      className="mt-1 block w-full text-xs border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                    />
                   </div>
+                  <div
+                    onMouseDown={e => startResize(header, e)}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-primary-300"
+                    title="Drag to resize"
+                  />
                 </th>
-              ))}
+                );
+              })}
             </tr>
           </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {paginatedData.map((row, rowIndex) => (
-              <tr key={rowIndex} className="hover:bg-gray-50">
-                {headers.map(header => (
-                  <td key={header} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
-                    {String(row[header])}
+          <tbody>
+            {firstRendered > 0 && <tr style={{ height: firstRendered * ROW_HEIGHT }} />}
+            {renderedPositions.map(position => {
+              const row = data[position];
+              // Positions from the previous data can arrive before the new query finishes.
+              if (!row) return null;
+              return (
+                <tr key={position} className="group" style={{ height: ROW_HEIGHT }}>
+                  <td className="sticky left-0 bg-white group-hover:bg-gray-50 border-b border-gray-100 px-2 text-right text-xs text-gray-400" style={{ width: ROW_NUMBER_WIDTH, minWidth: ROW_NUMBER_WIDTH }}>
+                    <div className="flex items-center justify-end">
+                      <button onClick={() => deleteRow(position)} title="Delete row" className="mr-1 text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                      <span className={editMarkers.addedRows.has(position) ? 'text-emerald-600 font-medium' : ''} title={editMarkers.addedRows.has(position) ? 'Added by hand' : undefined}>
+                        {position + 1}
+                      </span>
+                    </div>
                   </td>
-                ))}
-              </tr>
-            ))}
+                  {visibleColumns.map(({ name: header }) => {
+                    const isEditing = cellEditor?.row === position && cellEditor.column === header;
+                    const isEdited = editMarkers.cells.get(position)?.has(header) ?? false;
+                    const outlier = outlierCells.get(position)?.get(header);
+                    const cellClassName = isEdited ? 'bg-amber-50 group-hover:bg-amber-100' : outlier ? OUTLIER_CELL_CLASSES[outlier] : 'bg-white group-hover:bg-gray-50';
+                    const notes = [isEdited && 'edited by hand', outlier && OUTLIER_CELL_NOTES[outlier]].filter(Boolean);
+                    const text = formatCell(row[header]);
+                    return (
+                      <td
+                        key={header}
+                        onDoubleClick={() => !isEditing && startCellEdit(position, header)}
+                        className={`${cellClassName} border-b border-gray-100 whitespace-nowrap overflow-hidden text-ellipsis text-sm text-gray-700 ${isEditing ? 'px-1' : 'px-3'} ${frozenColumns.includes(header) ? 'border-r border-r-gray-200' : ''}`}
+                        style={cellStyle(header)}
+                        title={notes.length > 0 ? `${text} (${notes.join('; ')})` : text}
+                      >
+                        {isEditing ? (
+                          <input
+                            autoFocus
+                            value={cellEditor.value}
+                            onChange={e => setCellEditor({ ...cellEditor, value: e.target.value, error: null })}
+                            onKeyDown={handleCellKeyDown}
+                            onBlur={() => commitCellEdit() || setCellEditor(null)}
+                            title={cellEditor.error ?? 'Enter to save, Escape to cancel'}
+                            className={`w-full py-0.5 px-2 text-sm rounded border ${cellEditor.error ? 'border-red-400 focus:ring-red-400 focus:border-red-400' : 'border-primary-400'}`}
+                          />
+                        ) : text}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {lastRendered < pageRowCount && <tr style={{ height: (pageRowCount - lastRendered) * ROW_HEIGHT }} />}
           </tbody>
         </table>
+        {totalRows === 0 && <p className="p-6 text-center text-sm text-gray-500">No rows match the filters.</p>}
       </div>
-      
-      {totalPages > 1 && (
-        <div className="flex justify-between items-center mt-4">
-          <span className="text-sm text-gray-600">Page {currentPage} of {totalPages}</span>
-          <div className="flex space-x-2">
-            <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1} className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed">
+      {cellEditor?.error && <p className="mt-2 text-sm text-red-600">{cellEditor.error}</p>}
+      <p className="mt-2 text-xs text-gray-400">Double-click a cell to edit it. Edited cells are highlighted in yellow, outliers in orange, or red when their rows are excluded from analyses.</p>
+
+      <div className="flex flex-wrap justify-between items-center gap-3 mt-4">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <label htmlFor="pageSize">Rows per page</label>
+          <select
+            id="pageSize"
+            value={pageSize}
+            onChange={e => {
+              setPageSize(Number(e.target.value));
+              goToPage(1);
+            }}
+            className="py-1 text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size === 0 ? 'All' : size.toLocaleString()}</option>)}
+          </select>
+        </div>
+        {totalPages > 1 && (
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Page {page} of {totalPages.toLocaleString()}</span>
+            <button onClick={() => goToPage(Math.max(1, page - 1))} disabled={page === 1} className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed">
               Previous
             </button>
-            <button onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))} disabled={currentPage === totalPages} className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed">
+            <button onClick={() => goToPage(Math.min(totalPages, page + 1))} disabled={page === totalPages} className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed">
               Next
             </button>
           </div>
-        </div>
-      )}
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { ExcelImportOptions, SheetInfo, SheetCombineMode } from '../types';
+import { isValidCellRange, SHEET_COMBINE_LABELS, SHEET_SOURCE_COLUMN } from '../services/excelService';
+
+interface ExcelSheetPickerProps {
+  sheets: SheetInfo[];
+  options: ExcelImportOptions;
+  onChange: (options: ExcelImportOptions) => void;
+}
+
+const ExcelSheetPicker: React.FC<ExcelSheetPickerProps> = ({ sheets, options, onChange }) => {
+  const [previewSheet, setPreviewSheet] = useState<string>(options.sheets[0] ?? sheets[0]?.name ?? '');
+  const preview = sheets.find(sheet => sheet.name === previewSheet);
+
+  const toggleSheet = (name: string) => {
+    const selected = options.sheets.includes(name)
+      ? options.sheets.filter(sheet => sheet !== name)
+      // Keep workbook order so stacked rows follow the tabs.
+      : sheets.map(sheet => sheet.name).filter(sheet => sheet === name || options.sheets.includes(sheet));
+    onChange({ ...options, sheets: selected });
+    setPreviewSheet(name);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {sheets.map(sheet => (
+          <label
+            key={sheet.name}
+            onMouseEnter={() => setPreviewSheet(sheet.name)}
+            className={`flex items-center justify-between px-3 py-2 cursor-pointer ${previewSheet === sheet.name ? 'bg-gray-50' : ''}`}
+          >
+            <span className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options.sheets.includes(sheet.name)}
+                onChange={() => toggleSheet(sheet.name)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="text-sm font-medium text-gray-700">{sheet.name}</span>
+            </span>
+            <span className="text-xs text-gray-500">
+              {sheet.rowCount === 0 ? 'Empty' : `${sheet.rowCount} rows × ${sheet.columnCount} columns`}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {preview && preview.preview.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Preview of "{preview.name}" (first rows as they appear in the sheet)</p>
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-xs">
+              <tbody className="divide-y divide-gray-100">
+                {preview.preview.map((row, i) => (
+                  <tr key={i} className={preview.previewStartRow + i === options.headerRow ? 'bg-primary-50 font-semibold' : ''}>
+                    <td className="px-2 py-1 text-gray-400 text-right">{preview.previewStartRow + i}</td>
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-2 py-1 text-gray-700 whitespace-nowrap max-w-xs truncate">{cell ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="headerRow" className="block text-sm font-medium text-gray-700">Header row</label>
+          <input
+            type="number"
+            id="headerRow"
+            min={1}
+            value={options.headerRow}
+            onChange={e => onChange({ ...options, headerRow: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+            className="mt-1 block w-full text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="cellRange" className="block text-sm font-medium text-gray-700">Cell range (optional)</label>
+          <input
+            type="text"
+            id="cellRange"
+            value={options.range}
+            placeholder="e.g. B2:H500"
+            onChange={e => onChange({ ...options, range: e.target.value })}
+            className={`mt-1 block w-full text-sm rounded-md focus:ring-primary-500 focus:border-primary-500 ${isValidCellRange(options.range) ? 'border-gray-300' : 'border-red-400'}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="combine" className="block text-sm font-medium text-gray-700">Multiple sheets</label>
+          <select
+            id="combine"
+            value={options.combine}
+            disabled={options.sheets.length < 2}
+            onChange={e => onChange({ ...options, combine: e.target.value as SheetCombineMode })}
+            className="mt-1 block w-full text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 disabled:opacity-50"
+          >
+            {(Object.keys(SHEET_COMBINE_LABELS) as SheetCombineMode[]).map(mode => <option key={mode} value={mode}>{SHEET_COMBINE_LABELS[mode]}</option>)}
+          </select>
+        </div>
+      </div>
+      {options.combine === 'stack' && options.sheets.length > 1 && (
+        <p className="text-xs text-gray-500">Stacked sheets must have the same columns. A "{SHEET_SOURCE_COLUMN}" column records where each row came from.</p>
+      )}
+    </div>
+  );
+};
+
+export default ExcelSheetPicker;
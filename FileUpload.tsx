@@ -1,34 +1,134 @@
 
-import React, { useCallback, useState } from 'react';
-import { UploadCloud, FileCheck, AlertTriangle } from 'lucide-react';
+import React, { useCallback, useMemo, useState } from 'react';
+import type { CleaningRecipe, ExcelImportOptions, SheetInfo, DataFormat, CsvImportOptions, ImportOptions } from '../types';
+import { DEFAULT_CLEANING_RECIPE } from '../services/cleaningService';
+import { readWorkbookSheets, defaultExcelImportOptions, isValidCellRange } from '../services/excelService';
+import { sniffCsvImportOptions, decodeFilePreview, previewCsvText } from '../services/csvService';
+import { detectFormat, htmlTableToTsv, ACCEPTED_FILE_EXTENSIONS, DATA_FORMAT_LABELS, PASTED_DATA_FILE_NAME, MAX_FILE_SIZE_MB } from '../services/formatService';
+import CleaningRecipeEditor from './CleaningRecipeEditor';
+import ExcelSheetPicker from './ExcelSheetPicker';
+import CsvImportSettings from './CsvImportSettings';
+import { UploadCloud, FileCheck, AlertTriangle, SlidersHorizontal, LoaderCircle, ClipboardPaste } from 'lucide-react';
 
 interface FileUploadProps {
-  onProcessFile: (file: File) => void;
+  onProcessFile: (file: File, recipe: CleaningRecipe, importOptions?: ImportOptions) => void;
+  // Set when adding a file to an open analysis, which the user can go back to.
+  onCancel?: () => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onProcessFile }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onProcessFile, onCancel }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recipe, setRecipe] = useState<CleaningRecipe>(DEFAULT_CLEANING_RECIPE);
+  const [showCleaningOptions, setShowCleaningOptions] = useState(false);
+  const [sheets, setSheets] = useState<SheetInfo[] | null>(null);
+  const [excelOptions, setExcelOptions] = useState<ExcelImportOptions | null>(null);
+  const [isReadingWorkbook, setIsReadingWorkbook] = useState(false);
+  const [detectedFormat, setDetectedFormat] = useState<DataFormat | null>(null);
+  const [showPasteArea, setShowPasteArea] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  const [csvOptions, setCsvOptions] = useState<CsvImportOptions | null>(null);
+  // The decoded start of the file, kept so the preview can re-parse it as the settings change.
+  const [csvText, setCsvText] = useState<string | null>(null);
 
-  const handleFileChange = useCallback((files: FileList | null) => {
+  // Lists the workbook's sheets so the user can pick which to load.
+  const loadSheets = useCallback(async (file: File) => {
+    setIsReadingWorkbook(true);
+    try {
+      const workbookSheets = await readWorkbookSheets(file);
+      const firstWithData = workbookSheets.find(sheet => sheet.rowCount > 0) ?? workbookSheets[0];
+      setSheets(workbookSheets);
+      setExcelOptions(firstWithData ? defaultExcelImportOptions(firstWithData.name) : null);
+    } catch (err) {
+      console.error(err);
+      setError('Could not read the sheets in this workbook.');
+    } finally {
+      setIsReadingWorkbook(false);
+    }
+  }, []);
+
+  // Guesses the delimited-text settings and decodes the file for the live preview.
+  const loadCsvSettings = useCallback(async (file: File, format: DataFormat) => {
+    try {
+      const options = await sniffCsvImportOptions(file, format === 'tsv' ? '\t' : undefined);
+      setCsvOptions(options);
+      setCsvText(await decodeFilePreview(file, options.encoding));
+    } catch (err) {
+      console.error(err);
+      setError('Could not read this file as delimited text.');
+    }
+  }, []);
+
+  const handleCsvOptionsChange = useCallback(async (options: CsvImportOptions) => {
+    const encodingChanged = options.encoding !== csvOptions?.encoding;
+    setCsvOptions(options);
+    if (selectedFile && encodingChanged) {
+      setCsvText(await decodeFilePreview(selectedFile, options.encoding));
+    }
+  }, [selectedFile, csvOptions]);
+
+  const csvPreview = useMemo(
+    () => (csvOptions && csvText !== null ? previewCsvText(csvText, csvOptions) : null),
+    [csvOptions, csvText],
+  );
+
+  const clearFile = useCallback(() => {
+    setSelectedFile(null);
+    setDetectedFormat(null);
+    setSheets(null);
+    setExcelOptions(null);
+    setCsvOptions(null);
+    setCsvText(null);
+  }, []);
+
+  const selectFile = useCallback(async (file: File) => {
     setError(null);
+    setSheets(null);
+    setExcelOptions(null);
+    setCsvOptions(null);
+    setCsvText(null);
+    setDetectedFormat(null);
+    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+      setError(`This file is ${(file.size / 1024 / 1024).toFixed(0)}MB, which is over the ${MAX_FILE_SIZE_MB}MB limit.`);
+      setSelectedFile(null);
+      return;
+    }
+    const format = await detectFormat(file);
+    if (!format) {
+      setError('Unrecognized file format. Please upload CSV, TSV, JSON, NDJSON, Excel or Parquet data.');
+      setSelectedFile(null);
+      return;
+    }
+    setSelectedFile(file);
+    setDetectedFormat(format);
+    if (format === 'excel') {
+      loadSheets(file);
+    } else if (format === 'csv' || format === 'tsv') {
+      loadCsvSettings(file, format);
+    }
+  }, [loadSheets, loadCsvSettings]);
+
+  const handleFileChange = useCallback((files: FileList | null) => {
     if (files && files.length > 0) {
-      const file = files[0];
-      const allowedTypes = [
-        'text/csv',
-        'application/vnd.ms-excel',
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-      ];
-      if (allowedTypes.includes(file.type) || file.name.endsWith('.csv') || file.name.endsWith('.xls') || file.name.endsWith('.xlsx')) {
-        setSelectedFile(file);
-      } else {
-        setError('Invalid file type. Please upload a CSV or Excel file.');
-        setSelectedFile(null);
-      }
+      selectFile(files[0]);
+    }
+  }, [selectFile]);
+
+  // Tables copied from web pages arrive as HTML; keep their cell structure as tab-separated text.
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const tsv = htmlTableToTsv(e.clipboardData.getData('text/html'));
+    if (tsv) {
+      e.preventDefault();
+      setPastedText(tsv);
     }
   }, []);
 
+  const handleUsePastedData = useCallback(() => {
+    selectFile(new File([pastedText], PASTED_DATA_FILE_NAME, { type: 'text/plain' }));
+    setShowPasteArea(false);
+  }, [pastedText, selectFile]);
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -48,16 +148,21 @@ const FileUpload: React.FC<FileUploadProps> = ({ onProcessFile }) => {
 
   const handleSubmit = useCallback(() => {
     if (selectedFile) {
-      onProcessFile(selectedFile);
+      onProcessFile(selectedFile, recipe, { csv: csvOptions ?? undefined, excel: excelOptions ?? undefined });
     }
-  }, [selectedFile, onProcessFile]);
+  }, [selectedFile, recipe, csvOptions, excelOptions, onProcessFile]);
+
+  const excelOptionsInvalid = !!excelOptions && (excelOptions.sheets.length === 0 || !isValidCellRange(excelOptions.range));
 
   return (
     <div className="max-w-3xl mx-auto bg-white p-8 rounded-lg shadow-md border border-gray-200">
       <div className="text-center">
         <UploadCloud className="mx-auto h-12 w-12 text-gray-400" />
-        <h2 className="mt-2 text-2xl font-semibold text-gray-900">Upload your dataset</h2>
-        <p className="mt-1 text-sm text-gray-500">Supports CSV and Excel files. We'll automatically clean and analyze it for you.</p>
+        <h2 className="mt-2 text-2xl font-semibold text-gray-900">{onCancel ? 'Add another dataset' : 'Upload your dataset'}</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Supports CSV, TSV, JSON, NDJSON, Excel and Parquet files. We'll automatically clean and analyze it for you.
+          {onCancel && ' It opens next to your current tables, ready to join or append.'}
+        </p>
       </div>
 
       <div 
@@ -71,17 +176,41 @@ const FileUpload: React.FC<FileUploadProps> = ({ onProcessFile }) => {
           type="file" 
           id="file-upload" 
           className="hidden" 
-          accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+          accept={ACCEPTED_FILE_EXTENSIONS.join(', ')}
           onChange={(e) => handleFileChange(e.target.files)}
         />
         <label htmlFor="file-upload" className="cursor-pointer">
           <p className="text-gray-700">
             <span className="font-semibold text-primary-600">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500 mt-1">Max file size: 10MB</p>
+          <p className="text-xs text-gray-500 mt-1">Max file size: {MAX_FILE_SIZE_MB}MB</p>
         </label>
       </div>
 
+      <div className="mt-3">
+        <button onClick={() => setShowPasteArea(v => !v)} className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-800">
+          <ClipboardPaste className="w-4 h-4 mr-2" />
+          {showPasteArea ? 'Hide paste area' : 'Or paste data from a spreadsheet or web page'}
+        </button>
+        {showPasteArea && (
+          <div className="mt-2">
+            <textarea
+              value={pastedText}
+              onChange={e => setPastedText(e.target.value)}
+              onPaste={handlePaste}
+              rows={8}
+              placeholder="Paste a table here, with column names in the first row. CSV, tab-separated and JSON text all work."
+              className="block w-full text-sm font-mono border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+            <div className="flex justify-end mt-2">
+              <button onClick={handleUsePastedData} disabled={pastedText.trim() === ''} className="px-4 py-2 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 disabled:bg-gray-300">
+                Use Pasted Data
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {error && (
         <div className="mt-4 flex items-center text-sm text-red-600">
           <AlertTriangle className="h-4 w-4 mr-2" />
@@ -93,16 +222,56 @@ const FileUpload: React.FC<FileUploadProps> = ({ onProcessFile }) => {
         <div className="mt-4 flex items-center justify-between bg-green-50 border border-green-200 p-3 rounded-lg">
           <div className="flex items-center space-x-2">
             <FileCheck className="h-5 w-5 text-green-600" />
-            <span className="text-sm font-medium text-gray-700">{selectedFile.name}</span>
+            <span className="text-sm font-medium text-gray-700">{selectedFile.name === PASTED_DATA_FILE_NAME ? 'Pasted data' : selectedFile.name}</span>
+            {detectedFormat && <span className="text-xs text-gray-500">({DATA_FORMAT_LABELS[detectedFormat]})</span>}
           </div>
-          <button onClick={() => setSelectedFile(null)} className="text-sm text-gray-500 hover:text-gray-700">&times;</button>
+          <button onClick={clearFile} className="text-sm text-gray-500 hover:text-gray-700">&times;</button>
         </div>
       )}
 
-      <div className="mt-8">
+      {isReadingWorkbook && (
+        <div className="mt-4 flex items-center text-sm text-gray-500">
+          <LoaderCircle className="h-4 w-4 mr-2 animate-spin" />
+          Reading sheets...
+        </div>
+      )}
+
+      {sheets && excelOptions && !error && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Sheets to load</h3>
+          <ExcelSheetPicker sheets={sheets} options={excelOptions} onChange={setExcelOptions} />
+        </div>
+      )}
+
+      {csvOptions && !error && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Import settings</h3>
+          <CsvImportSettings options={csvOptions} onChange={handleCsvOptionsChange} preview={csvPreview} />
+        </div>
+      )}
+
+      <div className="mt-6">
+        <button onClick={() => setShowCleaningOptions(v => !v)} className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-800">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          {showCleaningOptions ? 'Hide cleaning options' : 'Cleaning options'}
+        </button>
+        {showCleaningOptions && (
+          <div className="mt-3">
+            <p className="text-xs text-gray-500 mb-2">Steps run top to bottom. Column-specific settings become available on the dashboard once the file is loaded.</p>
+            <CleaningRecipeEditor recipe={recipe} columns={[]} onChange={setRecipe} />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-8 flex space-x-2">
+        {onCancel && (
+          <button onClick={onCancel} className="py-3 px-4 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+        )}
         <button
           onClick={handleSubmit}
-          disabled={!selectedFile || !!error}
+          disabled={!selectedFile || !!error || isReadingWorkbook || excelOptionsInvalid}
           className="w-full bg-primary-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
         >
           Analyze Data
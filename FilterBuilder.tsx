@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import type { TableRow, ColumnSchema, ColumnFilter, FilterOperator, FilterSet } from '../types';
+import { FILTER_OPERATORS, createFilter, getDistinctValues, getFilterKind, getOperatorLabel, isFilterComplete } from '../services/filterService';
+import { Plus, X } from 'lucide-react';
+
+interface FilterBuilderProps {
+  filterSet: FilterSet;
+  schema: ColumnSchema[];
+  data: TableRow[];
+  onChange: (filterSet: FilterSet) => void;
+}
+
+const inputClassName = "text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+interface ValuePickerProps {
+  data: TableRow[];
+  column: string;
+  selected: string[];
+  onChange: (values: string[]) => void;
+}
+
+// Checkbox list of a column's distinct values, with a search box for long lists.
+const ValuePicker: React.FC<ValuePickerProps> = ({ data, column, selected, onChange }) => {
+  const [search, setSearch] = useState('');
+  const options = useMemo(() => getDistinctValues(data, column), [data, column]);
+  const visible = search ? options.filter(({ value }) => value.toLowerCase().includes(search.toLowerCase())) : options;
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  return (
+    <div className="w-64">
+      <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search values..." className={`${inputClassName} w-full py-1`} />
+      <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-md bg-white">
+        {visible.map(({ value, count }) => (
+          <label key={value} className="flex items-center justify-between px-2 py-1 text-sm hover:bg-gray-50 cursor-pointer">
+            <span className="flex items-center min-w-0">
+              <input type="checkbox" checked={selected.includes(value)} onChange={() => toggle(value)} className="h-4 w-4 text-primary-600 border-gray-300 rounded" />
+              <span className={`ml-2 truncate ${value === '' ? 'italic text-gray-400' : 'text-gray-700'}`}>{value === '' ? '(empty)' : value}</span>
+            </span>
+            <span className="ml-2 text-xs text-gray-400">{count.toLocaleString()}</span>
+          </label>
+        ))}
+        {visible.length === 0 && <p className="px-2 py-1 text-sm text-gray-400">No matching values</p>}
+      </div>
+      {selected.length > 0 && (
+        <button onClick={() => onChange([])} className="mt-1 text-xs text-primary-600 hover:underline">Clear selection ({selected.length})</button>
+      )}
+    </div>
+  );
+};
+
+interface FilterRowProps {
+  filter: ColumnFilter;
+  schema: ColumnSchema[];
+  data: TableRow[];
+  onChange: (filter: ColumnFilter) => void;
+  onRemove: () => void;
+}
+
+const FilterRow: React.FC<FilterRowProps> = ({ filter, schema, data, onChange, onRemove }) => {
+  const type = schema.find(column => column.name === filter.column)?.type;
+  const kind = getFilterKind(type);
+  const operators = FILTER_OPERATORS[kind];
+  const update = (changes: Partial<ColumnFilter>) => onChange({ ...filter, ...changes });
+
+  const handleColumnChange = (column: string) => {
+    const next = createFilter(column, schema.find(c => c.name === column)?.type);
+    onChange({ ...next, id: filter.id });
+  };
+
+  const valueInputType = kind === 'number' ? 'number' : kind === 'date' ? 'date' : 'text';
+  const needsValue = filter.operator !== 'isEmpty' && filter.operator !== 'isNotEmpty';
+  const invalid = needsValue && !isFilterComplete(filter) && (filter.value !== '' || filter.valueTo !== '');
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      <select value={filter.column} onChange={e => handleColumnChange(e.target.value)} className={`${inputClassName} py-1`}>
+        {schema.map(column => <option key={column.name} value={column.name}>{column.name}</option>)}
+      </select>
+      <select value={filter.operator} onChange={e => update({ operator: e.target.value as FilterOperator })} className={`${inputClassName} py-1`}>
+        {operators.map(operator => <option key={operator} value={operator}>{getOperatorLabel(kind, operator)}</option>)}
+      </select>
+      {(filter.operator === 'in' || filter.operator === 'notIn') ? (
+        <ValuePicker data={data} column={filter.column} selected={filter.values} onChange={values => update({ values })} />
+      ) : needsValue && (
+        <>
+          <input
+            type={valueInputType}
+            value={filter.value}
+            onChange={e => update({ value: e.target.value })}
+            placeholder={filter.operator === 'regex' ? 'e.g. ^north' : 'Value'}
+            title={invalid && filter.operator === 'regex' ? 'This is not a valid regular expression' : undefined}
+            className={`${inputClassName} py-1 w-40 ${invalid ? 'border-red-400' : ''}`}
+          />
+          {filter.operator === 'between' && (
+            <>
+              <span className="text-sm text-gray-500 py-1">and</span>
+              <input type={valueInputType} value={filter.valueTo} onChange={e => update({ valueTo: e.target.value })} placeholder="Value" className={`${inputClassName} py-1 w-40`} />
+            </>
+          )}
+        </>
+      )}
+      <button onClick={onRemove} title="Remove filter" className="p-1.5 text-gray-400 hover:text-red-600">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ filterSet, schema, data, onChange }) => {
+  const updateFilter = (filter: ColumnFilter) => {
+    onChange({ ...filterSet, filters: filterSet.filters.map(f => (f.id === filter.id ? filter : f)) });
+  };
+
+  const removeFilter = (id: string) => {
+    onChange({ ...filterSet, filters: filterSet.filters.filter(f => f.id !== id) });
+  };
+
+  const addFilter = () => {
+    const [first] = schema;
+    if (!first) return;
+    onChange({ ...filterSet, filters: [...filterSet.filters, createFilter(first.name, first.type)] });
+  };
+
+  return (
+    <div className="space-y-3">
+      {filterSet.filters.length > 1 && (
+        <div className="flex items-center text-sm text-gray-600 space-x-2">
+          <span>Show rows matching</span>
+          <select
+            value={filterSet.combinator}
+            onChange={e => onChange({ ...filterSet, combinator: e.target.value as FilterSet['combinator'] })}
+            className={`${inputClassName} py-1`}
+          >
+            <option value="and">all filters (AND)</option>
+            <option value="or">any filter (OR)</option>
+          </select>
+        </div>
+      )}
+      {filterSet.filters.map(filter => (
+        <FilterRow key={filter.id} filter={filter} schema={schema} data={data} onChange={updateFilter} onRemove={() => removeFilter(filter.id)} />
+      ))}
+      <div className="flex items-center space-x-4">
+        <button onClick={addFilter} className="flex items-center text-sm font-medium text-primary-600 hover:text-primary-700">
+          <Plus className="w-4 h-4 mr-1" /> Add filter
+        </button>
+        {filterSet.filters.length > 0 && (
+          <button onClick={() => onChange({ ...filterSet, filters: [] })} className="text-sm text-gray-500 hover:text-gray-700">
+            Clear all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { ColumnSchema, FilterSet } from '../types';
+import { describeFilterSet } from '../services/filterService';
+import { Filter } from 'lucide-react';
+
+interface FilterSummaryBarProps {
+  filterSet: FilterSet;
+  schema: ColumnSchema[];
+  rowCount: number;
+  totalRowCount: number;
+  onEdit: () => void;
+  onClear: () => void;
+}
+
+// Reminds the user that the current view only covers the filtered rows.
+const FilterSummaryBar: React.FC<FilterSummaryBarProps> = ({ filterSet, schema, rowCount, totalRowCount, onEdit, onClear }) => (
+  <div className="mb-4 bg-primary-50 border border-primary-200 text-primary-800 px-4 py-2 rounded-lg flex flex-col md:flex-row md:items-center justify-between text-sm">
+    <p className="flex items-start">
+      <Filter className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+      <span>
+        Using {rowCount.toLocaleString()} of {totalRowCount.toLocaleString()} rows: <span className="font-medium">{describeFilterSet(filterSet, schema)}</span>
+      </span>
+    </p>
+    <div className="flex space-x-3 mt-2 md:mt-0 md:ml-4 flex-shrink-0">
+      <button onClick={onEdit} className="text-primary-700 hover:underline">Edit filters</button>
+      <button onClick={onClear} className="text-primary-700 hover:underline">Clear</button>
+    </div>
+  </div>
+);
+
+export default FilterSummaryBar;
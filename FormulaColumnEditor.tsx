@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import type { TableRow, ColumnSchema } from '../types';
+import { FORMULA_FUNCTION_HELP, FORMULA_TYPE_LABELS, checkFormula, createFormulaColumn, evaluateFormula } from '../services/formulaService';
+import { validateColumnName } from '../services/editService';
+import { COLUMN_TYPE_LABELS } from '../services/schemaService';
+import { BookOpen } from 'lucide-react';
+
+interface FormulaColumnEditorProps {
+  data: TableRow[];
+  schema: ColumnSchema[];
+  onAdd: (column: ColumnSchema) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const inputClassName = "text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+const FormulaColumnEditor: React.FC<FormulaColumnEditorProps> = ({ data, schema, onAdd, onCancel }) => {
+  const [name, setName] = useState('');
+  const [formula, setFormula] = useState('');
+  const [showHelp, setShowHelp] = useState(false);
+
+  const checked = useMemo(() => (formula.trim() ? checkFormula(formula, schema) : null), [formula, schema]);
+  const formulaError = checked && 'error' in checked ? checked.error : null;
+  const nameError = name ? validateColumnName(name, schema, '') : null;
+  const preview = useMemo(
+    () => (checked && !('error' in checked) ? evaluateFormula(formula, data.slice(0, PREVIEW_ROWS), schema) : []),
+    [checked, formula, data, schema],
+  );
+  const canAdd = !!name.trim() && !nameError && !!checked && !formulaError;
+
+  const insertColumn = (column: string) => {
+    if (!column) return;
+    setFormula(prev => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}[${column}]`);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const column = createFormulaColumn(name.trim(), formula, data, schema);
+    onAdd(column);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-start gap-2">
+        <div>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Column name, e.g. margin"
+            className={`${inputClassName} py-1 w-56 ${nameError ? 'border-red-400' : ''}`}
+          />
+          {nameError && <p className="mt-1 text-xs text-red-600">{nameError}</p>}
+        </div>
+        <select value="" onChange={e => insertColumn(e.target.value)} className={`${inputClassName} py-1`}>
+          <option value="">Insert column...</option>
+          {schema.map(column => <option key={column.name} value={column.name}>{column.name}</option>)}
+        </select>
+        <button onClick={() => setShowHelp(v => !v)} className="flex items-center py-1 text-sm text-primary-600 hover:underline">
+          <BookOpen className="w-4 h-4 mr-1" /> Functions
+        </button>
+      </div>
+      <textarea
+        value={formula}
+        onChange={e => setFormula(e.target.value)}
+        rows={2}
+        spellCheck={false}
+        placeholder="e.g. ([revenue] - [cost]) / [revenue]"
+        className={`${inputClassName} w-full font-mono ${formulaError ? 'border-red-400' : ''}`}
+      />
+      {formulaError && <p className="text-sm text-red-600">{formulaError}</p>}
+      {checked && !('error' in checked) && (
+        <p className="text-sm text-gray-600">
+          Gives {FORMULA_TYPE_LABELS[checked.type].toLowerCase()} values. First rows:{' '}
+          <span className="font-mono text-gray-800">{preview.map(value => (value === null ? '(empty)' : String(value))).join(', ')}</span>
+        </p>
+      )}
+
+      {showHelp && (
+        <div className="p-3 bg-white border border-gray-200 rounded-lg text-sm text-gray-600 space-y-2">
+          <p>
+            Refer to columns by name, with brackets around names that contain spaces: <code>[Unit Price] * quantity</code>.
+            Operators: <code>+ - * / % ^</code>, <code>&amp;</code> to join text, <code>= != &lt; &lt;= &gt; &gt;=</code>, <code>and or not</code>.
+            Text goes in quotes. Subtracting two dates gives days. Empty inputs give an empty result.
+          </p>
+          <p className="text-xs text-gray-500">
+            Column types: {schema.map(column => `${column.name} (${COLUMN_TYPE_LABELS[column.type]})`).join(', ')}
+          </p>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 max-h-48 overflow-y-auto">
+            {FORMULA_FUNCTION_HELP.map(({ name: fn, description }) => (
+              <li key={fn}><code className="text-gray-800">{fn}</code>: {description}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+          Cancel
+        </button>
+        <button onClick={handleAdd} disabled={!canAdd} className="px-3 py-1.5 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50">
+          Add column
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FormulaColumnEditor;
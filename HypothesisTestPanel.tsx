@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import type { TableRow, ColumnSchema } from '../types';
+import {
+  HYPOTHESIS_TEST_LABELS, HYPOTHESIS_TEST_QUESTIONS, TEST_INPUTS, CONFIDENCE_LEVELS, DEFAULT_TEST_SETTINGS,
+  formatPValue, getGroupLevels, isTestReady, runHypothesisTest, type HypothesisTest, type TestResult, type TestSettings,
+} from '../services/hypothesisService';
+import { getColumnsOfTypes, NUMERIC_COLUMN_TYPES } from '../services/schemaService';
+import { formatStat } from '../services/profileService';
+import { AlertTriangle } from 'lucide-react';
+
+interface HypothesisTestPanelProps {
+  data: TableRow[];
+  schema: ColumnSchema[];
+}
+
+const inputClassName = "w-full text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const ColumnSelect: React.FC<{ value: string; options: string[]; onChange: (value: string) => void }> = ({ value, options, onChange }) => (
+  <select value={value} onChange={e => onChange(e.target.value)} className={inputClassName}>
+    <option value="">Choose...</option>
+    {options.map(option => <option key={option} value={option}>{option}</option>)}
+  </select>
+);
+
+const Stat: React.FC<{ label: string; value: string; note?: string }> = ({ label, value, note }) => (
+  <div className="p-3 bg-gray-50 rounded-lg">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className="text-lg font-semibold text-gray-800 tabular-nums">{value}</p>
+    {note && <p className="text-xs text-gray-500">{note}</p>}
+  </div>
+);
+
+const ResultCard: React.FC<{ result: TestResult; level: number }> = ({ result, level }) => {
+  const significant = result.pValue < 1 - level;
+  return (
+    <div className="space-y-4">
+      <p className={`p-4 rounded-lg border text-sm ${significant ? 'bg-green-50 border-green-200 text-green-900' : 'bg-gray-50 border-gray-200 text-gray-800'}`}>
+        {result.conclusion}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat label={result.statisticLabel} value={formatStat(result.statistic)} note={result.degreesOfFreedom ? `df ${result.degreesOfFreedom}` : undefined} />
+        <Stat label="p-value (two-sided)" value={formatPValue(result.pValue)} note={significant ? 'significant' : 'not significant'} />
+        {result.effect && <Stat label={result.effect.label} value={formatStat(result.effect.value)} note={`${result.effect.magnitude} effect`} />}
+        {result.interval && <Stat label={result.interval.label} value={`${formatStat(result.interval.lower)} to ${formatStat(result.interval.upper)}`} />}
+      </div>
+      <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+        {result.details.map(({ label, value }) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-800 tabular-nums">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      {result.warnings.map(warning => (
+        <p key={warning} className="flex items-start text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+const HypothesisTestPanel: React.FC<HypothesisTestPanelProps> = ({ data, schema }) => {
+  const [settings, setSettings] = useState<TestSettings>(DEFAULT_TEST_SETTINGS);
+  const numericColumns = useMemo(() => getColumnsOfTypes(schema, NUMERIC_COLUMN_TYPES), [schema]);
+  const categoricalColumns = useMemo(() => getColumnsOfTypes(schema, ['categorical', 'boolean']), [schema]);
+  const inputs = TEST_INPUTS[settings.test];
+  const columnOptions = inputs.column === 'numeric' ? numericColumns : categoricalColumns;
+  const secondOptions = (inputs.second === 'numeric' ? numericColumns : categoricalColumns).filter(column => column !== settings.column);
+
+  const groupLevels = useMemo(() => (settings.groupColumn ? getGroupLevels(data, settings.groupColumn) : []), [data, settings.groupColumn]);
+  const successLevels = useMemo(() => (inputs.success && settings.column ? getGroupLevels(data, settings.column) : []), [data, inputs.success, settings.column]);
+
+  const outcome = useMemo((): { result: TestResult } | { error: string } | null => {
+    if (!isTestReady(settings)) return null;
+    try {
+      return { result: runHypothesisTest(data, settings) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [data, settings]);
+
+  const update = (changes: Partial<TestSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  // Switching between numeric and categorical tests clears columns of the wrong kind.
+  const handleTestChange = (test: HypothesisTest) => {
+    const next = TEST_INPUTS[test];
+    const keepColumn = next.column === inputs.column;
+    update({
+      test,
+      column: keepColumn ? settings.column : '',
+      secondColumn: next.second === inputs.second ? settings.secondColumn : '',
+      successValue: keepColumn ? settings.successValue : '',
+      hypothesizedValue: next.target === 'proportion' ? 0.5 : next.target === inputs.target ? settings.hypothesizedValue : 0,
+    });
+  };
+
+  const handleGroupColumnChange = (groupColumn: string) => {
+    const levels = groupColumn ? getGroupLevels(data, groupColumn) : [];
+    update({ groupColumn, groupA: levels[0] ?? '', groupB: levels[1] ?? '' });
+  };
+
+  const handleColumnChange = (column: string) => {
+    update({ column, ...(inputs.success ? { successValue: column ? getGroupLevels(data, column)[0] ?? '' : '' } : {}) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Hypothesis tests</h3>
+          <p className="text-sm text-gray-500">Tests run on the rows in view, so filters and outlier decisions apply.</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Field label="Test">
+            <select value={settings.test} onChange={e => handleTestChange(e.target.value as HypothesisTest)} className={inputClassName}>
+              {(Object.keys(HYPOTHESIS_TEST_LABELS) as HypothesisTest[]).map(test => <option key={test} value={test}>{HYPOTHESIS_TEST_LABELS[test]}</option>)}
+            </select>
+          </Field>
+          <p className="md:col-span-2 self-end text-sm text-gray-600">{HYPOTHESIS_TEST_QUESTIONS[settings.test]}</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Field label={inputs.column === 'numeric' ? 'Numeric column' : 'Categorical column'}>
+            <ColumnSelect value={settings.column} options={columnOptions} onChange={handleColumnChange} />
+          </Field>
+          {inputs.second && (
+            <Field label={inputs.second === 'numeric' ? 'Compare with column' : 'Second categorical column'}>
+              <ColumnSelect value={settings.secondColumn} options={secondOptions} onChange={secondColumn => update({ secondColumn })} />
+            </Field>
+          )}
+          {inputs.success && (
+            <Field label="Counts as success">
+              <ColumnSelect value={settings.successValue} options={successLevels} onChange={successValue => update({ successValue })} />
+            </Field>
+          )}
+          {inputs.target && (
+            <Field label={inputs.target === 'mean' ? 'Hypothesized mean' : 'Hypothesized proportion (0 to 1)'}>
+              <input
+                type="number"
+                step={inputs.target === 'mean' ? 'any' : 0.01}
+                min={inputs.target === 'proportion' ? 0 : undefined}
+                max={inputs.target === 'proportion' ? 1 : undefined}
+                value={settings.hypothesizedValue}
+                onChange={e => update({ hypothesizedValue: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </Field>
+          )}
+          {inputs.groups && (
+            <Field label="Group by">
+              <ColumnSelect value={settings.groupColumn} options={categoricalColumns.filter(column => column !== settings.column)} onChange={handleGroupColumnChange} />
+            </Field>
+          )}
+          {inputs.groups === 'pair' && settings.groupColumn && (
+            <>
+              <Field label="First group">
+                <ColumnSelect value={settings.groupA} options={groupLevels} onChange={groupA => update({ groupA })} />
+              </Field>
+              <Field label="Second group">
+                <ColumnSelect value={settings.groupB} options={groupLevels.filter(level => level !== settings.groupA)} onChange={groupB => update({ groupB })} />
+              </Field>
+            </>
+          )}
+          <Field label="Confidence level">
+            <select value={settings.confidenceLevel} onChange={e => update({ confidenceLevel: Number(e.target.value) })} className={inputClassName}>
+              {CONFIDENCE_LEVELS.map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+            </select>
+          </Field>
+        </div>
+        {columnOptions.length === 0 && (
+          <p className="text-sm text-gray-500">This test needs a {inputs.column} column, and the table has none.</p>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">{outcome && 'result' in outcome ? outcome.result.title : 'Result'}</h3>
+        {!outcome && <p className="text-sm text-gray-500">Choose the columns{inputs.groups === 'pair' ? ' and the two groups' : ''} to run the test.</p>}
+        {outcome && 'error' in outcome && <p className="text-sm text-red-600">{outcome.error}</p>}
+        {outcome && 'result' in outcome && <ResultCard result={outcome.result} level={settings.confidenceLevel} />}
+      </div>
+    </div>
+  );
+};
+
+export default HypothesisTestPanel;
@@ -1,17 +1,61 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '../types';
-import { SendHorizonal, Bot, User, LoaderCircle } from 'lucide-react';
+import type { ChatMessage, ChatQueryRun } from '../types';
+import { formatStat } from '../services/profileService';
+import { SendHorizonal, Bot, User, LoaderCircle, RefreshCw, Database } from 'lucide-react';
 
 interface InsightsPanelProps {
   insights: string;
   chatHistory: ChatMessage[];
   onChatSubmit: (message: string) => void;
+  // Set after the data has been edited, until the analysis is regenerated.
+  insightsOutdated: boolean;
+  onRefreshInsights: () => void;
 }
 
-const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, chatHistory, onChatSubmit }) => {
+// A query the assistant ran and the table it got back, so its figures can be checked.
+const QueryRunView: React.FC<{ run: ChatQueryRun }> = ({ run }) => (
+  <div className="mt-2 bg-white border border-gray-200 rounded-md text-xs text-gray-700">
+    <p className="flex items-start px-2 py-1.5 border-b border-gray-200 text-gray-600">
+      <Database className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />
+      {run.description}
+    </p>
+    {run.error && <p className="px-2 py-1.5 text-red-600">{run.error}</p>}
+    {run.result && (
+      <>
+        <div className="overflow-auto max-h-48">
+          <table className="min-w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                {run.result.columns.map(column => <th key={column} className="px-2 py-1 text-left font-medium text-gray-600 whitespace-nowrap">{column}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {run.result.rows.map((row, i) => (
+                <tr key={i}>
+                  {row.map((value, j) => (
+                    <td key={j} className={`px-2 py-1 whitespace-nowrap ${typeof value === 'number' ? 'text-right tabular-nums' : ''}`}>
+                      {typeof value === 'number' ? formatStat(value) : value ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="px-2 py-1 border-t border-gray-200 text-gray-500">
+          {run.result.rows.length < run.result.totalRows ? `First ${run.result.rows.length} of ${run.result.totalRows.toLocaleString()} results` : `${run.result.totalRows.toLocaleString()} result${run.result.totalRows === 1 ? '' : 's'}`}
+          {' '}from {run.result.matchedRows.toLocaleString()} matching rows
+        </p>
+      </>
+    )}
+  </div>
+);
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, chatHistory, onChatSubmit, insightsOutdated, onRefreshInsights }) => {
   const [userInput, setUserInput] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -29,6 +73,12 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, chatHistory, on
     setUserInput('');
     setIsSending(false);
   };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await onRefreshInsights();
+    setIsRefreshing(false);
+  };
   
   // The first message from the model is the initial insight, we check if there are more messages to determine if it's a chat
   const isChatStarted = chatHistory.length > 1;
@@ -37,6 +87,15 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, chatHistory, on
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
       <div className="md:col-span-1 bg-white p-6 rounded-lg shadow-md border border-gray-200">
         <h3 className="text-lg font-semibold text-gray-800 mb-4">Initial AI Analysis</h3>
+        {insightsOutdated && (
+          <div className="mb-4 bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-lg text-sm">
+            <p>The data or its outlier handling has changed since this analysis was written.</p>
+            <button onClick={handleRefresh} disabled={isRefreshing} className="mt-1 flex items-center font-medium text-amber-900 hover:underline disabled:opacity-50">
+              {isRefreshing ? <LoaderCircle className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+              Refresh analysis
+            </button>
+          </div>
+        )}
         <div className="prose prose-sm text-gray-600 max-w-none">
           {insights.split('\n').map((line, index) => {
               if (line.startsWith('**') && line.endsWith('**')) {
@@ -59,8 +118,9 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, chatHistory, on
           {chatHistory.map((msg, index) => (
             <div key={index} className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
               {msg.role === 'model' && <span className="flex-shrink-0 flex items-center justify-center h-8 w-8 rounded-full bg-primary-100 text-primary-600"><Bot size={20}/></span>}
-              <div className={`px-4 py-2 rounded-lg max-w-md ${msg.role === 'user' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+              <div className={`px-4 py-2 rounded-lg min-w-0 ${msg.queries ? 'max-w-xl' : 'max-w-md'} ${msg.role === 'user' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
                 <p className="text-sm">{msg.parts[0].text}</p>
+                {msg.queries?.map((run, i) => <QueryRunView key={i} run={run} />)}
               </div>
               {msg.role === 'user' && <span className="flex-shrink-0 flex items-center justify-center h-8 w-8 rounded-full bg-gray-200 text-gray-600"><User size={20}/></span>}
             </div>
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ScatterChart, Scatter, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import type { TableRow, ColumnSchema, ChartConfig, ForecastMethod, TimePeriod } from '../types';
+import { fitRegression, describeRegression, REGRESSION_CONFIDENCE, type RegressionModel } from '../services/regressionService';
+import { FORECAST_METHOD_LABELS, createForecastConfig } from '../services/forecastService';
+import { getColumnsOfTypes, NUMERIC_COLUMN_TYPES, TEMPORAL_COLUMN_TYPES } from '../services/schemaService';
+import { DEFAULT_CHART_CONFIG, MAX_SCATTER_POINTS } from '../services/chartService';
+import { TIME_PERIOD_LABELS } from '../services/dateService';
+import { sampleEvenly } from '../services/statsService';
+import { formatPValue } from '../services/hypothesisService';
+import { formatStat } from '../services/profileService';
+import { ArrowRight } from 'lucide-react';
+
+interface ModelPanelProps {
+  data: TableRow[];
+  schema: ColumnSchema[];
+  // Opens a chart in the Visualization tab.
+  onOpenChart: (config: ChartConfig) => void;
+}
+
+const RESIDUAL_BINS = 20;
+
+const inputClassName = "w-full text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+const binResiduals = (residuals: number[]) => {
+  // A loop rather than Math.min(...residuals), which overflows the stack on large tables.
+  let min = Infinity;
+  let max = -Infinity;
+  residuals.forEach(e => {
+    if (e < min) min = e;
+    if (e > max) max = e;
+  });
+  const width = (max - min) / RESIDUAL_BINS || 1;
+  const bins = Array.from({ length: RESIDUAL_BINS }, (_, i) => ({ range: formatStat(min + (i + 0.5) * width), count: 0 }));
+  residuals.forEach(e => {
+    bins[Math.min(RESIDUAL_BINS - 1, Math.floor((e - min) / width))].count++;
+  });
+  return bins;
+};
+
+const ResidualPlots: React.FC<{ model: RegressionModel }> = ({ model }) => {
+  const points = useMemo(
+    () => sampleEvenly(model.fitted.map((fitted, i) => ({ fitted, residual: model.residuals[i] })), MAX_SCATTER_POINTS),
+    [model],
+  );
+  const bins = useMemo(() => binResiduals(model.residuals), [model]);
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-1">Residuals vs fitted</h4>
+        <p className="text-xs text-gray-500 mb-2">Points should scatter evenly around zero; curves or funnels suggest a missing term or uneven spread.</p>
+        <ResponsiveContainer width="100%" height={280}>
+          <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="fitted" type="number" name="Fitted" domain={['auto', 'auto']} tickFormatter={(v: number) => formatStat(v)} />
+            <YAxis dataKey="residual" type="number" name="Residual" domain={['auto', 'auto']} tickFormatter={(v: number) => formatStat(v)} />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <ReferenceLine y={0} stroke="#111827" strokeDasharray="6 3" />
+            <Scatter data={points} fill="#3b82f6" fillOpacity={0.6} isAnimationActive={false} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-1">Distribution of residuals</h4>
+        <p className="text-xs text-gray-500 mb-2">Roughly bell-shaped and centred on zero when the model's p-values and intervals can be trusted.</p>
+        <ResponsiveContainer width="100%" height={280}>
+          <BarChart data={bins} margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="range" interval="preserveStartEnd" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Bar dataKey="count" name="Rows" fill="#3b82f6" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+const ModelPanel: React.FC<ModelPanelProps> = ({ data, schema, onOpenChart }) => {
+  const numericColumns = useMemo(() => getColumnsOfTypes(schema, NUMERIC_COLUMN_TYPES), [schema]);
+  const predictorColumns = useMemo(() => getColumnsOfTypes(schema, [...NUMERIC_COLUMN_TYPES, 'categorical', 'boolean']), [schema]);
+  const dateColumns = useMemo(() => getColumnsOfTypes(schema, TEMPORAL_COLUMN_TYPES), [schema]);
+
+  const [target, setTarget] = useState(numericColumns[0] ?? '');
+  const [predictors, setPredictors] = useState<string[]>([]);
+  const [dateColumn, setDateColumn] = useState(dateColumns[0] ?? '');
+  const [valueColumn, setValueColumn] = useState(numericColumns[0] ?? '');
+  const [period, setPeriod] = useState<TimePeriod>('month');
+  const [method, setMethod] = useState<ForecastMethod>('holt');
+
+  const activePredictors = useMemo(
+    () => predictors.filter(name => name !== target && predictorColumns.includes(name)),
+    [predictors, target, predictorColumns],
+  );
+  const outcome = useMemo((): { model: RegressionModel } | { error: string } | null => {
+    if (!target || activePredictors.length === 0) return null;
+    try {
+      return { model: fitRegression(data, schema, target, activePredictors) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [data, schema, target, activePredictors]);
+
+  const togglePredictor = (name: string) =>
+    setPredictors(prev => (prev.includes(name) ? prev.filter(p => p !== name) : [...prev, name]));
+
+  const handleOpenForecast = () => onOpenChart({
+    ...DEFAULT_CHART_CONFIG,
+    chartType: 'line',
+    xAxisKey: dateColumn,
+    yAxisKey: valueColumn,
+    period,
+    forecast: { ...createForecastConfig(period), method },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Regression</h3>
+          <p className="text-sm text-gray-500">
+            Fits a linear model by least squares on the rows in view. Categorical predictors are one-hot encoded against their most frequent value.
+          </p>
+        </div>
+        {numericColumns.length === 0 ? (
+          <p className="text-sm text-gray-500">There are no numeric columns to predict.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Predict</span>
+              <select value={target} onChange={e => setTarget(e.target.value)} className={inputClassName}>
+                {numericColumns.map(column => <option key={column} value={column}>{column}</option>)}
+              </select>
+            </label>
+            <div className="md:col-span-2">
+              <span className="block text-sm font-medium text-gray-700 mb-1">From</span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {predictorColumns.filter(column => column !== target).map(column => (
+                  <label key={column} className="flex items-center">
+                    <input type="checkbox" checked={predictors.includes(column)} onChange={() => togglePredictor(column)} className="mr-1.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                    {column}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {!outcome && numericColumns.length > 0 && <p className="text-sm text-gray-500">Tick one predictor for a simple regression, or several for a multiple regression.</p>}
+        {outcome && 'error' in outcome && <p className="text-sm text-red-600">{outcome.error}</p>}
+        {outcome && 'model' in outcome && (
+          <div className="space-y-6">
+            <p className="p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-800">{describeRegression(outcome.model)}</p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              {[
+                ['R²', formatStat(outcome.model.r2)],
+                ['Adjusted R²', formatStat(outcome.model.adjustedR2)],
+                ['Residual std error', formatStat(outcome.model.sigma)],
+                ['F-test p-value', Number.isNaN(outcome.model.fPValue) ? 'n/a' : formatPValue(outcome.model.fPValue)],
+                ['Rows used', outcome.model.n.toLocaleString()],
+              ].map(([label, value]) => (
+                <div key={label} className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">{label}</p>
+                  <p className="text-lg font-semibold text-gray-800 tabular-nums">{value}</p>
+                </div>
+              ))}
+            </div>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Term</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">Coefficient</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">Std error</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">t</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">p-value</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">{Math.round(REGRESSION_CONFIDENCE * 100)}% CI</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {outcome.model.coefficients.map(c => (
+                    <tr key={c.term} className={c.pValue < 1 - REGRESSION_CONFIDENCE ? '' : 'text-gray-500'}>
+                      <td className="px-3 py-1.5">{c.term}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{formatStat(c.estimate)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{formatStat(c.standardError)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{formatStat(c.t)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{formatPValue(c.pValue)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{formatStat(c.lower)} to {formatStat(c.upper)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {Object.keys(outcome.model.referenceLevels).length > 0 && (
+              <p className="text-xs text-gray-500">
+                Compared with: {Object.entries(outcome.model.referenceLevels).map(([column, level]) => `${column} = ${level}`).join(', ')}.
+              </p>
+            )}
+            <ResidualPlots model={outcome.model} />
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Forecast</h3>
+          <p className="text-sm text-gray-500">Opens a line chart of a numeric column by date with the forecast and its prediction band. Adjust the settings there.</p>
+        </div>
+        {dateColumns.length === 0 || numericColumns.length === 0 ? (
+          <p className="text-sm text-gray-500">Forecasting needs a date column and a numeric column.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Date</span>
+              <select value={dateColumn} onChange={e => setDateColumn(e.target.value)} className={inputClassName}>
+                {dateColumns.map(column => <option key={column} value={column}>{column}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Value (summed per period)</span>
+              <select value={valueColumn} onChange={e => setValueColumn(e.target.value)} className={inputClassName}>
+                {numericColumns.map(column => <option key={column} value={column}>{column}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Period</span>
+              <select value={period} onChange={e => setPeriod(e.target.value as TimePeriod)} className={inputClassName}>
+                {(Object.keys(TIME_PERIOD_LABELS) as Array<TimePeriod | 'none'>).filter((p): p is TimePeriod => p !== 'none').map(p => <option key={p} value={p}>{TIME_PERIOD_LABELS[p]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Method</span>
+              <select value={method} onChange={e => setMethod(e.target.value as ForecastMethod)} className={inputClassName}>
+                {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(m => <option key={m} value={m}>{FORECAST_METHOD_LABELS[m]}</option>)}
+              </select>
+            </label>
+            <button onClick={handleOpenForecast} className="flex items-center justify-center px-4 py-2 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700">
+              Open Forecast <ArrowRight className="w-4 h-4 ml-1" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModelPanel;
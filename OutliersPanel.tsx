@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import type { TableRow, ColumnSchema, OutlierAction, OutlierMethod, OutlierRule } from '../types';
+import {
+  OUTLIER_METHOD_LABELS, OUTLIER_THRESHOLD_LABELS, OUTLIER_ACTION_LABELS, DEFAULT_OUTLIER_THRESHOLDS, DEFAULT_ROLLING_WINDOW,
+  createOutlierRule, detectOutliers, describeOutlierRule, getOrderColumns, type RuleDetection,
+} from '../services/outlierService';
+import { getColumnsOfTypes, NUMERIC_COLUMN_TYPES } from '../services/schemaService';
+import { formatStat } from '../services/profileService';
+import { Trash2 } from 'lucide-react';
+
+interface OutliersPanelProps {
+  // All cleaned rows; detection ignores filters.
+  data: TableRow[];
+  schema: ColumnSchema[];
+  rules: OutlierRule[];
+  detections: RuleDetection[];
+  onRulesChange: (rules: OutlierRule[]) => void;
+}
+
+// Flagged values listed for the column under review, furthest from the fence first.
+const MAX_LISTED_OUTLIERS = 25;
+
+const inputClassName = "text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+const OutliersPanel: React.FC<OutliersPanelProps> = ({ data, schema, rules, detections, onRulesChange }) => {
+  const numericColumns = useMemo(() => getColumnsOfTypes(schema, NUMERIC_COLUMN_TYPES), [schema]);
+  const orderColumns = useMemo(() => getOrderColumns(schema), [schema]);
+  const [method, setMethod] = useState<OutlierMethod>('iqr');
+  const [threshold, setThreshold] = useState(DEFAULT_OUTLIER_THRESHOLDS.iqr);
+  const [orderBy, setOrderBy] = useState(() => orderColumns.find(column => column.type === 'date' || column.type === 'datetime')?.name ?? '');
+  const [windowSize, setWindowSize] = useState(DEFAULT_ROLLING_WINDOW);
+  const [selectedColumn, setSelectedColumn] = useState(numericColumns[0] ?? '');
+  const [action, setAction] = useState<OutlierAction>('keep');
+
+  const draftRule = (column: string): OutlierRule => ({
+    ...createOutlierRule(column, method),
+    threshold,
+    ...(method === 'rolling' ? { orderBy, window: windowSize } : {}),
+    action,
+  });
+  const canDetect = threshold > 0 && (method !== 'rolling' || (!!orderBy && windowSize >= 2));
+
+  // Every numeric column checked with the current settings.
+  const scan = useMemo(
+    () => (canDetect ? numericColumns.map(column => ({ column, detection: detectOutliers(data, schema, { ...createOutlierRule(column, method), threshold, orderBy, window: windowSize }) })) : []),
+    [canDetect, numericColumns, data, schema, method, threshold, orderBy, windowSize],
+  );
+  const review = scan.find(({ column }) => column === selectedColumn)?.detection ?? null;
+  const listed = useMemo(() => {
+    if (!review) return [];
+    return [...review.rows]
+      .map(([position, fence]) => ({ position, value: data[position][selectedColumn] as number, fence }))
+      .sort((a, b) => Math.abs(b.value - b.fence) - Math.abs(a.value - a.fence))
+      .slice(0, MAX_LISTED_OUTLIERS);
+  }, [review, data, selectedColumn]);
+
+  const existingRule = rules.find(rule => rule.column === selectedColumn);
+
+  const handleMethodChange = (next: OutlierMethod) => {
+    setMethod(next);
+    setThreshold(DEFAULT_OUTLIER_THRESHOLDS[next]);
+  };
+
+  // One decision per column: recording replaces the column's earlier decision.
+  const handleRecord = () => {
+    if (!canDetect || !selectedColumn) return;
+    onRulesChange([...rules.filter(rule => rule.column !== selectedColumn), draftRule(selectedColumn)]);
+  };
+
+  const updateRule = (id: string, changes: Partial<OutlierRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  if (numericColumns.length === 0) {
+    return <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 text-gray-500">There are no numeric columns to check for outliers.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Find outliers</h3>
+          <p className="text-sm text-gray-500">Checks all cleaned rows, whatever the filters. Pick a column to review what was flagged and decide what to do with it.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select value={method} onChange={e => handleMethodChange(e.target.value as OutlierMethod)} className={`${inputClassName} py-1`}>
+            {(Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[]).map(option => <option key={option} value={option}>{OUTLIER_METHOD_LABELS[option]}</option>)}
+          </select>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={threshold}
+            onChange={e => setThreshold(Number(e.target.value))}
+            className={`${inputClassName} py-1 w-20`}
+          />
+          <span className="text-gray-500">{OUTLIER_THRESHOLD_LABELS[method]}</span>
+          {method === 'rolling' && (
+            <>
+              <span className="text-gray-500">over</span>
+              <input type="number" min={2} value={windowSize} onChange={e => setWindowSize(Math.round(Number(e.target.value)))} className={`${inputClassName} py-1 w-16`} />
+              <span className="text-gray-500">values, in order of</span>
+              <select value={orderBy} onChange={e => setOrderBy(e.target.value)} className={`${inputClassName} py-1`}>
+                <option value="">Choose a column...</option>
+                {orderColumns.map(column => <option key={column.name} value={column.name}>{column.name}</option>)}
+              </select>
+            </>
+          )}
+        </div>
+        {!canDetect && <p className="text-sm text-red-600">{method === 'rolling' && !orderBy ? 'Choose a date or number column to order the rows by.' : 'Enter a threshold above zero.'}</p>}
+
+        {scan.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">Column</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">Outliers</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">Lower fence</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">Upper fence</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">Decision</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {scan.map(({ column, detection }) => {
+                  const rule = rules.find(r => r.column === column);
+                  return (
+                    <tr
+                      key={column}
+                      onClick={() => setSelectedColumn(column)}
+                      className={`cursor-pointer ${column === selectedColumn ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <td className="px-3 py-1.5 text-gray-800">{column}</td>
+                      <td className={`px-3 py-1.5 text-right tabular-nums ${detection.rows.size > 0 ? 'text-orange-700 font-medium' : 'text-gray-500'}`}>
+                        {detection.rows.size.toLocaleString()} <span className="text-gray-400 font-normal">of {detection.checked.toLocaleString()}</span>
+                      </td>
+                      <td className="px-3 py-1.5 text-right tabular-nums text-gray-600">{detection.lower === null ? '—' : formatStat(detection.lower)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums text-gray-600">{detection.upper === null ? '—' : formatStat(detection.upper)}</td>
+                      <td className="px-3 py-1.5 text-gray-500">{rule ? OUTLIER_ACTION_LABELS[rule.action] : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {review && selectedColumn && (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+            <h4 className="font-medium text-gray-800">{selectedColumn}: {review.rows.size} outlier{review.rows.size === 1 ? '' : 's'}</h4>
+            {listed.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {listed.map(({ position, value, fence }) => (
+                  <span key={position} className="px-2 py-0.5 text-xs bg-white border border-orange-200 rounded text-gray-700" title={`Would be capped to ${formatStat(fence)}`}>
+                    Row {position + 1}: <span className="font-medium">{formatStat(value)}</span>
+                  </span>
+                ))}
+                {review.rows.size > listed.length && <span className="text-xs text-gray-500 self-center">and {review.rows.size - listed.length} more</span>}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {(Object.keys(OUTLIER_ACTION_LABELS) as OutlierAction[]).map(option => (
+                <label key={option} className="flex items-center">
+                  <input type="radio" checked={action === option} onChange={() => setAction(option)} className="mr-1.5 text-primary-600 focus:ring-primary-500" />
+                  {OUTLIER_ACTION_LABELS[option]}
+                </label>
+              ))}
+              <button onClick={handleRecord} className="ml-auto px-3 py-1.5 text-sm bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700">
+                {existingRule ? 'Replace Decision' : 'Record Decision'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Excluded rows and capped values apply to the profile, charts, pivot and AI analysis. The data table keeps the original values and shades the outliers.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">Recorded decisions</h3>
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No decisions yet; outliers flow into every analysis unchanged.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {rules.map(rule => {
+              const detection = detections.find(d => d.rule.id === rule.id)?.detection;
+              return (
+                <li key={rule.id} className="py-2 flex flex-wrap items-center gap-3 text-sm">
+                  <span className="flex-1 min-w-0 text-gray-700">
+                    {describeOutlierRule(rule)}
+                    <span className="ml-2 text-gray-500">
+                      {detection ? `${detection.rows.size} outlier${detection.rows.size === 1 ? '' : 's'}` : 'column no longer available'}
+                    </span>
+                  </span>
+                  <select value={rule.action} onChange={e => updateRule(rule.id, { action: e.target.value as OutlierAction })} className={`${inputClassName} py-1`}>
+                    {(Object.keys(OUTLIER_ACTION_LABELS) as OutlierAction[]).map(option => <option key={option} value={option}>{OUTLIER_ACTION_LABELS[option]}</option>)}
+                  </select>
+                  <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} title="Remove decision" className="p-1 text-gray-400 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutliersPanel;
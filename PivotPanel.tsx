@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import type { ColumnSchema, PivotAggregation, PivotConfig, PivotValue } from '../types';
+import {
+  MAX_PIVOT_COLUMNS, MAX_PIVOT_ROWS, PIVOT_AGGREGATION_LABELS, createPivotValue, getEntryLabel, getPivotAggregations, getPivotCell,
+  getPivotValueLabel, pivotToRows, type PivotResult,
+} from '../services/pivotService';
+import { exportDataAsCSV } from '../utils/export';
+import { BarChart, Download, GripVertical, X } from 'lucide-react';
+
+interface PivotPanelProps {
+  schema: ColumnSchema[];
+  config: PivotConfig;
+  onConfigChange: (config: PivotConfig) => void;
+  // Null until at least one value field is chosen.
+  result: PivotResult | null;
+  fileName: string;
+  onChartPivot: () => void;
+}
+
+type Zone = 'fields' | 'rows' | 'columns' | 'values';
+
+// What is being dragged: a column from the field list or a zone, or a value field by index.
+interface DragItem {
+  from: Zone;
+  column: string;
+  valueIndex?: number;
+}
+
+const selectClassName = "text-xs py-0.5 border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500";
+
+const formatCell = (value: number | null, percent: boolean) => {
+  if (value === null) return '';
+  const text = value.toLocaleString(undefined, { maximumFractionDigits: percent ? 1 : 2 });
+  return percent ? `${text}%` : text;
+};
+
+interface PivotZoneProps {
+  title: string;
+  hint?: string;
+  // Columns offered in the zone's Add menu.
+  options?: string[];
+  onDropItem: (item: DragItem) => void;
+  children: React.ReactNode;
+}
+
+// A drop target for fields, with a select as a keyboard-friendly way to add one.
+const PivotZone: React.FC<PivotZoneProps> = ({ title, hint, options, onDropItem, children }) => {
+  const [isOver, setIsOver] = useState(false);
+  return (
+    <div
+      onDragOver={e => {
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={e => {
+        e.preventDefault();
+        setIsOver(false);
+        const item = JSON.parse(e.dataTransfer.getData('application/json') || 'null') as DragItem | null;
+        if (item) onDropItem(item);
+      }}
+      className={`p-3 rounded-lg border-2 border-dashed min-h-[96px] ${isOver ? 'border-primary-400 bg-primary-50' : 'border-gray-200 bg-gray-50'}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700">{title}</h4>
+        {options && (
+          <select
+            value=""
+            onChange={e => e.target.value && onDropItem({ from: 'fields', column: e.target.value })}
+            className={selectClassName}
+            aria-label={`Add a field to ${title}`}
+          >
+            <option value="">Add...</option>
+            {options.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="space-y-1">{children}</div>
+      {hint && React.Children.count(children) === 0 && <p className="text-xs text-gray-400">{hint}</p>}
+    </div>
+  );
+};
+
+const PivotPanel: React.FC<PivotPanelProps> = ({ schema, config, onConfigChange, result, fileName, onChartPivot }) => {
+  const { rows, columns, values, sort } = config;
+  const used = new Set([...rows, ...columns]);
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.setData('application/json', JSON.stringify(item));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Moving a field takes it out of where it came from; dropping on the field list just removes it.
+  const removeFrom = (next: PivotConfig, item: DragItem): PivotConfig => {
+    switch (item.from) {
+      case 'rows':
+        return { ...next, rows: next.rows.filter(name => name !== item.column) };
+      case 'columns':
+        return { ...next, columns: next.columns.filter(name => name !== item.column) };
+      case 'values':
+        return { ...next, values: next.values.filter((_, i) => i !== item.valueIndex), sort: { valueIndex: null, direction: next.sort.direction } };
+      default:
+        return next;
+    }
+  };
+
+  const dropOn = (zone: Zone) => (item: DragItem) => {
+    if (zone === item.from && zone !== 'values') return;
+    let next = removeFrom(config, item);
+    if (zone === 'rows' || zone === 'columns') {
+      const other = zone === 'rows' ? 'columns' : 'rows';
+      // A field is either a row or a column, never both.
+      next = { ...next, [other]: next[other].filter(name => name !== item.column), [zone]: [...next[zone].filter(name => name !== item.column), item.column] };
+    } else if (zone === 'values') {
+      if (item.from === 'values') return;
+      const column = schema.find(c => c.name === item.column);
+      if (column) next = { ...next, values: [...next.values, createPivotValue(column)] };
+    }
+    onConfigChange(next);
+  };
+
+  const updateValue = (index: number, changes: Partial<PivotValue>) => {
+    onConfigChange({ ...config, values: values.map((value, i) => (i === index ? { ...value, ...changes } : value)) });
+  };
+
+  const handleSortChange = (option: string) => {
+    const [by, direction] = option.split(':');
+    onConfigChange({
+      ...config,
+      sort: { valueIndex: by === 'label' ? null : Number(by), direction: direction === 'desc' ? 'descending' : 'ascending' },
+    });
+  };
+
+  const fieldChip = (name: string, from: Zone, onRemove?: () => void) => (
+    <div
+      key={`${from}-${name}`}
+      draggable
+      onDragStart={e => startDrag(e, { from, column: name })}
+      className="flex items-center justify-between bg-white border border-gray-200 rounded-md px-2 py-1 text-sm text-gray-700 cursor-grab"
+    >
+      <span className="flex items-center min-w-0">
+        <GripVertical className="w-3.5 h-3.5 mr-1 text-gray-300 flex-shrink-0" />
+        <span className="truncate" title={name}>{name}</span>
+      </span>
+      {onRemove && (
+        <button onClick={onRemove} title="Remove" className="ml-1 text-gray-400 hover:text-red-600">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+
+  const shownRows = result ? result.rows.slice(0, MAX_PIVOT_ROWS) : [];
+  const shownColumns = result ? result.columns.slice(0, MAX_PIVOT_COLUMNS) : [];
+  const rowHeaders = rows.length > 0 ? rows : [''];
+  const columnLevels = Math.max(columns.length, 1);
+  const sortValue = `${sort.valueIndex === null ? 'label' : sort.valueIndex}:${sort.direction === 'descending' ? 'desc' : 'asc'}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Pivot Table</h3>
+        <p className="text-sm text-gray-500 mb-4">Drag columns into rows, columns and values, or use the Add menus.</p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <PivotZone title="Fields" onDropItem={item => onConfigChange(removeFrom(config, item))}>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {schema.filter(column => !used.has(column.name)).map(column => fieldChip(column.name, 'fields'))}
+            </div>
+          </PivotZone>
+          <PivotZone title="Rows" hint="Group rows by these columns" options={schema.map(c => c.name).filter(name => !rows.includes(name))} onDropItem={dropOn('rows')}>
+            {rows.map(name => fieldChip(name, 'rows', () => onConfigChange(removeFrom(config, { from: 'rows', column: name }))))}
+          </PivotZone>
+          <PivotZone title="Columns" hint="Spread these values across columns" options={schema.map(c => c.name).filter(name => !columns.includes(name))} onDropItem={dropOn('columns')}>
+            {columns.map(name => fieldChip(name, 'columns', () => onConfigChange(removeFrom(config, { from: 'columns', column: name }))))}
+          </PivotZone>
+          <PivotZone title="Values" hint="Columns to aggregate" options={schema.map(c => c.name)} onDropItem={dropOn('values')}>
+            {values.map((value, index) => (
+              <div
+                key={value.id}
+                draggable
+                onDragStart={e => startDrag(e, { from: 'values', column: value.column, valueIndex: index })}
+                className="bg-white border border-gray-200 rounded-md px-2 py-1 text-sm text-gray-700 cursor-grab"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center min-w-0">
+                    <GripVertical className="w-3.5 h-3.5 mr-1 text-gray-300 flex-shrink-0" />
+                    <span className="truncate" title={value.column}>{value.column}</span>
+                  </span>
+                  <button onClick={() => onConfigChange(removeFrom(config, { from: 'values', column: value.column, valueIndex: index }))} title="Remove" className="ml-1 text-gray-400 hover:text-red-600">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between mt-1">
+                  <select value={value.aggregation} onChange={e => updateValue(index, { aggregation: e.target.value as PivotAggregation })} className={selectClassName}>
+                    {getPivotAggregations(schema.find(c => c.name === value.column)?.type).map(fn => (
+                      <option key={fn} value={fn}>{PIVOT_AGGREGATION_LABELS[fn]}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center text-xs text-gray-600">
+                    <input type="checkbox" checked={value.percentOfTotal} onChange={e => updateValue(index, { percentOfTotal: e.target.checked })} className="h-3.5 w-3.5 mr-1 text-primary-600 border-gray-300 rounded" />
+                    % of total
+                  </label>
+                </div>
+              </div>
+            ))}
+          </PivotZone>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        {!result ? (
+          <p className="text-center text-gray-500">Add at least one value to build the pivot table.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <label htmlFor="pivotSort">Sort rows by</label>
+                <select id="pivotSort" value={sortValue} onChange={e => handleSortChange(e.target.value)} className="py-1 text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500">
+                  <option value="label:asc">Label A → Z</option>
+                  <option value="label:desc">Label Z → A</option>
+                  {values.map((value, i) => (
+                    <React.Fragment key={value.id}>
+                      <option value={`${i}:desc`}>{getPivotValueLabel(value)}, largest first</option>
+                      <option value={`${i}:asc`}>{getPivotValueLabel(value)}, smallest first</option>
+                    </React.Fragment>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button onClick={onChartPivot} disabled={rows.length === 0 && columns.length === 0} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50">
+                  <BarChart className="w-4 h-4 mr-2" /> Chart this pivot
+                </button>
+                <button onClick={() => exportDataAsCSV(pivotToRows(result), fileName, 'pivot')} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors">
+                  <Download className="w-4 h-4 mr-2" /> Export CSV
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-auto border border-gray-200 rounded-lg" style={{ maxHeight: 600 }}>
+              <table className="min-w-full text-sm border-separate border-spacing-0">
+                <thead className="bg-gray-50 sticky top-0">
+                  {Array.from({ length: columnLevels }, (_, level) => (
+                    <tr key={level}>
+                      {rowHeaders.map((field, i) => (
+                        <th key={i} className="px-3 py-2 text-left text-xs font-medium text-gray-500 border-b border-gray-200">
+                          {level === columnLevels - 1 && values.length === 1 ? field : ''}
+                        </th>
+                      ))}
+                      {shownColumns.map(column => (
+                        <th
+                          key={column.key.join('\u0000') + column.kind}
+                          colSpan={values.length}
+                          className={`px-3 py-2 text-right text-xs font-medium border-b border-gray-200 whitespace-nowrap ${column.kind === 'item' ? 'text-gray-700' : 'text-gray-900 font-semibold'}`}
+                        >
+                          {columns.length === 0 && values.length === 1 ? getPivotValueLabel(values[0]) : getEntryLabel(column, level)}
+                        </th>
+                      ))}
+                    </tr>
+                  ))}
+                  {values.length > 1 && (
+                    <tr>
+                      {rowHeaders.map((field, i) => (
+                        <th key={i} className="px-3 py-2 text-left text-xs font-medium text-gray-500 border-b border-gray-200">{field}</th>
+                      ))}
+                      {shownColumns.flatMap(column => values.map(value => (
+                        <th key={`${column.key.join('\u0000')}${column.kind}-${value.id}`} className="px-3 py-2 text-right text-xs font-normal text-gray-500 border-b border-gray-200 whitespace-nowrap">
+                          {getPivotValueLabel(value)}
+                        </th>
+                      )))}
+                    </tr>
+                  )}
+                </thead>
+                <tbody>
+                  {shownRows.map(entry => (
+                    <tr key={entry.key.join('\u0000') + entry.kind} className={entry.kind === 'item' ? 'hover:bg-gray-50' : 'bg-gray-50 font-semibold'}>
+                      {rowHeaders.map((_, level) => (
+                        <td key={level} className="px-3 py-1.5 border-b border-gray-100 text-gray-700 whitespace-nowrap">{getEntryLabel(entry, level)}</td>
+                      ))}
+                      {shownColumns.flatMap(column => values.map((value, i) => (
+                        <td key={`${column.key.join('\u0000')}${column.kind}-${value.id}`} className={`px-3 py-1.5 border-b border-gray-100 text-right tabular-nums ${column.kind === 'item' ? '' : 'font-semibold'}`}>
+                          {formatCell(getPivotCell(result, entry.key, column.key, i), value.percentOfTotal)}
+                        </td>
+                      )))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {(result.rows.length > shownRows.length || result.columns.length > shownColumns.length) && (
+              <p className="mt-2 text-xs text-gray-500">
+                Showing the first {shownRows.length.toLocaleString()} of {result.rows.length.toLocaleString()} rows and {shownColumns.length} of {result.columns.length} columns. The export includes everything.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PivotPanel;
@@ -0,0 +1,133 @@
+import React from 'react';
+import type { ColumnStat, TableProfile } from '../types';
+import { COLUMN_TYPE_LABELS } from '../services/schemaService';
+import { formatStat } from '../services/profileService';
+
+interface ProfilePanelProps {
+  profile: TableProfile;
+}
+
+const SPARKLINE_WIDTH = 200;
+const SPARKLINE_HEIGHT = 40;
+
+const Sparkline: React.FC<{ counts: number[] }> = ({ counts }) => {
+  const max = Math.max(...counts, 1);
+  const barWidth = SPARKLINE_WIDTH / Math.max(counts.length, 1);
+  return (
+    <svg viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`} preserveAspectRatio="none" className="w-full h-10" aria-hidden="true">
+      {counts.map((count, i) => {
+        const height = count === 0 ? 0 : Math.max(1, (count / max) * SPARKLINE_HEIGHT);
+        return <rect key={i} x={i * barWidth + 0.5} y={SPARKLINE_HEIGHT - height} width={Math.max(barWidth - 1, 0.5)} height={height} className="fill-primary-400" />;
+      })}
+    </svg>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <>
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="text-right text-gray-800 font-medium tabular-nums">{typeof value === 'number' ? formatStat(value) : value}</dd>
+  </>
+);
+
+const sparklineCaption = (column: ColumnStat): [string, string] | null => {
+  if (column.numeric) return [formatStat(column.numeric.min), formatStat(column.numeric.max)];
+  if (column.dateRange) return [column.dateRange.min, column.dateRange.max];
+  if (column.histogram.length > 0) return [`Top ${column.histogram.length} values`, ''];
+  return null;
+};
+
+const ColumnCard: React.FC<{ column: ColumnStat; rowCount: number }> = ({ column, rowCount }) => {
+  const { name, type, formula, missing, distinct, numeric, textLength, topValues, sampleValues, histogram } = column;
+  const missingShare = rowCount === 0 ? 0 : missing / rowCount;
+  const caption = sparklineCaption(column);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-col">
+      <div className="flex items-start justify-between gap-2">
+        <h4 className="font-semibold text-gray-800 break-all">{name}</h4>
+        <span className="flex-shrink-0 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">{COLUMN_TYPE_LABELS[type]}</span>
+      </div>
+      {formula && <p className="mt-0.5 text-xs font-mono text-gray-500 truncate" title={formula}>= {formula}</p>}
+
+      <div className="mt-2 text-xs text-gray-500">
+        <div className="flex justify-between">
+          <span>{missing.toLocaleString()} missing ({(missingShare * 100).toFixed(1)}%)</span>
+          <span>{distinct.toLocaleString()} distinct</span>
+        </div>
+        <div className="mt-1 h-1.5 bg-green-200 rounded-full overflow-hidden" title="Share of rows with a value">
+          <div className="h-full bg-red-400" style={{ width: `${missingShare * 100}%` }} />
+        </div>
+      </div>
+
+      {histogram.length > 0 && (
+        <div className="mt-3">
+          <Sparkline counts={histogram} />
+          {caption && (
+            <div className="flex justify-between text-xs text-gray-400">
+              <span>{caption[0]}</span>
+              <span>{caption[1]}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <dl className="mt-3 grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs">
+        {numeric && (
+          <>
+            <Stat label="Mean" value={numeric.mean} />
+            <Stat label="Std dev" value={numeric.stdDev} />
+            <Stat label="Variance" value={numeric.variance} />
+            <Stat label="Median" value={numeric.median} />
+            <Stat label="Q1 / Q3" value={`${formatStat(numeric.q1)} / ${formatStat(numeric.q3)}`} />
+            <Stat label="IQR" value={numeric.iqr} />
+            <Stat label="Skewness" value={formatStat(numeric.skewness)} />
+            <Stat label="Excess kurtosis" value={formatStat(numeric.kurtosis)} />
+            <Stat label="Zeros" value={numeric.zeros} />
+            <Stat label="Negatives" value={numeric.negatives} />
+          </>
+        )}
+        {textLength && (
+          <>
+            <Stat label="Length" value={`${textLength.min}–${textLength.max}`} />
+            <Stat label="Mean length" value={textLength.mean} />
+          </>
+        )}
+      </dl>
+
+      {!numeric && topValues.length > 0 && (
+        <ul className="mt-3 space-y-0.5 text-xs">
+          {topValues.map(({ value, count }) => (
+            <li key={value} className="flex justify-between gap-2">
+              <span className="text-gray-700 truncate" title={value}>{value}</span>
+              <span className="text-gray-400 tabular-nums">{count.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {sampleValues.length > 0 && (
+        <p className="mt-auto pt-3 text-xs text-gray-500 truncate" title={sampleValues.join(', ')}>
+          e.g. <span className="font-mono text-gray-700">{sampleValues.join(', ')}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profile }) => {
+  if (profile.columns.length === 0) {
+    return <p className="text-sm text-gray-500">There are no columns to profile.</p>;
+  }
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        {profile.rowCount.toLocaleString()} rows, {profile.columns.length} columns. Sparklines show how values are spread, or how often the most frequent values occur.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {profile.columns.map(column => <ColumnCard key={column.name} column={column} rowCount={profile.rowCount} />)}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
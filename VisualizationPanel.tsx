@@ -1,158 +1,268 @@
-
-import React, { useState, useMemo } from 'react';
-import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { TableRow } from '../types';
+import React, { useState, useRef } from 'react';
+import type { TableRow, ColumnSchema, ChartConfig, ChartSource, ChartType, TimePeriod, AggregationFunction, GapHandling, ChartSortOrder, ForecastConfig, ForecastMethod } from '../types';
+import { TIME_PERIOD_LABELS, GAP_HANDLING_LABELS } from '../services/dateService';
+import { AGGREGATION_LABELS, CHART_SORT_LABELS } from '../services/aggregationService';
+import {
+  CHART_TYPE_LABELS, DEFAULT_CHART_CONFIG, MAX_HEATMAP_COLUMNS, getChartColumnOptions, isGroupedChart, isTimeSeriesChart, changeChartType, describeChart, isChartComplete, canForecast,
+} from '../services/chartService';
+import { FORECAST_METHOD_LABELS, DEFAULT_SEASON_LENGTHS, createForecastConfig } from '../services/forecastService';
+import ChartView from './ChartView';
+import ChartExportMenu from './ChartExportMenu';
+import { Pin } from 'lucide-react';
 
 interface VisualizationPanelProps {
   data: TableRow[];
+  schema: ColumnSchema[];
+  // Kept by the parent so the chart survives switching tabs.
+  config: ChartConfig;
+  onConfigChange: (config: ChartConfig) => void;
+  onPinChart: (title: string, config: ChartConfig) => void;
+  // Whether a pivot table has been built that charts can draw from.
+  canUsePivot: boolean;
+  outlierRows?: Map<string, Set<TableRow>>;
 }
 
-type ChartType = 'bar' | 'line' | 'histogram';
-
-const VisualizationPanel: React.FC<VisualizationPanelProps> = ({ data }) => {
-  const [chartType, setChartType] = useState<ChartType>('bar');
-  const [xAxisKey, setXAxisKey] = useState<string>('');
-  const [yAxisKey, setYAxisKey] = useState<string>('');
-  const [binCount, setBinCount] = useState(10);
-
-  const { numericKeys, categoricalKeys } = useMemo(() => {
-    if (data.length === 0) return { numericKeys: [], categoricalKeys: [] };
-    const keys = Object.keys(data[0]);
-    const numeric: string[] = [];
-    const categorical: string[] = [];
-    keys.forEach(key => {
-      if (data.every(row => typeof row[key] === 'number')) {
-        numeric.push(key);
-      } else {
-        categorical.push(key);
-      }
-    });
-    return { numericKeys: numeric, categoricalKeys: categorical };
-  }, [data]);
-
-  const chartData = useMemo(() => {
-    if (chartType === 'histogram' && xAxisKey) {
-        const values = data.map(row => row[xAxisKey] as number).filter(v => v != null);
-        if(values.length === 0) return [];
-        
-        const min = Math.min(...values);
-        const max = Math.max(...values);
-        const binWidth = (max - min) / binCount;
-        
-        const bins = Array.from({ length: binCount }, (_, i) => ({
-            range: `${(min + i * binWidth).toFixed(2)}-${(min + (i + 1) * binWidth).toFixed(2)}`,
-            count: 0
-        }));
-
-        values.forEach(value => {
-            let binIndex = Math.floor((value - min) / binWidth);
-            if(binIndex === binCount) binIndex--; // Include max value in the last bin
-            if (bins[binIndex]) {
-               bins[binIndex].count++;
-            }
-        });
-        return bins;
-    }
-    return data;
-  }, [data, chartType, xAxisKey, binCount]);
-
-  const renderChart = () => {
-    if (chartType === 'bar' && xAxisKey && yAxisKey) {
-      return (
-        <ResponsiveContainer width="100%" height={400}>
-          <BarChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey={xAxisKey} />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Bar dataKey={yAxisKey} fill="#3b82f6" />
-          </BarChart>
-        </ResponsiveContainer>
-      );
-    }
-    if (chartType === 'line' && xAxisKey && yAxisKey) {
-      return (
-        <ResponsiveContainer width="100%" height={400}>
-          <LineChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey={xAxisKey} />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Line type="monotone" dataKey={yAxisKey} stroke="#3b82f6" activeDot={{ r: 8 }} />
-          </LineChart>
-        </ResponsiveContainer>
-      );
-    }
-     if (chartType === 'histogram' && xAxisKey) {
-      return (
-        <ResponsiveContainer width="100%" height={400}>
-          <BarChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="range" angle={-45} textAnchor="end" height={80} />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Bar dataKey="count" fill="#3b82f6" />
-          </BarChart>
-        </ResponsiveContainer>
-      );
-    }
-    return <div className="text-center text-gray-500 h-96 flex items-center justify-center">Please select columns to generate a chart.</div>;
+const selectClassName = "mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md disabled:opacity-50";
+
+const VisualizationPanel: React.FC<VisualizationPanelProps> = ({ data, schema, config, onConfigChange, onPinChart, canUsePivot, outlierRows }) => {
+  const [pinTitle, setPinTitle] = useState('');
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { chartType, xAxisKey, yAxisKey, binCount, period, aggregation, gaps, seriesKey, sizeKey, sortOrder, topN, showTrendLine, isDonut, forecast } = config;
+
+  const update = (changes: Partial<ChartConfig>) => onConfigChange({ ...config, ...changes });
+  const updateForecast = (changes: Partial<ForecastConfig>) => forecast && update({ forecast: { ...forecast, ...changes } });
+
+  const handleForecastMethodChange = (method: ForecastMethod | '') => {
+    if (!method) update({ forecast: undefined });
+    else update({ forecast: { ...(forecast ?? createForecastConfig(period === 'none' ? 'month' : period)), method } });
+  };
+
+  // A season length only makes sense for one period, e.g. 12 months but 4 quarters.
+  const handlePeriodChange = (value: TimePeriod | 'none') => {
+    update({ period: value, forecast: forecast && value !== 'none' ? { ...forecast, seasonLength: DEFAULT_SEASON_LENGTHS[value] } : forecast });
+  };
+
+  const isGrouped = isGroupedChart(config);
+  const isTimeSeries = isTimeSeriesChart(config, schema);
+  const options = getChartColumnOptions(schema, chartType);
+
+  const title = pinTitle.trim() || describeChart(config);
+
+  const handlePin = () => {
+    onPinChart(title, config);
+    setPinTitle('');
   };
 
   const getSelectOptions = (keys: string[]) => keys.map(key => <option key={key} value={key}>{key}</option>);
-  
+
+  const xLabel = chartType === 'histogram' ? 'Column (Numeric)'
+    : chartType === 'scatter' ? 'X-Axis (Numeric)'
+    : chartType === 'box' ? 'Group By (optional)'
+    : chartType === 'pie' ? 'Slices (Category)'
+    : 'X-Axis (Category)';
+
   return (
     <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
-      <h3 className="text-lg font-semibold text-gray-800 mb-4">Visualize Data</h3>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Visualize Data</h3>
+        {(canUsePivot || config.source === 'pivot') && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <label htmlFor="chartSource">Chart</label>
+            <select
+              id="chartSource"
+              value={config.source ?? 'data'}
+              // The two sources have different columns, so switching starts a fresh chart.
+              onChange={e => onConfigChange({ ...DEFAULT_CHART_CONFIG, source: e.target.value as ChartSource })}
+              className="py-1 text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="data">Table rows</option>
+              <option value="pivot">Pivot table output</option>
+            </select>
+          </div>
+        )}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
         <div>
           <label htmlFor="chartType" className="block text-sm font-medium text-gray-700">Chart Type</label>
-          <select id="chartType" value={chartType} onChange={e => setChartType(e.target.value as ChartType)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md">
-            <option value="bar">Bar Chart</option>
-            <option value="line">Line Chart</option>
-            <option value="histogram">Histogram</option>
+          <select id="chartType" value={chartType} onChange={e => onConfigChange(changeChartType(config, schema, e.target.value as ChartType))} className={selectClassName}>
+            {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map(type => <option key={type} value={type}>{CHART_TYPE_LABELS[type]}</option>)}
           </select>
         </div>
-        
-        {chartType !== 'histogram' ? (
-          <>
-            <div>
-              <label htmlFor="xAxisKey" className="block text-sm font-medium text-gray-700">X-Axis (Category)</label>
-              <select id="xAxisKey" value={xAxisKey} onChange={e => setXAxisKey(e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md">
-                <option value="">Select...</option>
-                {getSelectOptions(categoricalKeys)}
-              </select>
-            </div>
-            <div>
-              <label htmlFor="yAxisKey" className="block text-sm font-medium text-gray-700">Y-Axis (Value)</label>
-              <select id="yAxisKey" value={yAxisKey} onChange={e => setYAxisKey(e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md">
-                <option value="">Select...</option>
-                {getSelectOptions(numericKeys)}
-              </select>
-            </div>
-          </>
+
+        {chartType === 'heatmap' ? (
+          <p className="md:col-span-2 self-center text-sm text-gray-500">
+            Pearson correlation between all numeric columns{options.numeric.length > MAX_HEATMAP_COLUMNS && ` (first ${MAX_HEATMAP_COLUMNS} shown)`}.
+          </p>
         ) : (
           <>
             <div>
-              <label htmlFor="histKey" className="block text-sm font-medium text-gray-700">Column (Numeric)</label>
-              <select id="histKey" value={xAxisKey} onChange={e => setXAxisKey(e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md">
-                <option value="">Select...</option>
-                {getSelectOptions(numericKeys)}
+              <label htmlFor="xAxisKey" className="block text-sm font-medium text-gray-700">{xLabel}</label>
+              <select id="xAxisKey" value={xAxisKey} onChange={e => update({ xAxisKey: e.target.value })} className={selectClassName}>
+                <option value="">{chartType === 'box' ? 'None' : 'Select...'}</option>
+                {getSelectOptions(options.x)}
               </select>
             </div>
-             <div>
-              <label htmlFor="binCount" className="block text-sm font-medium text-gray-700">Number of Bins</label>
-              <input type="range" id="binCount" min="5" max="20" value={binCount} onChange={e => setBinCount(Number(e.target.value))} className="mt-2 w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-              <span className="text-sm text-gray-500">{binCount} bins</span>
-            </div>
+            {chartType === 'histogram' ? (
+              <div>
+                <label htmlFor="binCount" className="block text-sm font-medium text-gray-700">Number of Bins</label>
+                <input type="range" id="binCount" min="5" max="20" value={binCount} onChange={e => update({ binCount: Number(e.target.value) })} className="mt-2 w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
+                <span className="text-sm text-gray-500">{binCount} bins</span>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="yAxisKey" className="block text-sm font-medium text-gray-700">{chartType === 'scatter' ? 'Y-Axis (Numeric)' : chartType === 'box' ? 'Value (Numeric)' : 'Y-Axis (Value)'}</label>
+                <select id="yAxisKey" value={yAxisKey} onChange={e => update({ yAxisKey: e.target.value })} className={selectClassName}>
+                  <option value="">{isGrouped && aggregation === 'count' ? 'None (count rows)' : 'Select...'}</option>
+                  {getSelectOptions(options.y)}
+                </select>
+              </div>
+            )}
           </>
         )}
       </div>
-      <div className="mt-4">
-        {renderChart()}
+
+      {isGrouped && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+          <div>
+            <label htmlFor="aggregation" className="block text-sm font-medium text-gray-700">Aggregate</label>
+            <select id="aggregation" value={aggregation} disabled={isTimeSeries && period === 'none'} onChange={e => update({ aggregation: e.target.value as AggregationFunction })} className={selectClassName}>
+              {(Object.keys(AGGREGATION_LABELS) as AggregationFunction[]).map(fn => <option key={fn} value={fn}>{AGGREGATION_LABELS[fn]}</option>)}
+            </select>
+          </div>
+          {chartType === 'pie' ? (
+            <div className="flex items-end pb-2">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input type="checkbox" checked={isDonut} onChange={e => update({ isDonut: e.target.checked })} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                <span>Donut</span>
+              </label>
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="seriesKey" className="block text-sm font-medium text-gray-700">Split Into Series By</label>
+              <select id="seriesKey" value={seriesKey} onChange={e => update({ seriesKey: e.target.value })} className={selectClassName}>
+                <option value="">None</option>
+                {getSelectOptions(options.split.filter(key => key !== xAxisKey))}
+              </select>
+            </div>
+          )}
+          {isTimeSeries ? (
+            <>
+              <div>
+                <label htmlFor="period" className="block text-sm font-medium text-gray-700">Resample By</label>
+                <select id="period" value={period} onChange={e => handlePeriodChange(e.target.value as TimePeriod | 'none')} className={selectClassName}>
+                  {(Object.keys(TIME_PERIOD_LABELS) as Array<TimePeriod | 'none'>).map(p => <option key={p} value={p}>{TIME_PERIOD_LABELS[p]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="gaps" className="block text-sm font-medium text-gray-700">Empty Periods</label>
+                <select id="gaps" value={gaps} disabled={period === 'none'} onChange={e => update({ gaps: e.target.value as GapHandling })} className={selectClassName}>
+                  {(Object.keys(GAP_HANDLING_LABELS) as GapHandling[]).map(g => <option key={g} value={g}>{GAP_HANDLING_LABELS[g]}</option>)}
+                </select>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="sortOrder" className="block text-sm font-medium text-gray-700">Sort</label>
+                <select id="sortOrder" value={sortOrder} onChange={e => update({ sortOrder: e.target.value as ChartSortOrder })} className={selectClassName}>
+                  {(Object.keys(CHART_SORT_LABELS) as ChartSortOrder[]).map(o => <option key={o} value={o}>{CHART_SORT_LABELS[o]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="topN" className="block text-sm font-medium text-gray-700">Show Top</label>
+                <select id="topN" value={topN} onChange={e => update({ topN: Number(e.target.value) })} className={selectClassName}>
+                  {[5, 10, 20, 50].map(n => <option key={n} value={n}>{n}</option>)}
+                  <option value={0}>All</option>
+                </select>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {chartType === 'line' && isTimeSeries && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+          <div>
+            <label htmlFor="forecastMethod" className="block text-sm font-medium text-gray-700">Forecast</label>
+            <select
+              id="forecastMethod"
+              value={forecast?.method ?? ''}
+              disabled={!canForecast(config, schema)}
+              onChange={e => handleForecastMethodChange(e.target.value as ForecastMethod | '')}
+              className={selectClassName}
+            >
+              <option value="">None</option>
+              {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(m => <option key={m} value={m}>{FORECAST_METHOD_LABELS[m]}</option>)}
+            </select>
+          </div>
+          {!canForecast(config, schema) ? (
+            <p className="md:col-span-3 self-end pb-2 text-sm text-gray-500">Forecasts need the dates resampled by period and no series split.</p>
+          ) : forecast && (
+            <>
+              <div>
+                <label htmlFor="forecastHorizon" className="block text-sm font-medium text-gray-700">Periods Ahead</label>
+                <input id="forecastHorizon" type="number" min={1} max={120} value={forecast.horizon} onChange={e => updateForecast({ horizon: Math.max(1, Math.round(Number(e.target.value))) })} className={selectClassName} />
+              </div>
+              {forecast.method === 'movingAverage' && (
+                <div>
+                  <label htmlFor="forecastWindow" className="block text-sm font-medium text-gray-700">Average Over (periods)</label>
+                  <input id="forecastWindow" type="number" min={1} value={forecast.window} onChange={e => updateForecast({ window: Math.max(1, Math.round(Number(e.target.value))) })} className={selectClassName} />
+                </div>
+              )}
+              {forecast.method === 'holtWinters' && (
+                <div>
+                  <label htmlFor="seasonLength" className="block text-sm font-medium text-gray-700">Season Length (periods)</label>
+                  <input id="seasonLength" type="number" min={2} value={forecast.seasonLength} onChange={e => updateForecast({ seasonLength: Math.max(2, Math.round(Number(e.target.value))) })} className={selectClassName} />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {chartType === 'scatter' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+          <div>
+            <label htmlFor="colorKey" className="block text-sm font-medium text-gray-700">Color By (optional)</label>
+            <select id="colorKey" value={seriesKey} onChange={e => update({ seriesKey: e.target.value })} className={selectClassName}>
+              <option value="">None</option>
+              {getSelectOptions(options.split)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="sizeKey" className="block text-sm font-medium text-gray-700">Size By (optional)</label>
+            <select id="sizeKey" value={sizeKey} onChange={e => update({ sizeKey: e.target.value })} className={selectClassName}>
+              <option value="">None</option>
+              {getSelectOptions(options.numeric)}
+            </select>
+          </div>
+          <div className="flex items-end pb-2">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={showTrendLine} onChange={e => update({ showTrendLine: e.target.checked })} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+              <span>Show trend line</span>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {isChartComplete(config) && (
+        <div className="flex items-center justify-end space-x-2 mb-4">
+          <input
+            type="text"
+            value={pinTitle}
+            onChange={e => setPinTitle(e.target.value)}
+            placeholder={describeChart(config)}
+            className="w-72 text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+          <button onClick={handlePin} className="flex items-center bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm transition-colors">
+            <Pin className="w-4 h-4 mr-2" /> Pin to Dashboard
+          </button>
+          <ChartExportMenu getContainer={() => chartRef.current} title={title} />
+        </div>
+      )}
+
+      <div className="mt-4" ref={chartRef}>
+        <ChartView data={data} schema={schema} config={config} outlierRows={config.source === 'pivot' ? undefined : outlierRows} />
       </div>
     </div>
   );
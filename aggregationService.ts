@@ -0,0 +1,154 @@
+import type { TableRow, AggregationFunction, ChartSortOrder } from '../types';
+
+export const AGGREGATION_LABELS: Record<AggregationFunction, string> = {
+  sum: 'Sum',
+  mean: 'Average',
+  median: 'Median',
+  count: 'Count',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+// Reduces a group of values to one number. Count includes every row in the group; the rest ignore non-numbers.
+export const aggregateValues = (values: Array<string | number | null | undefined>, fn: AggregationFunction): number | null => {
+  if (fn === 'count') return values.length;
+  const numbers = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+  if (numbers.length === 0) return null;
+
+  switch (fn) {
+    case 'sum':
+      return numbers.reduce((a, b) => a + b, 0);
+    case 'mean':
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    case 'median': {
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    case 'min':
+      return numbers.reduce((a, b) => (b < a ? b : a));
+    case 'max':
+      return numbers.reduce((a, b) => (b > a ? b : a));
+  }
+};
+
+export const CHART_SORT_LABELS: Record<ChartSortOrder, string> = {
+  valueDesc: 'Largest first',
+  valueAsc: 'Smallest first',
+  labelAsc: 'Label A → Z',
+  labelDesc: 'Label Z → A',
+};
+
+// Splitting by a column with many values is capped; the least frequent values are folded into "Other".
+export const MAX_SERIES = 8;
+export const OTHER_SERIES_NAME = 'Other';
+const EMPTY_LABEL = '(empty)';
+
+export interface ChartSeries {
+  // Generated keys (s0, s1, …) keep recharts from reading dots in column names as paths.
+  key: string;
+  name: string;
+}
+
+export interface SeriesResolver {
+  series: ChartSeries[];
+  keyOf: (row: TableRow) => string;
+}
+
+export const labelOf = (value: string | number | null | undefined): string =>
+  value === null || value === undefined || value === '' ? EMPTY_LABEL : String(value);
+
+// Works out the chart series for an optional split column, or a single series named after the aggregation.
+export const resolveSeries = (
+  data: TableRow[],
+  seriesBy: string | undefined,
+  valueKey: string,
+  aggregation: AggregationFunction,
+): SeriesResolver => {
+  if (!seriesBy) {
+    const name = aggregation === 'count' ? 'Count' : `${AGGREGATION_LABELS[aggregation]} of ${valueKey}`;
+    return { series: [{ key: 's0', name }], keyOf: () => 's0' };
+  }
+
+  const counts = new Map<string, number>();
+  data.forEach(row => {
+    const label = labelOf(row[seriesBy]);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+  const ranked = Array.from(counts.entries()).sort(([, a], [, b]) => b - a).map(([label]) => label);
+  const kept = ranked.length > MAX_SERIES ? ranked.slice(0, MAX_SERIES - 1) : ranked;
+  const keys = new Map(kept.map((label, i) => [label, `s${i}`]));
+  const series = kept.map((label, i) => ({ key: `s${i}`, name: label }));
+  const otherKey = `s${kept.length}`;
+  if (kept.length < ranked.length) series.push({ key: otherKey, name: OTHER_SERIES_NAME });
+
+  return { series, keyOf: row => keys.get(labelOf(row[seriesBy])) ?? otherKey };
+};
+
+export interface GroupByOptions {
+  groupBy: string;
+  valueKey: string;
+  aggregation: AggregationFunction;
+  seriesBy?: string;
+  sort: ChartSortOrder;
+  // Keep only the first N groups after sorting; 0 keeps all.
+  topN: number;
+}
+
+export interface GroupedChartData {
+  // One row per group: { label, s0, s1, … }.
+  rows: TableRow[];
+  series: ChartSeries[];
+  totalGroups: number;
+}
+
+const compareLabels = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Groups rows by a column and aggregates a value per group (and per series when split).
+export const groupAndAggregate = (data: TableRow[], { groupBy, valueKey, aggregation, seriesBy, sort, topN }: GroupByOptions): GroupedChartData => {
+  const { series, keyOf } = resolveSeries(data, seriesBy, valueKey, aggregation);
+  const groups = new Map<string, Map<string, Array<string | number | null>>>();
+
+  data.forEach(row => {
+    const label = labelOf(row[groupBy]);
+    let group = groups.get(label);
+    if (!group) {
+      group = new Map();
+      groups.set(label, group);
+    }
+    const key = keyOf(row);
+    const values = group.get(key);
+    const value = valueKey ? row[valueKey] ?? null : null;
+    if (values) values.push(value);
+    else group.set(key, [value]);
+  });
+
+  const rows: Array<{ row: TableRow; total: number }> = [];
+  groups.forEach((group, label) => {
+    const row: TableRow = { label };
+    let total = 0;
+    series.forEach(({ key }) => {
+      const values = group.get(key);
+      const value = values ? aggregateValues(values, aggregation) : null;
+      row[key] = value;
+      total += value ?? 0;
+    });
+    rows.push({ row, total });
+  });
+
+  rows.sort((a, b) => {
+    switch (sort) {
+      case 'valueDesc':
+        return b.total - a.total;
+      case 'valueAsc':
+        return a.total - b.total;
+      case 'labelAsc':
+        return compareLabels(String(a.row.label), String(b.row.label));
+      case 'labelDesc':
+        return compareLabels(String(b.row.label), String(a.row.label));
+    }
+  });
+
+  const limited = topN > 0 ? rows.slice(0, topN) : rows;
+  return { rows: limited.map(r => r.row), series, totalGroups: rows.length };
+};
@@ -0,0 +1,272 @@
+import type { TableRow, ColumnSchema, ColumnType, ChartConfig, ChartType } from '../types';
+import { getColumnType, getColumnsOfTypes, isTemporalType, NUMERIC_COLUMN_TYPES } from './schemaService';
+import { resampleTimeSeries } from './dateService';
+import type { TimeSeriesPoint } from './dateService';
+import { groupAndAggregate, labelOf, AGGREGATION_LABELS } from './aggregationService';
+import type { ChartSeries } from './aggregationService';
+import { boxPlotStats, correlationMatrix, linearRegression, sampleEvenly } from './statsService';
+import type { BoxPlotStats, LinearFit } from './statsService';
+import { appendForecast, type Forecast } from './forecastService';
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: 'Bar Chart',
+  stackedBar: 'Stacked Bar Chart',
+  percentBar: '100% Stacked Bar Chart',
+  line: 'Line Chart',
+  area: 'Area Chart',
+  pie: 'Pie / Donut Chart',
+  histogram: 'Histogram',
+  scatter: 'Scatter Plot',
+  box: 'Box Plot',
+  heatmap: 'Correlation Heatmap',
+};
+
+// Charts that group rows by a category and aggregate a value per group.
+export const GROUPED_CHART_TYPES: ChartType[] = ['bar', 'stackedBar', 'percentBar', 'line', 'area', 'pie'];
+const CATEGORY_TYPES: ColumnType[] = ['categorical', 'boolean', 'date', 'datetime'];
+const SPLIT_TYPES: ColumnType[] = ['categorical', 'boolean'];
+
+export const MAX_SCATTER_POINTS = 2000;
+export const MAX_BOX_GROUPS = 20;
+export const MAX_HEATMAP_COLUMNS = 15;
+export const OUTLIER_GROUP_NAME = 'Outliers';
+
+export const DEFAULT_CHART_CONFIG: ChartConfig = {
+  chartType: 'bar',
+  xAxisKey: '',
+  yAxisKey: '',
+  binCount: 10,
+  period: 'month',
+  aggregation: 'sum',
+  gaps: 'break',
+  seriesKey: '',
+  sizeKey: '',
+  sortOrder: 'valueDesc',
+  topN: 20,
+  showTrendLine: true,
+  isDonut: false,
+};
+
+export type ChartModel =
+  // `outliers` counts the values in each bin that an outlier rule flagged but kept.
+  | { kind: 'histogram'; bins: Array<{ range: string; count: number; outliers: number }> }
+  | { kind: 'grouped'; rows: TableRow[]; series: ChartSeries[]; totalGroups: number }
+  // `forecastError` explains why a requested forecast could not be drawn.
+  | { kind: 'timeSeries'; points: TimeSeriesPoint[]; series: ChartSeries[]; forecast: Forecast | null; forecastError: string | null }
+  | { kind: 'scatter'; groups: Array<{ name: string; isOutlier?: boolean; points: Array<{ x: number; y: number; z?: number }> }>; fit: LinearFit | null; xRange: [number, number]; total: number; shown: number }
+  | { kind: 'box'; groups: Array<{ label: string; stats: BoxPlotStats }>; totalGroups: number }
+  | { kind: 'heatmap'; columns: string[]; matrix: number[][] };
+
+export interface ChartColumnOptions {
+  x: string[];
+  y: string[];
+  split: string[];
+  numeric: string[];
+}
+
+// Column lists each chart type accepts in its selectors.
+export const getChartColumnOptions = (schema: ColumnSchema[], chartType: ChartType): ChartColumnOptions => {
+  const numeric = getColumnsOfTypes(schema, NUMERIC_COLUMN_TYPES);
+  const split = getColumnsOfTypes(schema, SPLIT_TYPES);
+  const x = chartType === 'histogram' || chartType === 'scatter' ? numeric
+    : chartType === 'pie' || chartType === 'box' ? split
+    : getColumnsOfTypes(schema, CATEGORY_TYPES);
+  return { x, y: numeric, split, numeric };
+};
+
+export const isGroupedChart = (config: ChartConfig) => GROUPED_CHART_TYPES.includes(config.chartType);
+
+export const isTimeSeriesChart = (config: ChartConfig, schema: ColumnSchema[]) =>
+  (config.chartType === 'line' || config.chartType === 'area') && isTemporalType(getColumnType(schema, config.xAxisKey));
+
+// Forecasts need evenly spaced periods and a single series to extend.
+export const canForecast = (config: ChartConfig, schema: ColumnSchema[]) =>
+  config.chartType === 'line' && isTimeSeriesChart(config, schema) && config.period !== 'none' && !config.seriesKey;
+
+// Whether enough columns are chosen for the chart to draw anything.
+export const isChartComplete = (config: ChartConfig): boolean => {
+  const { chartType, xAxisKey, yAxisKey, aggregation } = config;
+  switch (chartType) {
+    case 'heatmap':
+      return true;
+    case 'histogram':
+      return !!xAxisKey;
+    case 'scatter':
+      return !!xAxisKey && !!yAxisKey;
+    case 'box':
+      return !!yAxisKey;
+    default:
+      // Counting rows needs no value column.
+      return !!xAxisKey && (!!yAxisKey || aggregation === 'count');
+  }
+};
+
+// Switches chart type, clearing selections the new type cannot use.
+export const changeChartType = (config: ChartConfig, schema: ColumnSchema[], chartType: ChartType): ChartConfig => {
+  const { x } = getChartColumnOptions(schema, chartType);
+  const dropsSeries = chartType === 'pie' || chartType === 'box' || chartType === 'histogram' || chartType === 'heatmap';
+  return {
+    ...config,
+    chartType,
+    xAxisKey: x.includes(config.xAxisKey) ? config.xAxisKey : '',
+    seriesKey: dropsSeries ? '' : config.seriesKey,
+  };
+};
+
+const describeMeasure = ({ yAxisKey, aggregation }: ChartConfig) =>
+  aggregation === 'count' || !yAxisKey ? 'Count of rows' : `${AGGREGATION_LABELS[aggregation]} of ${yAxisKey}`;
+
+// A readable default title such as "Sum of revenue by region".
+export const describeChart = (config: ChartConfig): string => {
+  const { chartType, xAxisKey, yAxisKey } = config;
+  switch (chartType) {
+    case 'heatmap':
+      return 'Correlation between numeric columns';
+    case 'histogram':
+      return `Distribution of ${xAxisKey}`;
+    case 'scatter':
+      return `${yAxisKey} vs ${xAxisKey}`;
+    case 'box':
+      return xAxisKey ? `${yAxisKey} by ${xAxisKey}` : `Spread of ${yAxisKey}`;
+    default:
+      return `${describeMeasure(config)} by ${xAxisKey}${config.seriesKey ? ` and ${config.seriesKey}` : ''}`;
+  }
+};
+
+// Axis titles drawn on cartesian charts; empty where the chart has no such axis.
+export const getAxisLabels = (config: ChartConfig): { x: string; y: string } => {
+  const { chartType, xAxisKey, yAxisKey } = config;
+  switch (chartType) {
+    case 'heatmap':
+    case 'pie':
+      return { x: '', y: '' };
+    case 'histogram':
+      return { x: xAxisKey, y: 'Count' };
+    case 'scatter':
+    case 'box':
+      return { x: xAxisKey, y: yAxisKey };
+    case 'percentBar':
+      return { x: xAxisKey, y: 'Share of total' };
+    default:
+      return { x: xAxisKey, y: describeMeasure(config) };
+  }
+};
+
+// Builds the data a chart needs from its config, or null until enough columns are chosen.
+// Rows in `outlierRows` (flagged outliers per column) are marked on histograms and scatter plots.
+export const buildChartModel = (data: TableRow[], schema: ColumnSchema[], config: ChartConfig, outlierRows?: Map<string, Set<TableRow>>): ChartModel | null => {
+  const { chartType, xAxisKey, yAxisKey, binCount, period, aggregation, gaps, seriesKey, sizeKey, sortOrder, topN } = config;
+
+  if (chartType === 'heatmap') {
+      const columns = getColumnsOfTypes(schema, NUMERIC_COLUMN_TYPES).slice(0, MAX_HEATMAP_COLUMNS);
+      return { kind: 'heatmap', columns, matrix: correlationMatrix(data, columns) };
+  }
+  if (chartType === 'histogram' && xAxisKey) {
+      const values = data.map(row => row[xAxisKey]).filter((v): v is number => typeof v === 'number');
+      if(values.length === 0) return { kind: 'histogram', bins: [] };
+      const flagged = outlierRows?.get(xAxisKey);
+
+      const min = values.reduce((a, b) => (b < a ? b : a));
+      const max = values.reduce((a, b) => (b > a ? b : a));
+      const binWidth = (max - min) / binCount;
+
+      const bins = Array.from({ length: binCount }, (_, i) => ({
+          range: `${(min + i * binWidth).toFixed(2)}-${(min + (i + 1) * binWidth).toFixed(2)}`,
+          count: 0,
+          outliers: 0,
+      }));
+
+      const binOf = (value: number) => {
+          const binIndex = Math.floor((value - min) / binWidth);
+          return binIndex === binCount ? binIndex - 1 : binIndex; // Include max value in the last bin
+      };
+      values.forEach(value => {
+          const bin = bins[binOf(value)];
+          if (bin) {
+             bin.count++;
+          }
+      });
+      flagged?.forEach(row => {
+          const value = row[xAxisKey];
+          const bin = typeof value === 'number' ? bins[binOf(value)] : undefined;
+          if (bin) bin.outliers++;
+      });
+      return { kind: 'histogram', bins };
+  }
+  if (chartType === 'scatter' && xAxisKey && yAxisKey) {
+      const valid = data.filter(row => typeof row[xAxisKey] === 'number' && typeof row[yAxisKey] === 'number');
+      const sampled = sampleEvenly(valid, MAX_SCATTER_POINTS);
+      const groups = new Map<string, Array<{ x: number; y: number; z?: number }>>();
+      const flaggedX = outlierRows?.get(xAxisKey);
+      const flaggedY = outlierRows?.get(yAxisKey);
+      const outlierPoints: Array<{ x: number; y: number; z?: number }> = [];
+      sampled.forEach(row => {
+          const name = seriesKey ? labelOf(row[seriesKey]) : yAxisKey;
+          const z = sizeKey && typeof row[sizeKey] === 'number' ? (row[sizeKey] as number) : undefined;
+          const point = { x: row[xAxisKey] as number, y: row[yAxisKey] as number, z };
+          if (flaggedX?.has(row) || flaggedY?.has(row)) {
+              outlierPoints.push(point);
+              return;
+          }
+          const group = groups.get(name);
+          if (group) group.push(point);
+          else groups.set(name, [point]);
+      });
+      const xs = valid.map(row => row[xAxisKey] as number);
+      const ys = valid.map(row => row[yAxisKey] as number);
+      const xRange: [number, number] = xs.length > 0
+        ? [xs.reduce((a, b) => (b < a ? b : a)), xs.reduce((a, b) => (b > a ? b : a))]
+        : [0, 0];
+      return {
+        kind: 'scatter',
+        // Outliers come last so their points are drawn on top.
+        groups: [
+          ...Array.from(groups.entries()).map(([name, points]) => ({ name, points })),
+          ...(outlierPoints.length > 0 ? [{ name: OUTLIER_GROUP_NAME, points: outlierPoints, isOutlier: true }] : []),
+        ],
+        fit: linearRegression(xs, ys),
+        xRange,
+        total: valid.length,
+        shown: sampled.length,
+      };
+  }
+  if (chartType === 'box' && yAxisKey) {
+      const buckets = new Map<string, number[]>();
+      data.forEach(row => {
+          const value = row[yAxisKey];
+          if (typeof value !== 'number') return;
+          const label = xAxisKey ? labelOf(row[xAxisKey]) : yAxisKey;
+          const bucket = buckets.get(label);
+          if (bucket) bucket.push(value);
+          else buckets.set(label, [value]);
+      });
+      const groups = Array.from(buckets.entries())
+        .sort(([, a], [, b]) => b.length - a.length)
+        .slice(0, MAX_BOX_GROUPS)
+        .map(([label, values]) => ({ label, stats: boxPlotStats(values)! }));
+      return { kind: 'box', groups, totalGroups: buckets.size };
+  }
+  if (!isGroupedChart(config) || !isChartComplete(config)) return null;
+
+  if (isTimeSeriesChart(config, schema)) {
+      const { points, series } = resampleTimeSeries(data, xAxisKey, yAxisKey, { period, aggregation, gaps, seriesBy: seriesKey || undefined });
+      if (!config.forecast || !canForecast(config, schema) || period === 'none' || points.length === 0) {
+        return { kind: 'timeSeries', points, series, forecast: null, forecastError: null };
+      }
+      try {
+        const extended = appendForecast(points, series[0].key, period, config.forecast);
+        return { kind: 'timeSeries', points: extended.points, series, forecast: extended.forecast, forecastError: null };
+      } catch (err) {
+        return { kind: 'timeSeries', points, series, forecast: null, forecastError: err instanceof Error ? err.message : String(err) };
+      }
+  }
+  const { rows, series, totalGroups } = groupAndAggregate(data, {
+      groupBy: xAxisKey,
+      valueKey: yAxisKey,
+      aggregation,
+      seriesBy: chartType === 'pie' ? undefined : seriesKey || undefined,
+      sort: sortOrder,
+      topN,
+  });
+  return { kind: 'grouped', rows, series, totalGroups };
+};
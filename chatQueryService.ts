@@ -0,0 +1,146 @@
+import type { TableRow, ColumnSchema, ColumnFilter, ChatQuery, ChatQueryAggregate, ChatQueryFilter, ChatQueryResult, CellValue } from '../types';
+import { AGGREGATION_LABELS, aggregateValues, labelOf } from './aggregationService';
+import { EMPTY_FILTER_SET, FILTER_OPERATORS, FILTER_OPERATOR_LABELS, applyFilterSet, describeFilter, getFilterKind, isFilterComplete } from './filterService';
+import { queryRowIndices } from './tableQueryService';
+import { isNumericType } from './schemaService';
+
+export const DEFAULT_QUERY_LIMIT = 20;
+// Results go back to the model and into the chat bubble, so they stay small.
+export const MAX_QUERY_ROWS = 50;
+
+const isMissing = (value: CellValue | undefined) => value === null || value === undefined || value === '';
+
+// Unknown aggregations keep their name so a rejected query can still be described.
+const getAggregateLabel = ({ aggregation, column }: ChatQueryAggregate) =>
+  (column ? `${AGGREGATION_LABELS[aggregation] ?? aggregation} of ${column}` : 'Count');
+
+const isGrouped = (query: ChatQuery) => (query.groupBy?.length ?? 0) > 0 || (query.aggregates?.length ?? 0) > 0;
+
+// Grouping with nothing to aggregate counts the rows in each group.
+const getAggregates = (query: ChatQuery): ChatQueryAggregate[] =>
+  (query.aggregates?.length ? query.aggregates : [{ aggregation: 'count' }]);
+
+// The model sometimes sends numbers where filters expect text.
+const toColumnFilter = (filter: ChatQueryFilter, index: number): ColumnFilter => ({
+  id: `chat-filter-${index}`,
+  column: filter.column,
+  operator: filter.operator,
+  value: filter.value === undefined ? '' : String(filter.value),
+  valueTo: filter.valueTo === undefined ? '' : String(filter.valueTo),
+  values: (filter.values ?? []).map(String),
+});
+
+/**
+ * Checks a query against the table and throws an error the model can act on, naming the columns or
+ * options it can use instead. Returns the columns of the result.
+ */
+const validateQuery = (query: ChatQuery, schema: ColumnSchema[]): string[] => {
+  const names = schema.map(column => column.name);
+  const requireColumn = (name: string | undefined, role: string) => {
+    if (name === undefined || !names.includes(name)) {
+      throw new Error(`Unknown ${role} column "${name ?? ''}". The table's columns are: ${names.join(', ')}.`);
+    }
+  };
+  (query.filters ?? []).forEach((filter, i) => {
+    requireColumn(filter.column, 'filter');
+    if (!Object.hasOwn(FILTER_OPERATOR_LABELS, filter.operator)) {
+      throw new Error(`Unknown filter operator "${filter.operator}". Use one of: ${Object.keys(FILTER_OPERATOR_LABELS).join(', ')}.`);
+    }
+    // An operator the column's kind does not offer, e.g. gt on a category, would be read as "not equal".
+    const type = schema.find(column => column.name === filter.column)?.type;
+    const allowed = FILTER_OPERATORS[getFilterKind(type)];
+    if (!allowed.includes(filter.operator)) {
+      throw new Error(`The operator "${filter.operator}" does not apply to ${filter.column}, which is ${type}. Use one of: ${allowed.join(', ')}.`);
+    }
+    // Incomplete filters are skipped in the filter bar, but here that would quietly widen the answer.
+    if (!isFilterComplete(toColumnFilter(filter, i))) {
+      throw new Error(`The filter "${filter.column} ${filter.operator}" is missing its value, or its regex is invalid.`);
+    }
+  });
+  (query.groupBy ?? []).forEach(name => requireColumn(name, 'group-by'));
+  (query.aggregates ?? []).forEach(({ aggregation, column }) => {
+    if (!Object.hasOwn(AGGREGATION_LABELS, aggregation)) {
+      throw new Error(`Unknown aggregation "${aggregation}". Use one of: ${Object.keys(AGGREGATION_LABELS).join(', ')}.`);
+    }
+    if (aggregation === 'count' && column === undefined) return;
+    requireColumn(column, 'aggregate');
+    const type = schema.find(c => c.name === column)?.type;
+    if (aggregation !== 'count' && !isNumericType(type)) {
+      throw new Error(`${AGGREGATION_LABELS[aggregation]} needs a numeric column, and ${column} is ${type}. Count it or group by it instead.`);
+    }
+  });
+  (query.columns ?? []).forEach(name => requireColumn(name, 'listed'));
+
+  const columns = isGrouped(query)
+    ? [...(query.groupBy ?? []), ...getAggregates(query).map(getAggregateLabel)]
+    : query.columns?.length ? query.columns : names;
+  if (query.sortBy !== undefined && !columns.includes(query.sortBy)) {
+    throw new Error(`Cannot sort by "${query.sortBy}"; the result's columns are: ${columns.join(', ')}.`);
+  }
+  return columns;
+};
+
+const groupRows = (rows: TableRow[], query: ChatQuery): TableRow[] => {
+  const groupBy = query.groupBy ?? [];
+  const groups = new Map<string, TableRow[]>();
+  rows.forEach(row => {
+    const key = JSON.stringify(groupBy.map(name => labelOf(row[name])));
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  });
+  // Without a group-by the whole table is one group, even when no row matched.
+  if (groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+  return Array.from(groups.values(), group => {
+    const result: TableRow = {};
+    groupBy.forEach(name => {
+      result[name] = group[0][name] ?? null;
+    });
+    getAggregates(query).forEach(aggregate => {
+      const { aggregation, column } = aggregate;
+      // Counting a column counts its filled cells; counting without one counts rows.
+      const values = column
+        ? group.map(row => row[column]).filter(value => aggregation !== 'count' || !isMissing(value))
+        : group.map(() => null);
+      result[getAggregateLabel(aggregate)] = aggregateValues(values, aggregation);
+    });
+    return result;
+  });
+};
+
+// Filters, groups and aggregates, then sorts and cuts the table down the way the query asks.
+export const runChatQuery = (data: TableRow[], schema: ColumnSchema[], query: ChatQuery): ChatQueryResult => {
+  const columns = validateQuery(query, schema);
+  const filtered = applyFilterSet(data, schema, { combinator: 'and', filters: (query.filters ?? []).map(toColumnFilter) });
+  const rows = isGrouped(query) ? groupRows(filtered, query) : filtered;
+  // Grouped and listed columns keep the table's types so they sort the same way; aggregates are numbers.
+  const resultSchema: ColumnSchema[] = columns.map(name => schema.find(column => column.name === name)
+    ?? { name, type: 'float', inferredType: 'float', confidence: 1, overridden: false });
+  const order = query.sortBy
+    ? Array.from(queryRowIndices(rows, resultSchema, { filterSet: EMPTY_FILTER_SET, sorts: [{ key: query.sortBy, direction: query.sortDirection ?? 'descending' }] }))
+    : rows.map((_, i) => i);
+  const limit = Math.max(1, Math.min(MAX_QUERY_ROWS, Math.floor(query.limit ?? DEFAULT_QUERY_LIMIT)));
+  return {
+    columns,
+    rows: order.slice(0, limit).map(i => columns.map(name => rows[i][name] ?? null)),
+    matchedRows: filtered.length,
+    totalRows: rows.length,
+  };
+};
+
+// e.g. `Average of Sales by Region where Year equals 2024, sorted by Average of Sales descending, top 5`
+export const describeChatQuery = (query: ChatQuery, schema: ColumnSchema[]): string => {
+  const types = new Map(schema.map(column => [column.name, column.type]));
+  let subject: string;
+  if (isGrouped(query)) {
+    const measures = getAggregates(query).map(getAggregateLabel).join(', ');
+    subject = query.groupBy?.length ? `${measures} by ${query.groupBy.join(', ')}` : measures;
+  } else {
+    subject = query.columns?.length ? `Rows showing ${query.columns.join(', ')}` : 'Rows';
+  }
+  const filters = (query.filters ?? []).map((filter, i) => describeFilter(toColumnFilter(filter, i), types.get(filter.column)));
+  const parts = [filters.length > 0 ? `${subject} where ${filters.join(' AND ')}` : subject];
+  if (query.sortBy) parts.push(`sorted by ${query.sortBy} ${query.sortDirection ?? 'descending'}`);
+  if (query.limit !== undefined) parts.push(`top ${query.limit}`);
+  return parts.join(', ');
+};
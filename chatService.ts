@@ -0,0 +1,154 @@
+import { GoogleGenAI, Type, FunctionCallingConfigMode, type Content, type FunctionDeclaration } from '@google/genai';
+import type { TableRow, ColumnSchema, ChatMessage, ChatQuery, ChatQueryRun, AggregationFunction, FilterOperator } from '../types';
+import { runChatQuery, describeChatQuery, DEFAULT_QUERY_LIMIT, MAX_QUERY_ROWS } from './chatQueryService';
+import { AGGREGATION_LABELS } from './aggregationService';
+import { FILTER_OPERATOR_LABELS } from './filterService';
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const MODEL = 'gemini-2.5-flash';
+// Rounds of queries the model may run; after the last it has to answer with what it has.
+const MAX_QUERY_ROUNDS = 5;
+
+const QUERY_TOOL: FunctionDeclaration = {
+  name: 'query_table',
+  description: 'Runs a query on the user\'s table and returns the resulting rows. Filters are combined with AND, then rows are grouped and aggregated, sorted and limited. With neither groupBy nor aggregates it lists rows.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      filters: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            column: { type: Type.STRING },
+            operator: { type: Type.STRING, enum: Object.keys(FILTER_OPERATOR_LABELS) },
+            value: { type: Type.STRING, description: 'Value to compare with; the lower bound for between.' },
+            valueTo: { type: Type.STRING, description: 'Upper bound for between.' },
+            values: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Values for in and notIn.' },
+          },
+          required: ['column', 'operator'],
+        },
+      },
+      groupBy: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columns to group by.' },
+      aggregates: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            aggregation: { type: Type.STRING, enum: Object.keys(AGGREGATION_LABELS) },
+            column: { type: Type.STRING, description: 'Numeric column to aggregate; leave out with count to count rows.' },
+          },
+          required: ['aggregation'],
+        },
+        description: 'Each aggregate becomes a result column named like "Average of Sales", or "Count" for a row count.',
+      },
+      columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columns to list when not grouping.' },
+      sortBy: { type: Type.STRING, description: 'A result column, e.g. "Average of Sales".' },
+      sortDirection: { type: Type.STRING, enum: ['ascending', 'descending'] },
+      limit: { type: Type.INTEGER, description: `Rows to return, ${DEFAULT_QUERY_LIMIT} by default and at most ${MAX_QUERY_ROWS}.` },
+    },
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const toText = (value: unknown): string | undefined => (value === undefined || value === null ? undefined : String(value));
+
+// A single value where a list was expected is read as a list of one.
+const toTextList = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return (Array.isArray(value) ? value : [value]).map(String);
+};
+
+// Model arguments follow the tool's schema only loosely; this shapes them into a query that is safe to
+// check, run and describe. Unknown columns, operators and aggregations are left for runChatQuery to reject.
+const toChatQuery = (args: Record<string, unknown> | undefined): ChatQuery => {
+  const { filters, groupBy, aggregates, columns, sortBy, sortDirection, limit } = args ?? {};
+  const rowLimit = Number(limit);
+  return {
+    filters: Array.isArray(filters)
+      ? filters.filter(isRecord).map(filter => ({
+          column: String(filter.column ?? ''),
+          operator: String(filter.operator ?? '') as FilterOperator,
+          value: toText(filter.value),
+          valueTo: toText(filter.valueTo),
+          values: toTextList(filter.values),
+        }))
+      : undefined,
+    groupBy: toTextList(groupBy),
+    aggregates: Array.isArray(aggregates)
+      ? aggregates.filter(isRecord).map(aggregate => ({
+          aggregation: String(aggregate.aggregation ?? '') as AggregationFunction,
+          column: toText(aggregate.column),
+        }))
+      : undefined,
+    columns: toTextList(columns),
+    sortBy: toText(sortBy),
+    sortDirection: sortDirection === 'ascending' || sortDirection === 'descending' ? sortDirection : undefined,
+    limit: limit !== undefined && limit !== null && Number.isFinite(rowLimit) ? rowLimit : undefined,
+  };
+};
+
+const buildInstruction = (context: string, schema: ColumnSchema[]) => `You are a data analyst answering questions about the user's table.
+Columns: ${schema.map(column => `${column.name} (${column.type})`).join(', ')}.
+
+Summary of the data:
+${context}
+
+Use the query_table tool to work out every figure you state, such as totals, averages, rankings and counts, instead of estimating it from the summary. Quote the numbers exactly as the results give them and say what they were computed over. If a query returns an error, correct the query and try again. Answer in plain language for someone without a statistics background, in a few sentences.`;
+
+/**
+ * Answers the latest chat message, letting the model query the table as many times as it needs up to
+ * MAX_QUERY_ROUNDS. Returns the answer and every query it ran, including ones that failed.
+ */
+export const generateGroundedChatResponse = async (
+  context: string,
+  history: ChatMessage[],
+  data: TableRow[],
+  schema: ColumnSchema[],
+): Promise<{ text: string; queries: ChatQueryRun[] }> => {
+  // Earlier queries stay in the app; the model sees only the conversation.
+  const contents: Content[] = history.map(({ role, parts }) => ({ role, parts }));
+  const queries: ChatQueryRun[] = [];
+  const systemInstruction = buildInstruction(context, schema);
+
+  for (let round = 0; ; round++) {
+    const lastRound = round === MAX_QUERY_ROUNDS;
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents,
+      config: {
+        systemInstruction,
+        tools: [{ functionDeclarations: [QUERY_TOOL] }],
+        toolConfig: { functionCallingConfig: { mode: lastRound ? FunctionCallingConfigMode.NONE : FunctionCallingConfigMode.AUTO } },
+      },
+    });
+    const calls = response.functionCalls ?? [];
+    const content = response.candidates?.[0]?.content;
+    if (calls.length === 0 || lastRound || !content) {
+      return { text: response.text?.trim() || "Sorry, I couldn't work out an answer to that.", queries };
+    }
+
+    contents.push(content);
+    contents.push({
+      role: 'user',
+      parts: calls.map(call => {
+        const query = toChatQuery(call.args);
+        let description = 'Query on the table';
+        let result: Record<string, unknown>;
+        try {
+          description = describeChatQuery(query, schema);
+          const queryResult = runChatQuery(data, schema, query);
+          queries.push({ query, description, result: queryResult });
+          result = { ...queryResult };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          queries.push({ query, description, error });
+          result = { error };
+        }
+        return { functionResponse: { id: call.id, name: call.name, response: result } };
+      }),
+    });
+  }
+};
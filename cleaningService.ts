@@ -0,0 +1,367 @@
+import type { TableRow, CleaningRecipe, CleaningReport, CleaningStep, CleaningStepType, MissingValueStrategy, DateOrder } from '../types';
+import { planDateConversion, parseDateValue, formatTimestamp } from './dateService';
+
+export const CLEANING_STEP_LABELS: Record<CleaningStepType, string> = {
+  trimHeaders: 'Trim column names',
+  trimValues: 'Trim whitespace in values',
+  lowercaseValues: 'Lowercase text values',
+  removeDuplicates: 'Remove duplicate rows',
+  handleMissing: 'Handle missing values',
+  dropConstantColumns: 'Drop constant columns',
+  parseDates: 'Parse dates and times',
+  convertNumbers: 'Convert numeric text to numbers',
+};
+
+export const MISSING_VALUE_STRATEGY_LABELS: Record<MissingValueStrategy, string> = {
+  drop: 'Drop rows',
+  mean: 'Fill with mean',
+  median: 'Fill with median',
+  mode: 'Fill with most frequent value',
+  constant: 'Fill with a constant',
+  forwardFill: 'Fill from previous row',
+};
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  auto: 'Detect day/month order',
+  MDY: 'Month first (MM/DD/YYYY)',
+  DMY: 'Day first (DD/MM/YYYY)',
+};
+
+// Steps whose behaviour can be limited to a subset of columns.
+export const COLUMN_SCOPED_STEPS: CleaningStepType[] = ['trimValues', 'lowercaseValues', 'removeDuplicates', 'handleMissing', 'parseDates'];
+
+// Mirrors the original fixed cleaning behaviour; every step can be toggled or reordered by the user.
+export const DEFAULT_CLEANING_RECIPE: CleaningRecipe = [
+  { type: 'trimHeaders', enabled: true },
+  { type: 'trimValues', enabled: true },
+  { type: 'lowercaseValues', enabled: false },
+  { type: 'removeDuplicates', enabled: true },
+  { type: 'handleMissing', enabled: true, strategy: 'drop' },
+  { type: 'dropConstantColumns', enabled: false },
+  { type: 'parseDates', enabled: true, dateOrder: 'auto' },
+  { type: 'convertNumbers', enabled: true },
+];
+
+const isMissing = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+// Excel rows omit empty cells, so the header set is the union of keys across all rows.
+const getHeaders = (data: TableRow[]): string[] => {
+  const headers = new Set<string>();
+  data.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return Array.from(headers);
+};
+
+const targetColumns = (data: TableRow[], step: CleaningStep): string[] =>
+  step.columns && step.columns.length > 0 ? step.columns : getHeaders(data);
+
+const mapStringValues = (data: TableRow[], step: CleaningStep, fn: (value: string) => string): TableRow[] => {
+  const columns = targetColumns(data, step);
+  return data.map(row => {
+    const newRow: TableRow = { ...row };
+    columns.forEach(column => {
+      const value = newRow[column];
+      if (typeof value === 'string') newRow[column] = fn(value);
+    });
+    return newRow;
+  });
+};
+
+const computeFillValue = (data: TableRow[], column: string, strategy: MissingValueStrategy, fillValue?: string): string | number | null => {
+  const present = data.map(row => row[column]).filter(v => !isMissing(v)) as Array<string | number>;
+  if (strategy === 'constant') return fillValue ?? '';
+
+  if (strategy === 'mean' || strategy === 'median') {
+    const numbers = present.map(toNumber).filter((n): n is number => n !== null);
+    // Non-numeric columns fall back to the most frequent value.
+    if (numbers.length > 0 && numbers.length === present.length) {
+      if (strategy === 'mean') return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+  }
+
+  const counts = new Map<string | number, number>();
+  present.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let mode: string | number | null = null;
+  let best = 0;
+  counts.forEach((count, value) => {
+    if (count > best) {
+      best = count;
+      mode = value;
+    }
+  });
+  return mode;
+};
+
+interface StepContext {
+  sourceIndexOf: (position: number) => number;
+  dropRow: (position: number, reason: string) => void;
+  dropColumn: (column: string) => void;
+  // Resolved date order per column. A recorded order is reused instead of detected again.
+  dateOrders: Record<string, 'MDY' | 'DMY'>;
+}
+
+// A handler returns one entry per input row, with null in place of rows it removes.
+type StepHandler = (data: TableRow[], step: CleaningStep, ctx: StepContext) => Array<TableRow | null>;
+
+const STEP_HANDLERS: Record<CleaningStepType, StepHandler> = {
+  trimHeaders: data => data.map(row => {
+    const newRow: TableRow = {};
+    for (const key in row) {
+      newRow[key.trim()] = row[key];
+    }
+    return newRow;
+  }),
+
+  trimValues: (data, step) => mapStringValues(data, step, value => value.trim()),
+
+  lowercaseValues: (data, step) => mapStringValues(data, step, value => value.toLowerCase()),
+
+  removeDuplicates: (data, step, ctx) => {
+    const columns = targetColumns(data, step);
+    const firstSeen = new Map<string, number>();
+    return data.map((row, i) => {
+      const key = JSON.stringify(columns.map(column => row[column] ?? null));
+      const first = firstSeen.get(key);
+      if (first !== undefined) {
+        ctx.dropRow(i, `Duplicate of row ${ctx.sourceIndexOf(first) + 1}`);
+        return null;
+      }
+      firstSeen.set(key, i);
+      return row;
+    });
+  },
+
+  handleMissing: (data, step, ctx) => {
+    const columns = targetColumns(data, step);
+    const strategy = step.strategy ?? 'drop';
+
+    if (strategy === 'drop') {
+      return data.map((row, i) => {
+        const missing = columns.filter(column => isMissing(row[column]));
+        if (missing.length === 0) return row;
+        ctx.dropRow(i, `Missing value in ${missing.join(', ')}`);
+        return null;
+      });
+    }
+
+    if (strategy === 'forwardFill') {
+      const last: TableRow = {};
+      return data.map(row => {
+        const newRow: TableRow = { ...row };
+        columns.forEach(column => {
+          if (isMissing(newRow[column])) {
+            newRow[column] = last[column] ?? null;
+          } else {
+            last[column] = newRow[column];
+          }
+        });
+        return newRow;
+      });
+    }
+
+    const fills: TableRow = {};
+    columns.forEach(column => {
+      fills[column] = computeFillValue(data, column, strategy, step.fillValue);
+    });
+    return data.map(row => {
+      const newRow: TableRow = { ...row };
+      columns.forEach(column => {
+        if (isMissing(newRow[column])) newRow[column] = fills[column];
+      });
+      return newRow;
+    });
+  },
+
+  dropConstantColumns: (data, _step, ctx) => {
+    const constant = getHeaders(data).filter(column => {
+      const distinct = new Set(data.map(row => (isMissing(row[column]) ? '' : String(row[column]))));
+      return distinct.size <= 1;
+    });
+    if (constant.length === 0) return data;
+    constant.forEach(ctx.dropColumn);
+    return data.map(row => {
+      const newRow: TableRow = { ...row };
+      constant.forEach(column => delete newRow[column]);
+      return newRow;
+    });
+  },
+
+  parseDates: (data, step, ctx) => {
+    const explicit = !!step.columns && step.columns.length > 0;
+    const plans = targetColumns(data, step)
+      .map(column => ({
+        column,
+        plan: planDateConversion(column, data.slice(0, 1000).map(row => row[column] ?? null), ctx.dateOrders[column] ?? step.dateOrder, explicit),
+      }))
+      .filter(({ plan }) => plan !== null);
+    plans.forEach(({ column, plan }) => {
+      ctx.dateOrders[column] = plan!.order;
+    });
+    if (plans.length === 0) return data;
+    return data.map(row => {
+      const newRow: TableRow = { ...row };
+      plans.forEach(({ column, plan }) => {
+        const time = parseDateValue(newRow[column], plan!.order, plan!.allowNumeric);
+        if (time !== null) newRow[column] = formatTimestamp(time, plan!.withTime);
+      });
+      return newRow;
+    });
+  },
+
+  convertNumbers: data => data.map(row => {
+    const newRow: TableRow = {};
+    for (const key in row) {
+      const value = row[key];
+      const n = typeof value === 'string' ? toNumber(value) : null;
+      newRow[key] = n !== null ? n : value;
+    }
+    return newRow;
+  }),
+};
+
+// Steps that transform each row on its own and can therefore be replayed on restored rows.
+const ROW_WISE_STEPS: CleaningStepType[] = ['trimHeaders', 'trimValues', 'lowercaseValues', 'parseDates', 'convertNumbers'];
+
+// Only the first changes are kept in full so the report stays small on large files.
+const MAX_RECORDED_CELL_CHANGES = 5000;
+
+// Runs the enabled steps of a cleaning recipe in order and records what each step removed or changed.
+// onStep is called before each step with its position among the enabled steps.
+export const applyCleaningRecipe = (
+  data: TableRow[],
+  recipe: CleaningRecipe,
+  onStep?: (step: CleaningStep, index: number, total: number) => void,
+): { cleanedData: TableRow[]; report: CleaningReport } => {
+  const report: CleaningReport = {
+    originalRowCount: data?.length ?? 0,
+    steps: [],
+    droppedRows: [],
+    changedCells: [],
+    restoredRowCount: 0,
+  };
+  if (!data || data.length === 0) return { cleanedData: [], report };
+
+  let rows = data;
+  let sourceIndices = data.map((_, i) => i);
+
+  const enabledSteps = recipe.filter(step => step.enabled);
+  enabledSteps.forEach(step => {
+    const stepIndex = report.steps.length;
+    onStep?.(step, stepIndex, enabledSteps.length);
+    const reasons = new Map<number, string>();
+    const columnsRemoved: string[] = [];
+    const dateOrders: Record<string, 'MDY' | 'DMY'> = {};
+    const ctx: StepContext = {
+      sourceIndexOf: position => sourceIndices[position],
+      dropRow: (position, reason) => reasons.set(position, reason),
+      dropColumn: column => columnsRemoved.push(column),
+      dateOrders,
+    };
+
+    const output = STEP_HANDLERS[step.type](rows, step, ctx);
+    const nextRows: TableRow[] = [];
+    const nextIndices: number[] = [];
+    let cellsChanged = 0;
+
+    output.forEach((row, i) => {
+      const before = rows[i];
+      const sourceIndex = sourceIndices[i];
+      if (row === null) {
+        report.droppedRows.push({ sourceIndex, stepIndex, reason: reasons.get(i) ?? 'Removed', row: before });
+        return;
+      }
+      if (row !== before) {
+        for (const column in row) {
+          if (column in before && row[column] !== before[column]) {
+            cellsChanged++;
+            if (report.changedCells.length < MAX_RECORDED_CELL_CHANGES) {
+              report.changedCells.push({ sourceIndex, stepIndex, column, before: before[column], after: row[column] });
+            }
+          }
+        }
+      }
+      nextRows.push(row);
+      nextIndices.push(sourceIndex);
+    });
+
+    report.steps.push({
+      step,
+      rowsBefore: rows.length,
+      rowsAfter: nextRows.length,
+      cellsChanged,
+      columnsRemoved,
+      ...(step.type === 'parseDates' ? { dateOrders } : {}),
+    });
+    rows = nextRows;
+    sourceIndices = nextIndices;
+  });
+
+  return { cleanedData: rows, report };
+};
+
+// Puts previously dropped rows back into the cleaned data. The row-wise steps that ran after
+// the row was dropped are replayed on it, and it is aligned to the current columns. Dates are read in the
+// order found when cleaning, since a few restored rows rarely show it on their own.
+export const restoreDroppedRows = (
+  cleanedData: TableRow[],
+  report: CleaningReport,
+  sourceIndices: number[],
+): { cleanedData: TableRow[]; report: CleaningReport } => {
+  const toRestore = new Set(sourceIndices);
+  const columns = cleanedData.length > 0 ? getHeaders(cleanedData) : [];
+
+  const restored = report.droppedRows
+    .filter(dropped => toRestore.has(dropped.sourceIndex))
+    .sort((a, b) => a.sourceIndex - b.sourceIndex)
+    .map(dropped => {
+      let row = dropped.row;
+      report.steps.slice(dropped.stepIndex + 1).forEach(({ step, dateOrders }) => {
+        if (ROW_WISE_STEPS.includes(step.type)) {
+          const ctx: StepContext = { sourceIndexOf: i => i, dropRow: () => {}, dropColumn: () => {}, dateOrders: { ...dateOrders } };
+          row = STEP_HANDLERS[step.type]([row], step, ctx)[0] ?? row;
+        }
+      });
+      if (columns.length === 0) return row;
+      const aligned: TableRow = {};
+      columns.forEach(column => {
+        aligned[column] = row[column] ?? null;
+      });
+      return aligned;
+    });
+
+  return {
+    cleanedData: [...cleanedData, ...restored],
+    report: {
+      ...report,
+      droppedRows: report.droppedRows.filter(dropped => !toRestore.has(dropped.sourceIndex)),
+      restoredRowCount: report.restoredRowCount + restored.length,
+    },
+  };
+};
+
+// e.g. `Handle missing values (fill with mean) in Price`, for the recipe summary and the cleaning report.
+export const describeCleaningStep = (step: CleaningStep): string => {
+  let label = CLEANING_STEP_LABELS[step.type];
+  if (step.type === 'handleMissing') {
+    label += ` (${MISSING_VALUE_STRATEGY_LABELS[step.strategy ?? 'drop'].toLowerCase()}${step.strategy === 'constant' ? ` "${step.fillValue ?? ''}"` : ''})`;
+  }
+  if (step.type === 'parseDates' && step.dateOrder && step.dateOrder !== 'auto') {
+    label += ` (${step.dateOrder === 'MDY' ? 'month first' : 'day first'})`;
+  }
+  if (step.columns && step.columns.length > 0) {
+    label += step.type === 'removeDuplicates' ? ` by ${step.columns.join(', ')}` : ` in ${step.columns.join(', ')}`;
+  }
+  return label;
+};
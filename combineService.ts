@@ -0,0 +1,259 @@
+import type { TableRow, CellValue, ColumnSchema, ColumnType } from '../types';
+import { isNumericType, parseNumericValue } from './schemaService';
+
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+export const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  inner: 'Inner: only rows whose keys match',
+  left: 'Left: all rows of the first table',
+  right: 'Right: all rows of the second table',
+  full: 'Full: all rows of both tables',
+};
+
+export type AppendMode = 'all' | 'common';
+
+export const APPEND_MODE_LABELS: Record<AppendMode, string> = {
+  all: 'Keep every column, leaving cells empty where a table lacks it',
+  common: 'Keep only the columns every table has',
+};
+
+// A column of the first table matched against a column of the second.
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+export interface CombineTable {
+  name: string;
+  data: TableRow[];
+  schema: ColumnSchema[];
+}
+
+export interface JoinPreview {
+  leftMatched: number;
+  leftTotal: number;
+  rightMatched: number;
+  rightTotal: number;
+  // A few keys from each side that found no partner, for spotting formatting differences.
+  unmatchedLeftKeys: string[];
+  unmatchedRightKeys: string[];
+  // Second-table keys that appear on more than one row, which repeat the matching first-table rows.
+  duplicateRightKeys: number;
+  rowCounts: Record<JoinType, number>;
+}
+
+export interface AppendColumn {
+  name: string;
+  type: ColumnType;
+  // Whether each table has the column, in table order.
+  presentIn: boolean[];
+  // Set when the tables disagree on the type, so the values are combined as text.
+  typeConflict: boolean;
+}
+
+const UNMATCHED_SAMPLE_SIZE = 8;
+const SOURCE_COLUMN = 'source_table';
+
+// Keys compare as trimmed text so 42 and "42" match. Rows with an empty key part never match.
+const getKey = (row: TableRow, columns: string[]): string | null => {
+  const parts: string[] = [];
+  for (const column of columns) {
+    const value = row[column];
+    if (value === null || value === undefined) return null;
+    const text = String(value).trim();
+    if (text === '') return null;
+    parts.push(text);
+  }
+  return parts.join('\u0000');
+};
+
+const formatKey = (key: string) => key.split('\u0000').join(' | ');
+
+const indexRows = (data: TableRow[], columns: string[]): Map<string, number[]> => {
+  const index = new Map<string, number[]>();
+  data.forEach((row, i) => {
+    const key = getKey(row, columns);
+    if (key === null) return;
+    const rows = index.get(key);
+    if (rows) rows.push(i);
+    else index.set(key, [i]);
+  });
+  return index;
+};
+
+const sampleUnmatched = (data: TableRow[], columns: string[], matched: (key: string | null) => boolean): string[] => {
+  const sample = new Set<string>();
+  for (const row of data) {
+    if (sample.size >= UNMATCHED_SAMPLE_SIZE) break;
+    const key = getKey(row, columns);
+    if (!matched(key)) sample.add(key === null ? '(empty)' : formatKey(key));
+  }
+  return [...sample];
+};
+
+export const previewJoin = (left: CombineTable, right: CombineTable, keys: JoinKey[]): JoinPreview => {
+  const leftColumns = keys.map(key => key.left);
+  const rightColumns = keys.map(key => key.right);
+  const leftIndex = indexRows(left.data, leftColumns);
+  const rightIndex = indexRows(right.data, rightColumns);
+
+  let leftMatched = 0;
+  let matchedPairs = 0;
+  leftIndex.forEach((rows, key) => {
+    const partners = rightIndex.get(key)?.length ?? 0;
+    if (partners > 0) leftMatched += rows.length;
+    matchedPairs += rows.length * partners;
+  });
+  let rightMatched = 0;
+  let duplicateRightKeys = 0;
+  rightIndex.forEach((rows, key) => {
+    if (leftIndex.has(key)) rightMatched += rows.length;
+    if (rows.length > 1) duplicateRightKeys++;
+  });
+
+  const leftUnmatched = left.data.length - leftMatched;
+  const rightUnmatched = right.data.length - rightMatched;
+  return {
+    leftMatched,
+    leftTotal: left.data.length,
+    rightMatched,
+    rightTotal: right.data.length,
+    unmatchedLeftKeys: sampleUnmatched(left.data, leftColumns, key => key !== null && rightIndex.has(key)),
+    unmatchedRightKeys: sampleUnmatched(right.data, rightColumns, key => key !== null && leftIndex.has(key)),
+    duplicateRightKeys,
+    rowCounts: {
+      inner: matchedPairs,
+      left: matchedPairs + leftUnmatched,
+      right: matchedPairs + rightUnmatched,
+      full: matchedPairs + leftUnmatched + rightUnmatched,
+    },
+  };
+};
+
+// Combined tables hold plain values, so formulas are dropped: their inputs may have been renamed.
+const toPlainColumn = ({ formula: _formula, ...column }: ColumnSchema, name = column.name): ColumnSchema => ({ ...column, name });
+
+/**
+ * Joins two tables on one or more key columns. The key columns appear once, under the first
+ * table's names, and rows found only in the second table take their key values from it. Other
+ * second-table columns whose names are already taken get the table's name appended.
+ */
+export const joinTables = (left: CombineTable, right: CombineTable, keys: JoinKey[], type: JoinType): { data: TableRow[]; schema: ColumnSchema[] } => {
+  const leftColumns = keys.map(key => key.left);
+  const rightColumns = keys.map(key => key.right);
+  const rightKeyNames = new Set(rightColumns);
+
+  const schema = left.schema.map(column => toPlainColumn(column));
+  const taken = new Set(schema.map(column => column.name));
+  const rightNames = new Map<string, string>();
+  right.schema.forEach(column => {
+    if (rightKeyNames.has(column.name)) return;
+    let name = column.name;
+    if (taken.has(name)) {
+      name = `${column.name} (${right.name})`;
+      for (let n = 2; taken.has(name); n++) name = `${column.name} (${right.name} ${n})`;
+    }
+    taken.add(name);
+    rightNames.set(column.name, name);
+    schema.push(toPlainColumn(column, name));
+  });
+
+  const numericLeftKeys = new Set(leftColumns.filter(name => isNumericType(left.schema.find(column => column.name === name)?.type)));
+  const combine = (leftRow: TableRow | null, rightRow: TableRow | null): TableRow => {
+    const row: TableRow = {};
+    left.schema.forEach(({ name }) => {
+      row[name] = leftRow?.[name] ?? null;
+    });
+    if (!leftRow && rightRow) {
+      keys.forEach(key => {
+        const value = rightRow[key.right] ?? null;
+        row[key.left] = numericLeftKeys.has(key.left) ? parseNumericValue(value) : value;
+      });
+    }
+    rightNames.forEach((name, source) => {
+      row[name] = rightRow?.[source] ?? null;
+    });
+    return row;
+  };
+
+  const rightIndex = indexRows(right.data, rightColumns);
+  const rightMatched = new Uint8Array(right.data.length);
+  const data: TableRow[] = [];
+  left.data.forEach(leftRow => {
+    const key = getKey(leftRow, leftColumns);
+    const partners = key === null ? undefined : rightIndex.get(key);
+    if (partners) {
+      partners.forEach(i => {
+        rightMatched[i] = 1;
+        data.push(combine(leftRow, right.data[i]));
+      });
+    } else if (type === 'left' || type === 'full') {
+      data.push(combine(leftRow, null));
+    }
+  });
+  if (type === 'right' || type === 'full') {
+    right.data.forEach((rightRow, i) => {
+      if (!rightMatched[i]) data.push(combine(null, rightRow));
+    });
+  }
+  return { data, schema };
+};
+
+const mergeTypes = (types: ColumnType[]): { type: ColumnType; typeConflict: boolean } => {
+  const [first] = types;
+  if (types.every(type => type === first)) return { type: first, typeConflict: false };
+  if (types.every(isNumericType)) return { type: 'float', typeConflict: false };
+  return { type: 'text', typeConflict: true };
+};
+
+// Lines up the tables' columns by name, in order of first appearance.
+export const alignColumns = (tables: CombineTable[], mode: AppendMode): AppendColumn[] => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  tables.forEach(table => table.schema.forEach(({ name }) => {
+    if (!seen.has(name)) {
+      seen.add(name);
+      names.push(name);
+    }
+  }));
+
+  return names
+    .map(name => {
+      const columns = tables.map(table => table.schema.find(column => column.name === name));
+      const { type, typeConflict } = mergeTypes(columns.filter(column => column !== undefined).map(column => column.type));
+      return { name, type, presentIn: columns.map(column => column !== undefined), typeConflict };
+    })
+    .filter(column => mode === 'all' || column.presentIn.every(Boolean));
+};
+
+/**
+ * Stacks the tables' rows under the aligned columns. Columns whose types disagree are kept as
+ * text. With addSource, a leading column records which table each row came from.
+ */
+export const appendTables = (tables: CombineTable[], mode: AppendMode, addSource: boolean): { data: TableRow[]; schema: ColumnSchema[] } => {
+  const columns = alignColumns(tables, mode);
+  let sourceColumn = SOURCE_COLUMN;
+  for (let n = 2; columns.some(column => column.name === sourceColumn); n++) sourceColumn = `${SOURCE_COLUMN}_${n}`;
+
+  const schema: ColumnSchema[] = columns.map(column => {
+    const original = tables.map(table => table.schema.find(({ name }) => name === column.name)).find(Boolean);
+    return column.typeConflict || original.type !== column.type
+      ? { name: column.name, type: column.type, inferredType: column.type, confidence: 1, overridden: false }
+      : toPlainColumn(original);
+  });
+  if (addSource) {
+    schema.unshift({ name: sourceColumn, type: 'categorical', inferredType: 'categorical', confidence: 1, overridden: false });
+  }
+
+  const data: TableRow[] = [];
+  tables.forEach(table => table.data.forEach(source => {
+    const row: TableRow = {};
+    if (addSource) row[sourceColumn] = table.name;
+    columns.forEach(({ name, typeConflict }) => {
+      const value: CellValue = source[name] ?? null;
+      row[name] = typeConflict && value !== null ? String(value) : value;
+    });
+    data.push(row);
+  }));
+  return { data, schema };
+};
@@ -0,0 +1,195 @@
+import type { TableRow, ColumnSchema, ChartConfig } from '../types';
+import { getColumnsOfTypes, NUMERIC_COLUMN_TYPES } from './schemaService';
+import { correlationRatio, cramersV, mean, numericPairs, pearson, spearman, type CorrelationMethod } from './statsService';
+import { labelOf } from './aggregationService';
+import { DEFAULT_CHART_CONFIG, MAX_HEATMAP_COLUMNS } from './chartService';
+import { formatStat } from './profileService';
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson (linear)',
+  spearman: 'Spearman (rank)',
+};
+
+export type RelationshipKind = 'numeric' | 'categorical' | 'mixed';
+
+export interface GroupMean {
+  group: string;
+  mean: number;
+  count: number;
+}
+
+export interface Relationship {
+  kind: RelationshipKind;
+  // Mixed pairs list the numeric column first.
+  columns: [string, string];
+  // Signed for correlations; Cramér's V and η run from 0 to 1.
+  value: number;
+  strength: number;
+  // Rows where both columns have a value.
+  count: number;
+  // Mixed pairs only: the numeric column's mean per group, highest first.
+  groupMeans?: GroupMean[];
+}
+
+export interface CorrelationAnalysis {
+  method: CorrelationMethod;
+  numericColumns: string[];
+  matrix: number[][];
+  categoricalColumns: string[];
+  cramersMatrix: number[][];
+  // Every pair with enough data, strongest first.
+  relationships: Relationship[];
+}
+
+// Categorical columns with more levels than this are treated as identifiers and left out.
+export const MAX_CATEGORY_LEVELS = 50;
+// Relationships at least this strong are passed on to the AI summary.
+const NOTABLE_STRENGTH = 0.3;
+const MAX_SUMMARY_RELATIONSHIPS = 5;
+const MIN_PAIR_ROWS = 3;
+
+const MEASURE_LABELS: Record<RelationshipKind | CorrelationMethod, string> = {
+  pearson: 'r',
+  spearman: 'ρ',
+  numeric: 'r',
+  categorical: "Cramér's V",
+  mixed: 'η',
+};
+
+export const getMeasureLabel = (relationship: Relationship, method: CorrelationMethod): string =>
+  relationship.kind === 'numeric' ? MEASURE_LABELS[method] : MEASURE_LABELS[relationship.kind];
+
+export const describeStrength = (strength: number): string =>
+  strength >= 0.7 ? 'strong' : strength >= 0.4 ? 'moderate' : strength >= 0.2 ? 'weak' : 'negligible';
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+// Categorical and boolean columns with between 2 and MAX_CATEGORY_LEVELS distinct values.
+const getCategoricalColumns = (data: TableRow[], schema: ColumnSchema[]): string[] =>
+  getColumnsOfTypes(schema, ['categorical', 'boolean'])
+    .filter(column => {
+      const levels = new Set<string>();
+      for (const row of data) {
+        if (isMissing(row[column])) continue;
+        levels.add(labelOf(row[column]));
+        if (levels.size > MAX_CATEGORY_LEVELS) return false;
+      }
+      return levels.size >= 2;
+    })
+    .slice(0, MAX_HEATMAP_COLUMNS);
+
+const categoricalPairs = (data: TableRow[], a: string, b: string): { xs: string[]; ys: string[] } => {
+  const xs: string[] = [];
+  const ys: string[] = [];
+  data.forEach(row => {
+    if (isMissing(row[a]) || isMissing(row[b])) return;
+    xs.push(labelOf(row[a]));
+    ys.push(labelOf(row[b]));
+  });
+  return { xs, ys };
+};
+
+const compareGroups = (data: TableRow[], numeric: string, categorical: string): Relationship | null => {
+  const groups = new Map<string, number[]>();
+  data.forEach(row => {
+    const value = row[numeric];
+    if (typeof value !== 'number' || !Number.isFinite(value) || isMissing(row[categorical])) return;
+    const label = labelOf(row[categorical]);
+    const group = groups.get(label);
+    if (group) group.push(value);
+    else groups.set(label, [value]);
+  });
+  const eta = correlationRatio([...groups.values()]);
+  if (Number.isNaN(eta)) return null;
+  const groupMeans = [...groups]
+    .map(([group, values]) => ({ group, mean: mean(values), count: values.length }))
+    .sort((a, b) => b.mean - a.mean);
+  return {
+    kind: 'mixed',
+    columns: [numeric, categorical],
+    value: eta,
+    strength: eta,
+    count: groupMeans.reduce((total, { count }) => total + count, 0),
+    groupMeans,
+  };
+};
+
+/**
+ * Measures every pair of columns: correlation between numeric columns, Cramér's V between
+ * categorical ones and the correlation ratio η between a numeric and a categorical column.
+ */
+export const analyzeCorrelations = (data: TableRow[], schema: ColumnSchema[], method: CorrelationMethod = 'pearson'): CorrelationAnalysis => {
+  const numericColumns = getColumnsOfTypes(schema, NUMERIC_COLUMN_TYPES).slice(0, MAX_HEATMAP_COLUMNS);
+  const categoricalColumns = getCategoricalColumns(data, schema);
+  const correlate = method === 'spearman' ? spearman : pearson;
+  const relationships: Relationship[] = [];
+
+  const matrix = numericColumns.map(() => numericColumns.map(() => 1));
+  for (let i = 0; i < numericColumns.length; i++) {
+    for (let j = i + 1; j < numericColumns.length; j++) {
+      const { xs, ys } = numericPairs(data, numericColumns[i], numericColumns[j]);
+      const r = xs.length >= MIN_PAIR_ROWS ? correlate(xs, ys) : NaN;
+      matrix[i][j] = matrix[j][i] = r;
+      if (!Number.isNaN(r)) {
+        relationships.push({ kind: 'numeric', columns: [numericColumns[i], numericColumns[j]], value: r, strength: Math.abs(r), count: xs.length });
+      }
+    }
+  }
+
+  const cramersMatrix = categoricalColumns.map(() => categoricalColumns.map(() => 1));
+  for (let i = 0; i < categoricalColumns.length; i++) {
+    for (let j = i + 1; j < categoricalColumns.length; j++) {
+      const { xs, ys } = categoricalPairs(data, categoricalColumns[i], categoricalColumns[j]);
+      const v = xs.length >= MIN_PAIR_ROWS ? cramersV(xs, ys) : NaN;
+      cramersMatrix[i][j] = cramersMatrix[j][i] = v;
+      if (!Number.isNaN(v)) {
+        relationships.push({ kind: 'categorical', columns: [categoricalColumns[i], categoricalColumns[j]], value: v, strength: v, count: xs.length });
+      }
+    }
+  }
+
+  numericColumns.forEach(numeric => categoricalColumns.forEach(categorical => {
+    const comparison = compareGroups(data, numeric, categorical);
+    if (comparison) relationships.push(comparison);
+  }));
+
+  relationships.sort((a, b) => b.strength - a.strength);
+  return { method, numericColumns, matrix, categoricalColumns, cramersMatrix, relationships };
+};
+
+export const describeRelationship = (relationship: Relationship, method: CorrelationMethod): string => {
+  const [a, b] = relationship.columns;
+  const measure = `${getMeasureLabel(relationship, method)} = ${relationship.value.toFixed(2)}`;
+  const strength = describeStrength(relationship.strength);
+  switch (relationship.kind) {
+    case 'numeric':
+      return `${a} and ${b}: ${strength} ${relationship.value >= 0 ? 'positive' : 'negative'} correlation (${measure}, ${relationship.count} rows)`;
+    case 'categorical':
+      return `${a} and ${b}: ${strength} association (${measure}, ${relationship.count} rows)`;
+    case 'mixed': {
+      const means = relationship.groupMeans ?? [];
+      const highest = means[0];
+      const lowest = means[means.length - 1];
+      return `${a} by ${b}: ${strength} difference between groups (${measure}); highest mean ${formatStat(highest.mean)} for ${highest.group}, lowest ${formatStat(lowest.mean)} for ${lowest.group}`;
+    }
+  }
+};
+
+// The strongest relationships as lines for the AI summary.
+export const summarizeRelationships = (analysis: CorrelationAnalysis): string[] =>
+  analysis.relationships
+    .filter(relationship => relationship.strength >= NOTABLE_STRENGTH)
+    .slice(0, MAX_SUMMARY_RELATIONSHIPS)
+    .map(relationship => describeRelationship(relationship, analysis.method));
+
+// The chart that shows a relationship: a scatter plot, a box plot per group, or counts per pair of categories.
+export const getRelationshipChart = (kind: RelationshipKind, [a, b]: [string, string]): ChartConfig => {
+  switch (kind) {
+    case 'numeric':
+      return { ...DEFAULT_CHART_CONFIG, chartType: 'scatter', xAxisKey: b, yAxisKey: a };
+    case 'mixed':
+      return { ...DEFAULT_CHART_CONFIG, chartType: 'box', xAxisKey: b, yAxisKey: a };
+    case 'categorical':
+      return { ...DEFAULT_CHART_CONFIG, chartType: 'stackedBar', xAxisKey: a, seriesKey: b, aggregation: 'count' };
+  }
+};
@@ -0,0 +1,252 @@
+import Papa from 'papaparse';
+import type { TableRow, CsvImportOptions } from '../types';
+import { inferSchema, isNumericType } from './schemaService';
+
+export const CSV_DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+  ' ': 'Space',
+};
+
+export const CSV_ENCODING_LABELS: Record<string, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (Western European)',
+  'iso-8859-1': 'ISO-8859-1 (Latin-1)',
+  'iso-8859-15': 'ISO-8859-15 (Latin-9)',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'shift_jis': 'Shift JIS',
+  'gb18030': 'GB18030',
+};
+
+export const DECIMAL_SEPARATOR_LABELS: Record<CsvImportOptions['decimalSeparator'], string> = {
+  '.': 'Point (1234.5)',
+  ',': 'Comma (1234,5)',
+};
+
+export const THOUSANDS_SEPARATOR_LABELS: Record<CsvImportOptions['thousandsSeparator'], string> = {
+  '': 'None',
+  ',': 'Comma (1,234)',
+  '.': 'Point (1.234)',
+  ' ': 'Space (1 234)',
+  "'": "Apostrophe (1'234)",
+};
+
+export const CSV_PREVIEW_ROWS = 8;
+const PREVIEW_BYTES = 256 * 1024;
+const SNIFF_BYTES = 64 * 1024;
+const CHUNK_BYTES = 4 * 1024 * 1024;
+// Rows checked to decide which columns hold numbers written with other separators.
+const NUMBER_SAMPLE_ROWS = 5000;
+const SNIFF_LINES = 30;
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+export const defaultCsvImportOptions = (delimiter = ','): CsvImportOptions => ({
+  delimiter,
+  encoding: 'utf-8',
+  decimalSeparator: '.',
+  thousandsSeparator: '',
+  headerRow: 1,
+  commentPrefix: '',
+  quoteChar: '"',
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const detectEncoding = (head: Uint8Array): string => {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return 'utf-8';
+  if (head[0] === 0xff && head[1] === 0xfe) return 'utf-16le';
+  if (head[0] === 0xfe && head[1] === 0xff) return 'utf-16be';
+  try {
+    // `stream` stops a character cut off at the end of the sample from counting as invalid.
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// Splits one line on the delimiter, ignoring delimiters inside quotes. Only used for sniffing.
+const splitLine = (line: string, delimiter: string, quoteChar: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === quoteChar) inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else current += char;
+  }
+  fields.push(current);
+  return fields;
+};
+
+const mostCommon = (values: number[]): { value: number; count: number } => {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best = { value: 0, count: 0 };
+  counts.forEach((count, value) => {
+    if (count > best.count || (count === best.count && value > best.value)) best = { value, count };
+  });
+  return best;
+};
+
+const detectNumberFormat = (fields: string[]): Pick<CsvImportOptions, 'decimalSeparator' | 'thousandsSeparator'> => {
+  const values = fields.map(field => field.trim()).filter(field => /^[-+]?[\d.,' ]*\d$/.test(field));
+  const commaDecimals = values.filter(value => /^[-+]?(\d{1,3}(\.\d{3})+|\d+),\d+$/.test(value) && !/^[-+]?\d{1,3}(,\d{3})+$/.test(value)).length;
+  const pointDecimals = values.filter(value => /^[-+]?(\d{1,3}(,\d{3})+|\d+)\.\d+$/.test(value) && !/^[-+]?\d{1,3}(\.\d{3})+$/.test(value)).length;
+  if (commaDecimals > pointDecimals) {
+    const grouped = values.some(value => /^[-+]?\d{1,3}(\.\d{3})+(,\d+)?$/.test(value));
+    return { decimalSeparator: ',', thousandsSeparator: grouped ? '.' : '' };
+  }
+  const grouped = values.some(value => /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value));
+  return { decimalSeparator: '.', thousandsSeparator: grouped ? ',' : '' };
+};
+
+/**
+ * Guesses import settings from the start of the file: encoding from the byte order mark or UTF-8
+ * validity, the delimiter that splits most lines into the same number of fields, the first line with
+ * that many fields as the header (anything above it is preamble), a "#" comment prefix, and the number format.
+ */
+export const sniffCsvImportOptions = async (file: File, preferredDelimiter?: string): Promise<CsvImportOptions> => {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const encoding = detectEncoding(head);
+  const text = new TextDecoder(encoding).decode(head);
+  const allLines = text.split(/\r\n|\n|\r/).slice(0, SNIFF_LINES);
+  // The last sampled line may be cut short.
+  const lines = allLines.length > 1 ? allLines.slice(0, -1) : allLines;
+
+  const commentPrefix = lines.some(line => line.startsWith('#')) ? '#' : '';
+  const isData = (line: string) => line.trim() !== '' && !(commentPrefix && line.startsWith(commentPrefix));
+  const quoteChar = '"';
+
+  const candidates = preferredDelimiter ? [preferredDelimiter] : CANDIDATE_DELIMITERS;
+  let delimiter = preferredDelimiter ?? ',';
+  let bestScore = 0;
+  candidates.forEach(candidate => {
+    const fieldCounts = lines.filter(isData).map(line => splitLine(line, candidate, quoteChar).length);
+    const { value, count } = mostCommon(fieldCounts);
+    if (value > 1 && count > bestScore) {
+      delimiter = candidate;
+      bestScore = count;
+    }
+  });
+
+  const fieldCounts = lines.map(line => (isData(line) ? splitLine(line, delimiter, quoteChar).length : -1));
+  const expected = mostCommon(fieldCounts.filter(count => count > 0)).value;
+  const headerIndex = fieldCounts.findIndex(count => count === expected);
+
+  const dataFields = lines
+    .slice(headerIndex + 1)
+    .filter(isData)
+    .flatMap(line => splitLine(line, delimiter, quoteChar));
+
+  return {
+    ...defaultCsvImportOptions(delimiter),
+    ...detectNumberFormat(dataFields),
+    encoding,
+    headerRow: headerIndex >= 0 ? headerIndex + 1 : 1,
+    commentPrefix,
+    quoteChar,
+  };
+};
+
+// Decodes only the start of the file; enough for the preview without reading a large file into memory.
+export const decodeFilePreview = async (file: File, encoding: string): Promise<string> =>
+  new TextDecoder(encoding).decode(await file.slice(0, PREVIEW_BYTES).arrayBuffer());
+
+// Drops the preamble above the header row, keeping the rest of the text exactly as it was.
+const skipLines = (text: string, count: number): string => {
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    const next = text.slice(offset).search(/\r\n|\n|\r/);
+    if (next === -1) return '';
+    offset += next + (text.startsWith('\r\n', offset + next) ? 2 : 1);
+  }
+  return text.slice(offset);
+};
+
+// Rewrites numbers such as "1.234,5" to "1234.5" so type inference reads them the usual way. Only a cell
+// that is a number as a whole matches, allowing a currency code or symbol, sign, brackets or percent sign.
+const createNumberNormalizer = ({ decimalSeparator, thousandsSeparator }: CsvImportOptions) => {
+  if (decimalSeparator === '.' && (thousandsSeparator === '' || thousandsSeparator === ',')) return null;
+  const grouping = thousandsSeparator ? `\\d{1,3}(?:${escapeRegExp(thousandsSeparator)}\\d{3})+|` : '';
+  const pattern = new RegExp(`^((?:[A-Z]{3}\\s+)?[-+(\\s$€£¥₹]*?)([-+]?)(${grouping}\\d+)(?:${escapeRegExp(decimalSeparator)}(\\d+))?([\\s$€£¥₹%)]*)$`);
+  return (value: string): string => {
+    const match = pattern.exec(value.trim());
+    if (!match) return value;
+    const [, prefix, sign, integer, fraction, suffix] = match;
+    const digits = thousandsSeparator ? integer.split(thousandsSeparator).join('') : integer;
+    return `${prefix}${sign}${digits}${fraction !== undefined ? `.${fraction}` : ''}${suffix}`;
+  };
+};
+
+const papaConfig = (options: CsvImportOptions) => ({
+  header: true,
+  skipEmptyLines: true,
+  delimiter: options.delimiter,
+  quoteChar: options.quoteChar || '"',
+  comments: options.commentPrefix || false,
+});
+
+const toRows = (data: Record<string, string | undefined>[], fields: string[]): TableRow[] =>
+  data.map(raw => {
+    const row: TableRow = {};
+    fields.forEach(field => {
+      row[field] = raw[field] ?? null;
+    });
+    return row;
+  });
+
+/**
+ * Normalises the numbers in the columns that read as numeric once normalised, judged on rows spread
+ * through the file. Other columns, such as codes or addresses, keep their text as it was.
+ */
+const normalizeNumberColumns = (rows: TableRow[], options: CsvImportOptions): TableRow[] => {
+  const normalize = createNumberNormalizer(options);
+  if (!normalize || rows.length === 0) return rows;
+  const normalizeRow = (row: TableRow, columns: string[]): TableRow => {
+    const next: TableRow = { ...row };
+    columns.forEach(column => {
+      const value = row[column];
+      if (typeof value === 'string') next[column] = normalize(value);
+    });
+    return next;
+  };
+  const step = Math.max(1, Math.floor(rows.length / NUMBER_SAMPLE_ROWS));
+  const sample = rows.filter((_, i) => i % step === 0).map(row => normalizeRow(row, Object.keys(row)));
+  const numeric = inferSchema(sample).filter(column => isNumericType(column.type)).map(column => column.name);
+  return numeric.length === 0 ? rows : rows.map(row => normalizeRow(row, numeric));
+};
+
+export const previewCsvText = (text: string, options: CsvImportOptions): { fields: string[]; rows: TableRow[] } => {
+  const results = Papa.parse(skipLines(text, options.headerRow - 1), { ...papaConfig(options), preview: CSV_PREVIEW_ROWS });
+  const fields: string[] = results.meta.fields ?? [];
+  return { fields, rows: normalizeNumberColumns(toRows(results.data, fields), options) };
+};
+
+/**
+ * Parses a delimited file a few megabytes at a time instead of decoding it in one go, calling
+ * onProgress with the share of the file read so far.
+ */
+export const streamCsvFile = (file: File, options: CsvImportOptions, onProgress?: (fraction: number) => void): Promise<TableRow[]> =>
+  new Promise((resolve, reject) => {
+    const rows: TableRow[] = [];
+    Papa.parse(file, {
+      ...papaConfig(options),
+      encoding: options.encoding,
+      chunkSize: CHUNK_BYTES,
+      // The preamble is at the top of the file, so it is always in the first chunk.
+      beforeFirstChunk: (chunk: string) => skipLines(chunk, options.headerRow - 1),
+      chunk: (results: { data: Record<string, string | undefined>[]; meta: { fields?: string[]; cursor: number } }) => {
+        for (const row of toRows(results.data, results.meta.fields ?? [])) rows.push(row);
+        // The cursor counts characters rather than bytes, which is close enough for a progress bar.
+        onProgress?.(Math.min(1, results.meta.cursor / file.size));
+      },
+      complete: () => resolve(normalizeNumberColumns(rows, options)),
+      error: (err: Error) => reject(new Error(`Could not read the file: ${err.message}`)),
+    });
+  });
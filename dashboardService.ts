@@ -0,0 +1,58 @@
+import type { ColumnSchema, SavedDashboard } from '../types';
+
+const DB_NAME = 'data-analysis-ai';
+const DB_VERSION = 1;
+const DASHBOARD_STORE = 'dashboards';
+
+export const DEFAULT_CHART_HEIGHT = 320;
+export const CHART_HEIGHT_OPTIONS = [240, 320, 480];
+
+// Identifies a dataset by its columns, so a re-exported or updated file still matches.
+export const getSchemaSignature = (schema: ColumnSchema[]): string =>
+  schema
+    .map(column => `${column.name}:${column.type}`)
+    .sort()
+    .join('|');
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DASHBOARD_STORE, { keyPath: 'schemaSignature' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(DASHBOARD_STORE, mode).objectStore(DASHBOARD_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadSavedDashboard = async (schemaSignature: string): Promise<SavedDashboard | null> => {
+  const dashboard = await runRequest<SavedDashboard | undefined>('readonly', store => store.get(schemaSignature));
+  return dashboard ?? null;
+};
+
+// An empty dashboard is deleted rather than stored, so it is not offered again.
+export const saveDashboard = async (dashboard: SavedDashboard): Promise<void> => {
+  if (dashboard.charts.length === 0) {
+    await runRequest('readwrite', store => store.delete(dashboard.schemaSignature));
+  } else {
+    await runRequest('readwrite', store => store.put(dashboard));
+  }
+};
+
+export const createChartId = (): string => `chart-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -1,157 +1,125 @@
 
-import type { TableRow } from '../types';
-
-declare const Papa: any;
-declare const XLSX: any;
-
-// Parses the uploaded file (CSV or Excel) into an array of objects.
-const parseFile = (file: File): Promise<TableRow[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event: ProgressEvent<FileReader>) => {
-      if (!event.target?.result) {
-        return reject(new Error("Failed to read file."));
-      }
-      
-      const data = event.target.result;
-      let jsonData: TableRow[] = [];
-
-      if (file.name.endsWith('.csv')) {
-        Papa.parse(data as string, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results: { data: TableRow[] }) => {
-            jsonData = results.data;
-            resolve(jsonData);
-          },
-          error: (err: Error) => reject(err),
-        });
-      } else if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        jsonData = XLSX.utils.sheet_to_json(worksheet);
-        resolve(jsonData);
-      } else {
-        reject(new Error("Unsupported file type. Please upload a CSV or Excel file."));
-      }
-    };
-    reader.onerror = () => reject(new Error("Error reading file."));
-
-    if (file.name.endsWith('.csv')) {
-        reader.readAsText(file);
-    } else {
-        reader.readAsBinaryString(file);
-    }
-  });
+import type { TableRow, CleaningRecipe, CleaningReport, ColumnSchema, ColumnStat, TableProfile, ImportOptions, ImportProgress, CsvImportOptions } from '../types';
+import { applyCleaningRecipe, describeCleaningStep, DEFAULT_CLEANING_RECIPE } from './cleaningService';
+import { inferSchema, applySchema, COLUMN_TYPE_LABELS } from './schemaService';
+import { profileTable, formatStat } from './profileService';
+import { analyzeCorrelations, summarizeRelationships } from './correlationService';
+import { parseExcelFile } from './excelService';
+import { detectFormat, parseJsonText, parseNdjsonFile, parseParquetFile } from './formatService';
+import { sniffCsvImportOptions, streamCsvFile } from './csvService';
+
+type ProgressCallback = (progress: ImportProgress) => void;
+
+interface ParsedTable {
+  sheetName?: string;
+  data: TableRow[];
+}
+
+export interface CleanedTable {
+  sheetName?: string;
+  cleanedData: TableRow[];
+  profile: TableProfile;
+  summary: string;
+  cleaningReport: CleaningReport;
+  schema: ColumnSchema[];
+}
+
+// Reads delimited text with the chosen settings, or with settings sniffed from the file.
+const parseDelimitedFile = async (file: File, options: CsvImportOptions | undefined, delimiter: string | undefined, onRead: (fraction: number) => void): Promise<TableRow[]> => {
+  const resolved = options ?? await sniffCsvImportOptions(file, delimiter);
+  return streamCsvFile(file, resolved, onRead);
 };
 
-// Cleans the data: removes duplicates, handles missing values, and normalizes headers.
-const cleanData = (data: TableRow[]): TableRow[] => {
-  if (!data || data.length === 0) return [];
-
-  // 1. Normalize headers (trim whitespace, convert to consistent case)
-  const normalizedData = data.map(row => {
-    const newRow: TableRow = {};
-    for (const key in row) {
-      const newKey = key.trim();
-      newRow[newKey] = row[key];
-    }
-    return newRow;
-  });
-
-  // 2. Remove duplicate rows
-  const uniqueRows = new Map<string, TableRow>();
-  normalizedData.forEach(row => {
-    const rowString = JSON.stringify(Object.values(row).sort());
-    if (!uniqueRows.has(rowString)) {
-      uniqueRows.set(rowString, row);
-    }
-  });
-  
-  let cleaned = Array.from(uniqueRows.values());
-
-  // 3. Handle missing or empty values (remove rows with any empty cell)
-  const headers = Object.keys(cleaned[0] || {});
-  cleaned = cleaned.filter(row => {
-    return headers.every(header => {
-      const value = row[header];
-      return value !== null && value !== undefined && String(value).trim() !== '';
-    });
-  });
-
-  // 4. Attempt to convert numeric strings to numbers
-  return cleaned.map(row => {
-      const newRow: TableRow = {};
-      for(const key in row) {
-          const value = row[key];
-          if (typeof value === 'string' && !isNaN(Number(value)) && value.trim() !== '') {
-              newRow[key] = Number(value);
-          } else {
-              newRow[key] = value;
-          }
-      }
-      return newRow;
-  });
+// Parses the uploaded file into one or more tables, based on the format its content shows.
+const parseFile = async (file: File, importOptions: ImportOptions = {}, onProgress?: ProgressCallback): Promise<ParsedTable[]> => {
+  const format = await detectFormat(file);
+  // CSV, TSV and JSON lines are streamed and report how far they got; the other formats are read in one go.
+  const onRead = (fraction: number) => onProgress?.({ message: 'Reading file...', fraction });
+  onProgress?.({ message: 'Reading file...', fraction: format === 'csv' || format === 'tsv' || format === 'ndjson' ? 0 : null });
+  switch (format) {
+    case 'csv':
+      return [{ data: await parseDelimitedFile(file, importOptions.csv, undefined, onRead) }];
+    case 'tsv':
+      return [{ data: await parseDelimitedFile(file, importOptions.csv, '\t', onRead) }];
+    case 'json':
+      return [{ data: parseJsonText(await file.text()) }];
+    case 'ndjson':
+      return [{ data: await parseNdjsonFile(file, onRead) }];
+    case 'parquet':
+      return [{ data: await parseParquetFile(file) }];
+    case 'excel':
+      return parseExcelFile(file, importOptions.excel);
+    default:
+      throw new Error("Unsupported file format. Please upload CSV, TSV, JSON, NDJSON, Excel or Parquet data.");
+  }
 };
 
-// Generates a statistical and structural summary of the data.
-const generateSummary = (data: TableRow[]): string => {
-  if (data.length === 0) return "The dataset is empty after cleaning.";
-  
-  const rowCount = data.length;
-  const headers = Object.keys(data[0]);
-  const columnCount = headers.length;
-
-  let summary = `Dataset Overview:\n- Total Rows: ${rowCount}\n- Total Columns: ${columnCount}\n- Column Names: ${headers.join(', ')}\n\nColumn Analysis:\n`;
-
-  headers.forEach(header => {
-    const values = data.map(row => row[header]).filter(v => v !== null && v !== undefined);
-    const isNumeric = values.every(v => typeof v === 'number');
-
-    if (isNumeric) {
-      const numericValues = values as number[];
-      const sum = numericValues.reduce((a, b) => a + b, 0);
-      const mean = sum / numericValues.length;
-      const sorted = [...numericValues].sort((a, b) => a - b);
-      const min = sorted[0];
-      const max = sorted[sorted.length - 1];
-      const median = sorted.length % 2 === 0
-        ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-        : sorted[Math.floor(sorted.length / 2)];
-
-      summary += `- Column "${header}" (Numeric):\n`;
-      summary += `  - Mean: ${mean.toFixed(2)}\n`;
-      summary += `  - Median: ${median.toFixed(2)}\n`;
-      summary += `  - Min: ${min}\n`;
-      summary += `  - Max: ${max}\n`;
+const formatShare = (part: number, total: number) => `${((part / total) * 100).toFixed(1)}%`;
+
+const describeColumn = (column: ColumnStat, rowCount: number): string => {
+  const { name, type, formula, missing, distinct, numeric, textLength, dateRange, topValues, sampleValues } = column;
+  const lines = [
+    `- Column "${name}" (${COLUMN_TYPE_LABELS[type]}${formula ? `, computed as ${formula}` : ''}):`,
+    `  - Missing: ${missing}${missing > 0 ? ` (${formatShare(missing, rowCount)})` : ''}`,
+    `  - Distinct Values: ${distinct}`,
+  ];
+  if (numeric) {
+    lines.push(
+      `  - Mean: ${formatStat(numeric.mean)}, Std Dev: ${formatStat(numeric.stdDev)}, Variance: ${formatStat(numeric.variance)}`,
+      `  - Min: ${formatStat(numeric.min)}, Q1: ${formatStat(numeric.q1)}, Median: ${formatStat(numeric.median)}, Q3: ${formatStat(numeric.q3)}, Max: ${formatStat(numeric.max)} (IQR ${formatStat(numeric.iqr)})`,
+      `  - Skewness: ${formatStat(numeric.skewness)}, Excess Kurtosis: ${formatStat(numeric.kurtosis)}`,
+      `  - Zeros: ${numeric.zeros}, Negatives: ${numeric.negatives}`,
+    );
+    return lines.join('\n');
+  }
+  if (dateRange) {
+    lines.push(`  - Range: ${dateRange.min} to ${dateRange.max}`);
+    return lines.join('\n');
+  }
+  if (topValues.length > 0) {
+    lines.push(`  - Top Values: ${topValues.map(({ value, count }) => `${value} (${count} times)`).join(', ')}`);
+  }
+  if (textLength) {
+    lines.push(`  - Length: ${textLength.min} to ${textLength.max} characters, ${formatStat(textLength.mean)} on average`);
+  }
+  if (distinct > topValues.length && sampleValues.length > 0) {
+    lines.push(`  - Sample Values: ${sampleValues.join(', ')}`);
+  }
+  return lines.join('\n');
+};
 
-    } else {
-      const valueCounts: Record<string, number> = {};
-      values.forEach(v => {
-        const key = String(v);
-        valueCounts[key] = (valueCounts[key] || 0) + 1;
-      });
-      const uniqueValues = Object.keys(valueCounts).length;
+// Writes a table profile, and the strongest relationships between its columns, out as the text summary sent to the AI.
+export const generateSummary = ({ rowCount, columns }: TableProfile, relationships: string[] = []): string => {
+  if (rowCount === 0) return "The dataset is empty after cleaning.";
 
-      summary += `- Column "${header}" (Categorical):\n`;
-      summary += `  - Unique Values: ${uniqueValues}\n`;
-      
-      const top5 = Object.entries(valueCounts)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5)
-        .map(([value, count]) => `${value} (${count} times)`);
-      
-      summary += `  - Top Values: ${top5.join(', ')}\n`;
-    }
-  });
+  const overview = `Dataset Overview:\n- Total Rows: ${rowCount}\n- Total Columns: ${columns.length}\n- Column Names: ${columns.map(column => column.name).join(', ')}`;
+  const summary = `${overview}\n\nColumn Analysis:\n${columns.map(column => describeColumn(column, rowCount)).join('\n')}\n`;
+  return relationships.length > 0 ? `${summary}\nNotable Relationships:\n${relationships.map(line => `- ${line}`).join('\n')}\n` : summary;
+};
 
-  return summary;
+// Profiles the table and writes the summary from that profile, so the two always agree.
+export const summarizeTable = (data: TableRow[], schema: ColumnSchema[]): { profile: TableProfile; summary: string } => {
+  const profile = profileTable(data, schema);
+  return { profile, summary: generateSummary(profile, summarizeRelationships(analyzeCorrelations(data, schema))) };
 };
 
-export const parseAndCleanFile = async (file: File) => {
-  const rawData = await parseFile(file);
-  const cleanedData = cleanData(rawData);
-  const summary = generateSummary(cleanedData);
-  return { cleanedData, summary };
+// Parses the file and cleans each resulting table separately, reporting each stage through onProgress.
+export const parseAndCleanFile = async (
+  file: File,
+  recipe: CleaningRecipe = DEFAULT_CLEANING_RECIPE,
+  importOptions: ImportOptions = {},
+  onProgress?: ProgressCallback,
+): Promise<CleanedTable[]> => {
+  const tables = await parseFile(file, importOptions, onProgress);
+  return tables.map(({ sheetName, data: rawData }) => {
+    const suffix = sheetName ? ` (${sheetName})` : '';
+    const { cleanedData: cleaned, report: cleaningReport } = applyCleaningRecipe(rawData, recipe, (step, index, total) => {
+      onProgress?.({ message: `Cleaning data${suffix}: ${describeCleaningStep(step)}...`, fraction: index / total });
+    });
+    onProgress?.({ message: `Profiling columns${suffix}...`, fraction: null });
+    const schema = inferSchema(cleaned);
+    const cleanedData = applySchema(cleaned, schema);
+    const { profile, summary } = summarizeTable(cleanedData, schema);
+    return { sheetName: sheetName || undefined, cleanedData, profile, summary, cleaningReport, schema };
+  });
 };
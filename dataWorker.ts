@@ -0,0 +1,16 @@
+import { parseAndCleanFile } from '../services/dataService';
+import type { ImportRequest, ImportResponse } from '../services/importService';
+
+const post = (response: ImportResponse) => self.postMessage(response);
+
+// Runs the whole import off the main thread; see startImport in importService.
+self.onmessage = async (event: MessageEvent<ImportRequest>) => {
+  const { file, recipe, importOptions } = event.data;
+  try {
+    const tables = await parseAndCleanFile(file, recipe, importOptions, progress => post({ type: 'progress', progress }));
+    post({ type: 'result', tables });
+  } catch (err) {
+    console.error(err);
+    post({ type: 'error', message: err instanceof Error ? err.message : 'An unknown error occurred.' });
+  }
+};
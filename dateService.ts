@@ -0,0 +1,333 @@
+import type { TableRow, DateOrder, TimePeriod, AggregationFunction, GapHandling } from '../types';
+import type { ChartSeries } from './aggregationService';
+import { aggregateValues, resolveSeries } from './aggregationService';
+
+export const TIME_PERIOD_LABELS: Record<TimePeriod | 'none', string> = {
+  none: 'No resampling',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year',
+};
+
+export const GAP_HANDLING_LABELS: Record<GapHandling, string> = {
+  break: 'Leave gaps',
+  connect: 'Connect across gaps',
+  zero: 'Treat gaps as zero',
+};
+
+const DAY_MS = 86_400_000;
+// Excel counts days from 1899-12-30 (compensating for its 1900 leap year bug).
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+// Cap on generated periods so a mis-parsed date cannot create millions of empty buckets.
+const MAX_GAP_FILL_PERIODS = 10000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const TIME = String.raw`(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?\s*([AaPp][Mm])?\s*(Z|[+-]\d{2}:?\d{2})?)?`;
+const ISO_DATE = new RegExp(String.raw`^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})${TIME}$`);
+const NUMERIC_DATE = new RegExp(String.raw`^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})${TIME}$`);
+// e.g. 12 Mar 2024, 12-Mar-24 or 1st March, 2024. Shared with type inference so both accept the same forms.
+export const DAY_MONTH_NAME_DATE = String.raw`(\d{1,2})(?:st|nd|rd|th)?[ -]([A-Za-z]{3,9})\.?[-, ]+(\d{2}|\d{4})`;
+const DAY_MONTH_NAME = new RegExp(String.raw`^${DAY_MONTH_NAME_DATE}${TIME}$`);
+const MONTH_NAME_DAY = new RegExp(String.raw`^([A-Za-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})${TIME}$`);
+const DATE_LIKE_NAME = /(date|time|day|created|updated|modified|timestamp|_at$|_on$)/i;
+
+const expandYear = (year: string) => {
+  const y = Number(year);
+  if (year.length > 2) return y;
+  return y < 50 ? 2000 + y : 1900 + y;
+};
+
+const monthFromName = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+// Builds a UTC timestamp and rejects impossible dates such as 31 February.
+const buildTimestamp = (year: number, month: number, day: number, time: string[]): number | null => {
+  const [hh, mm, ss, ms, meridiem, zone] = time;
+  let hours = hh ? Number(hh) : 0;
+  if (meridiem) {
+    const pm = meridiem.toLowerCase() === 'pm';
+    if (hours === 12) hours = pm ? 12 : 0;
+    else if (pm) hours += 12;
+  }
+  const minutes = mm ? Number(mm) : 0;
+  const seconds = ss ? Number(ss) : 0;
+  const millis = ms ? Number(ms.padEnd(3, '0')) : 0;
+  if (month < 0 || month > 11 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  let timestamp = Date.UTC(year, month, day, hours, minutes, seconds, millis);
+  const check = new Date(timestamp);
+  if (check.getUTCDate() !== day || check.getUTCMonth() !== month) return null;
+
+  // Times with an explicit offset are converted to UTC; times without one are kept as written.
+  if (zone && zone !== 'Z') {
+    const sign = zone[0] === '-' ? -1 : 1;
+    const digits = zone.slice(1).replace(':', '');
+    timestamp -= sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60_000;
+  }
+  return timestamp;
+};
+
+// Reads the day/month order of the user's locale, e.g. MDY for en-US and DMY for en-GB or de-DE.
+export const getLocaleDateOrder = (): 'MDY' | 'DMY' => {
+  try {
+    const parts = new Intl.DateTimeFormat(undefined, { day: 'numeric', month: 'numeric', year: 'numeric' }).formatToParts(new Date(2000, 10, 22));
+    const dayIndex = parts.findIndex(p => p.type === 'day');
+    const monthIndex = parts.findIndex(p => p.type === 'month');
+    return monthIndex < dayIndex ? 'MDY' : 'DMY';
+  } catch {
+    return 'MDY';
+  }
+};
+
+// Converts numbers that are Unix timestamps (seconds or milliseconds) or Excel serial dates.
+const parseNumericDate = (n: number): number | null => {
+  if (!Number.isFinite(n)) return null;
+  if (n >= 1e11 && n < 1e14) return Math.round(n);
+  if (n >= 1e9 && n < 1e11) return Math.round(n * 1000);
+  if (n > 0 && n < 100000) return Math.round((n - EXCEL_EPOCH_OFFSET_DAYS) * DAY_MS);
+  return null;
+};
+
+/**
+ * Parses a single value into a UTC timestamp in milliseconds.
+ * `order` resolves ambiguous numeric dates like 03/04/2024. Numbers are only read as
+ * timestamps or Excel serials when `allowNumeric` is set, since most numbers are not dates.
+ */
+export const parseDateValue = (
+  value: string | number | null | undefined,
+  order: 'MDY' | 'DMY' = 'MDY',
+  allowNumeric = false,
+): number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return allowNumeric ? parseNumericDate(value) : null;
+
+  const text = value.trim();
+  if (text === '') return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return allowNumeric ? parseNumericDate(Number(text)) : null;
+
+  let match = ISO_DATE.exec(text);
+  if (match) return buildTimestamp(Number(match[1]), Number(match[2]) - 1, Number(match[3]), match.slice(4));
+
+  match = NUMERIC_DATE.exec(text);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const [month, day] = order === 'MDY' ? [first, second] : [second, first];
+    return buildTimestamp(expandYear(match[3]), month - 1, day, match.slice(4));
+  }
+
+  match = DAY_MONTH_NAME.exec(text);
+  if (match) return buildTimestamp(expandYear(match[3]), monthFromName(match[2]), Number(match[1]), match.slice(4));
+
+  match = MONTH_NAME_DAY.exec(text);
+  if (match) return buildTimestamp(Number(match[3]), monthFromName(match[1]), Number(match[2]), match.slice(4));
+
+  return null;
+};
+
+// Works out whether a column writes dates month-first or day-first. A first part above 12
+// settles it as DMY and a second part above 12 as MDY; otherwise the locale decides.
+export const detectDateOrder = (values: Array<string | number | null>): 'MDY' | 'DMY' => {
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const match = NUMERIC_DATE.exec(value.trim());
+    if (!match) continue;
+    if (Number(match[1]) > 12) return 'DMY';
+    if (Number(match[2]) > 12) return 'MDY';
+  }
+  return getLocaleDateOrder();
+};
+
+export const resolveDateOrder = (order: DateOrder | undefined, values: Array<string | number | null>): 'MDY' | 'DMY' =>
+  !order || order === 'auto' ? detectDateOrder(values) : order;
+
+export const isDateLikeColumnName = (name: string) => DATE_LIKE_NAME.test(name);
+
+const EARLIEST_AUTO_NUMERIC_DATE = Date.UTC(1970, 0, 1);
+const LATEST_PLAUSIBLE_DATE = Date.UTC(2100, 0, 1);
+// Share of sampled values that must parse before a column is treated as dates.
+const DATE_MATCH_THRESHOLD = 0.9;
+
+export interface DateConversion {
+  order: 'MDY' | 'DMY';
+  allowNumeric: boolean;
+  withTime: boolean;
+}
+
+/**
+ * Decides whether a column should be converted to dates and how. Columns picked by the user
+ * are always converted; otherwise most values must parse, and numbers are only considered in
+ * date-named columns when they land after 1970, which keeps counts like "days_open" intact.
+ */
+export const planDateConversion = (
+  column: string,
+  values: Array<string | number | null>,
+  dateOrder: DateOrder | undefined,
+  explicit: boolean,
+): DateConversion | null => {
+  const present = values.filter(v => v !== null && v !== undefined && String(v).trim() !== '');
+  if (present.length === 0) return null;
+
+  const order = resolveDateOrder(dateOrder, present);
+  const allowNumeric = explicit || isDateLikeColumnName(column);
+  const parsed = present
+    .map(value => {
+      const time = parseDateValue(value, order, allowNumeric);
+      if (time === null || time >= LATEST_PLAUSIBLE_DATE) return null;
+      const numericSource = typeof value === 'number' || /^\d+(\.\d+)?$/.test(String(value).trim());
+      if (!explicit && numericSource && time < EARLIEST_AUTO_NUMERIC_DATE) return null;
+      return time;
+    })
+    .filter((t): t is number => t !== null);
+
+  if (parsed.length === 0 || (!explicit && parsed.length / present.length < DATE_MATCH_THRESHOLD)) return null;
+  return { order, allowNumeric, withTime: parsed.some(t => t % DAY_MS !== 0) };
+};
+
+// Formats a timestamp as an ISO 8601 date, or date and time when `withTime` is set.
+export const formatTimestamp = (timestamp: number, withTime: boolean): string => {
+  const iso = new Date(timestamp).toISOString();
+  return withTime ? iso.slice(0, 19) : iso.slice(0, 10);
+};
+
+export const truncateToPeriod = (timestamp: number, period: TimePeriod): number => {
+  const d = new Date(timestamp);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  switch (period) {
+    case 'day':
+      return Date.UTC(year, month, d.getUTCDate());
+    case 'week': {
+      // ISO weeks start on Monday.
+      const offset = (d.getUTCDay() + 6) % 7;
+      return Date.UTC(year, month, d.getUTCDate() - offset);
+    }
+    case 'month':
+      return Date.UTC(year, month, 1);
+    case 'quarter':
+      return Date.UTC(year, month - (month % 3), 1);
+    case 'year':
+      return Date.UTC(year, 0, 1);
+  }
+};
+
+export const nextPeriod = (timestamp: number, period: TimePeriod): number => {
+  const d = new Date(timestamp);
+  switch (period) {
+    case 'day':
+      return timestamp + DAY_MS;
+    case 'week':
+      return timestamp + 7 * DAY_MS;
+    case 'month':
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+    case 'quarter':
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 3, 1);
+    case 'year':
+      return Date.UTC(d.getUTCFullYear() + 1, 0, 1);
+  }
+};
+
+export const formatPeriodLabel = (timestamp: number, period: TimePeriod | 'none'): string => {
+  const d = new Date(timestamp);
+  const year = d.getUTCFullYear();
+  switch (period) {
+    case 'year':
+      return String(year);
+    case 'quarter':
+      return `${year} Q${Math.floor(d.getUTCMonth() / 3) + 1}`;
+    case 'month':
+      return `${MONTHS[d.getUTCMonth()][0].toUpperCase()}${MONTHS[d.getUTCMonth()].slice(1)} ${year}`;
+    case 'week':
+      return `Wk of ${formatTimestamp(timestamp, false)}`;
+    case 'day':
+      return formatTimestamp(timestamp, false);
+    case 'none': {
+      const hasTime = timestamp % DAY_MS !== 0;
+      return hasTime ? formatTimestamp(timestamp, true).replace('T', ' ') : formatTimestamp(timestamp, false);
+    }
+  }
+};
+
+export interface TimeSeriesOptions {
+  period: TimePeriod | 'none';
+  aggregation: AggregationFunction;
+  gaps: GapHandling;
+  seriesBy?: string;
+}
+
+// One point per period: { time, s0, s1, … } with one key per series.
+export type TimeSeriesPoint = { time: number } & Record<string, number | null>;
+
+export interface TimeSeriesData {
+  points: TimeSeriesPoint[];
+  series: ChartSeries[];
+}
+
+// Turns a date column and a numeric column into time-ordered series, bucketed by period.
+export const resampleTimeSeries = (
+  data: TableRow[],
+  dateKey: string,
+  valueKey: string,
+  { period, aggregation, gaps, seriesBy }: TimeSeriesOptions,
+): TimeSeriesData => {
+  const { series, keyOf } = resolveSeries(data, seriesBy, valueKey, period === 'none' ? 'sum' : aggregation);
+  const order = detectDateOrder(data.slice(0, 1000).map(row => row[dateKey]));
+  const allowNumeric = isDateLikeColumnName(dateKey);
+  const parsed: Array<{ time: number; key: string; value: string | number | null }> = [];
+  data.forEach(row => {
+    const time = parseDateValue(row[dateKey], order, allowNumeric);
+    if (time !== null) parsed.push({ time, key: keyOf(row), value: valueKey ? row[valueKey] ?? null : null });
+  });
+  if (parsed.length === 0) return { points: [], series };
+
+  if (period === 'none') {
+    if (!seriesBy) {
+      series[0].name = valueKey;
+    }
+    return {
+      series,
+      points: parsed
+        .filter(p => typeof p.value === 'number')
+        .sort((a, b) => a.time - b.time)
+        .map(p => ({ time: p.time, [p.key]: p.value as number }) as TimeSeriesPoint),
+    };
+  }
+
+  const buckets = new Map<number, Map<string, Array<string | number | null>>>();
+  parsed.forEach(({ time, key, value }) => {
+    const bucketTime = truncateToPeriod(time, period);
+    let bucket = buckets.get(bucketTime);
+    if (!bucket) {
+      bucket = new Map();
+      buckets.set(bucketTime, bucket);
+    }
+    const values = bucket.get(key);
+    if (values) values.push(value);
+    else bucket.set(key, [value]);
+  });
+
+  const fill = gaps === 'zero' ? 0 : null;
+  const toPoint = (time: number): TimeSeriesPoint => {
+    const bucket = buckets.get(time);
+    const point = { time } as TimeSeriesPoint;
+    series.forEach(({ key }) => {
+      const values = bucket?.get(key);
+      point[key] = values ? aggregateValues(values, aggregation) : fill;
+    });
+    return point;
+  };
+
+  const keys = Array.from(buckets.keys()).sort((a, b) => a - b);
+  const points: TimeSeriesPoint[] = [];
+  let cursor = keys[0];
+  const last = keys[keys.length - 1];
+  while (cursor <= last && points.length < MAX_GAP_FILL_PERIODS) {
+    points.push(toPoint(cursor));
+    cursor = nextPeriod(cursor, period);
+  }
+  // Too many periods to fill: fall back to only the periods that have data.
+  if (cursor <= last) {
+    return { points: keys.map(toPoint), series };
+  }
+  return { points, series };
+};
@@ -0,0 +1,128 @@
+// Probability distributions behind the hypothesis tests: tail probabilities for p-values and quantiles for confidence intervals.
+
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 500;
+// Keeps the continued fractions away from division by zero.
+const TINY = 1e-300;
+
+const LANCZOS_G = 7;
+const LANCZOS_COEFFICIENTS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+// Natural log of the gamma function (Lanczos approximation), accurate to about 15 digits.
+export const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS_COEFFICIENTS.forEach((c, i) => {
+    sum += c / (z + i + 1);
+  });
+  const t = z + LANCZOS_G + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction for the incomplete beta function, evaluated with the modified Lentz method.
+const betaFraction = (a: number, b: number, x: number): number => {
+  const guard = (v: number) => (Math.abs(v) < TINY ? TINY : v);
+  let c = 1;
+  let d = 1 / guard(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    const even = (m * (b - m) * x) / ((a - 1 + m2) * (a + m2));
+    d = 1 / guard(1 + even * d);
+    c = guard(1 + even / c);
+    h *= d * c;
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + 1 + m2));
+    d = 1 / guard(1 + odd * d);
+    c = guard(1 + odd / c);
+    const step = d * c;
+    h *= step;
+    if (Math.abs(step - 1) < EPSILON) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta function I_x(a, b).
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The fraction converges quickly only on one side of the mean, so the other side uses the symmetry I_x(a, b) = 1 - I_(1-x)(b, a).
+  return x < (a + 1) / (a + b + 2) ? (front * betaFraction(a, b, x)) / a : 1 - (front * betaFraction(b, a, 1 - x)) / b;
+};
+
+// Regularized upper incomplete gamma function Q(a, x): a series below a + 1, a continued fraction above.
+export const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n <= MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+    }
+    return 1 - sum * front;
+  }
+  const guard = (v: number) => (Math.abs(v) < TINY ? TINY : v);
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = 1 / guard(an * d + b);
+    c = guard(b + an / c);
+    const step = d * c;
+    h *= step;
+    if (Math.abs(step - 1) < EPSILON) break;
+  }
+  return front * h;
+};
+
+export const normalCdf = (z: number): number => {
+  // erfc(|z| / √2) is Q(1/2, z² / 2).
+  const tail = 0.5 * upperGamma(0.5, (z * z) / 2);
+  return z >= 0 ? 1 - tail : tail;
+};
+
+// Probability of a standard normal value at least as far from zero as z.
+export const normalTwoTailed = (z: number): number => upperGamma(0.5, (z * z) / 2);
+
+// Probability of a Student's t value at least as far from zero as t.
+export const tTwoTailed = (t: number, df: number): number => regularizedBeta(df / (df + t * t), df / 2, 0.5);
+
+export const tCdf = (t: number, df: number): number => {
+  const tail = tTwoTailed(t, df) / 2;
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// Probability of an F value at least as large as f.
+export const fUpperTail = (f: number, df1: number, df2: number): number =>
+  f <= 0 ? 1 : regularizedBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+
+// Probability of a chi-square value at least as large as x.
+export const chiSquareUpperTail = (x: number, df: number): number => upperGamma(df / 2, x / 2);
+
+// Inverts an increasing distribution function by bisection, widening the bracket until it holds p.
+const invert = (cdf: (x: number) => number, p: number): number => {
+  let lower = -1;
+  let upper = 1;
+  while (cdf(lower) > p && lower > -1e12) lower *= 2;
+  while (cdf(upper) < p && upper < 1e12) upper *= 2;
+  for (let i = 0; i < 200 && upper - lower > 1e-12 * Math.max(1, Math.abs(lower)); i++) {
+    const middle = (lower + upper) / 2;
+    if (cdf(middle) < p) lower = middle;
+    else upper = middle;
+  }
+  return (lower + upper) / 2;
+};
+
+export const normalQuantile = (p: number): number => invert(normalCdf, p);
+
+export const tQuantile = (p: number, df: number): number => invert(t => tCdf(t, df), p);
@@ -0,0 +1,243 @@
+import type { TableRow, CellValue, ColumnSchema, ColumnType, DataEdit, EditHistory, FilterSet } from '../types';
+import { isNumericType, isTemporalType, parseNumericValue } from './schemaService';
+import { parseDateValue, formatTimestamp } from './dateService';
+import { renameFormulaReferences } from './formulaService';
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], future: [] };
+
+// The parts of an analysis that hand edits change.
+export interface EditableTable {
+  data: TableRow[];
+  schema: ColumnSchema[];
+  filterSet: FilterSet;
+}
+
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f', '0', '1']);
+
+/**
+ * Reads what the user typed into a cell as a value of the column's type, the same way cleaning
+ * would have stored it: numbers for numeric columns and ISO text for dates, read in the column's `dateOrder`.
+ * Empty input clears the cell.
+ */
+export const parseCellInput = (input: string, type: ColumnType, dateOrder: 'MDY' | 'DMY'): { value: CellValue } | { error: string } => {
+  const text = input.trim();
+  if (text === '') return { value: null };
+  if (isNumericType(type)) {
+    const n = parseNumericValue(text);
+    if (n === null) return { error: 'Enter a number.' };
+    if (type === 'integer' && !Number.isInteger(n)) return { error: 'Enter a whole number.' };
+    return { value: n };
+  }
+  if (isTemporalType(type)) {
+    const time = parseDateValue(text, dateOrder);
+    if (time === null) return { error: 'Enter a date, e.g. 2024-03-01.' };
+    return { value: formatTimestamp(time, type === 'datetime') };
+  }
+  if (type === 'boolean' && !BOOLEAN_VALUES.has(text.toLowerCase())) {
+    return { error: 'Enter true or false.' };
+  }
+  return { value: text };
+};
+
+export const validateColumnName = (name: string, schema: ColumnSchema[], current: string): string | null => {
+  const trimmed = name.trim();
+  if (trimmed === '') return 'Column names cannot be empty.';
+  if (trimmed !== current && schema.some(column => column.name === trimmed)) return `There is already a column named "${trimmed}".`;
+  return null;
+};
+
+export const createCellEdit = (data: TableRow[], row: number, column: string, after: CellValue): DataEdit | null => {
+  const before = data[row][column] ?? null;
+  return before === after ? null : { type: 'editCell', row, column, before, after };
+};
+
+export const createDeleteRowsEdit = (data: TableRow[], indices: number[]): DataEdit => ({
+  type: 'deleteRows',
+  rows: [...new Set(indices)].sort((a, b) => a - b).map(index => ({ index, row: data[index] })),
+});
+
+export const createDeleteColumnEdit = (data: TableRow[], schema: ColumnSchema[], name: string): DataEdit => {
+  const index = schema.findIndex(column => column.name === name);
+  return { type: 'deleteColumn', column: schema[index], index, values: data.map(row => row[name] ?? null) };
+};
+
+const renameKey = (row: TableRow, from: string, to: string): TableRow => {
+  const renamed: TableRow = {};
+  for (const key in row) {
+    renamed[key === from ? to : key] = row[key];
+  }
+  return renamed;
+};
+
+const renameColumn = (table: EditableTable, from: string, to: string): EditableTable => ({
+  data: table.data.map(row => renameKey(row, from, to)),
+  schema: table.schema.map(column => {
+    const renamed = column.name === from ? { ...column, name: to } : column;
+    return renamed.formula ? { ...renamed, formula: renameFormulaReferences(renamed.formula, from, to) } : renamed;
+  }),
+  filterSet: {
+    ...table.filterSet,
+    filters: table.filterSet.filters.map(filter => (filter.column === from ? { ...filter, column: to } : filter)),
+  },
+});
+
+const removeColumn = (table: EditableTable, name: string): EditableTable => ({
+  ...table,
+  data: table.data.map(row => {
+    const { [name]: _removed, ...rest } = row;
+    return rest;
+  }),
+  schema: table.schema.filter(column => column.name !== name),
+});
+
+const setCell = (data: TableRow[], row: number, column: string, value: CellValue): TableRow[] => {
+  const next = [...data];
+  next[row] = { ...data[row], [column]: value };
+  return next;
+};
+
+export const applyEdit = (table: EditableTable, edit: DataEdit): EditableTable => {
+  switch (edit.type) {
+    case 'editCell':
+      return { ...table, data: setCell(table.data, edit.row, edit.column, edit.after) };
+    case 'addRow': {
+      const row: TableRow = {};
+      table.schema.forEach(column => {
+        row[column.name] = null;
+      });
+      return { ...table, data: [...table.data, row] };
+    }
+    // Values are filled in by recomputeFormulaColumns.
+    case 'addColumn':
+      return {
+        ...table,
+        data: table.data.map(row => ({ ...row, [edit.column.name]: null })),
+        schema: [...table.schema, edit.column],
+      };
+    case 'deleteRows': {
+      const deleted = new Set(edit.rows.map(({ index }) => index));
+      return { ...table, data: table.data.filter((_, i) => !deleted.has(i)) };
+    }
+    case 'renameColumn':
+      return renameColumn(table, edit.from, edit.to);
+    case 'deleteColumn':
+      return removeColumn(table, edit.column.name);
+  }
+};
+
+// Undoes an edit. Edits are undone newest first, so the table is exactly as the edit left it.
+export const revertEdit = (table: EditableTable, edit: DataEdit): EditableTable => {
+  switch (edit.type) {
+    case 'editCell':
+      return { ...table, data: setCell(table.data, edit.row, edit.column, edit.before) };
+    case 'addRow':
+      return { ...table, data: table.data.filter((_, i) => i !== edit.row) };
+    case 'addColumn':
+      return removeColumn(table, edit.column.name);
+    case 'deleteRows': {
+      const data = [...table.data];
+      edit.rows.forEach(({ index, row }) => data.splice(index, 0, row));
+      return { ...table, data };
+    }
+    case 'renameColumn':
+      return renameColumn(table, edit.to, edit.from);
+    case 'deleteColumn': {
+      const schema = [...table.schema];
+      schema.splice(edit.index, 0, edit.column);
+      // Rebuilt in schema order so the column is back in its old place in exports too.
+      const data = table.data.map((row, i) => {
+        const restored: TableRow = {};
+        schema.forEach(({ name }) => {
+          restored[name] = name === edit.column.name ? edit.values[i] ?? null : row[name] ?? null;
+        });
+        return restored;
+      });
+      return { ...table, data, schema };
+    }
+  }
+};
+
+// Columns whose values an edit changes, so only formulas reading them are recomputed. Undefined when
+// rows or formula columns come and go, which needs every formula filled in again.
+export const getEditedColumns = (edit: DataEdit): string[] | undefined => {
+  switch (edit.type) {
+    case 'editCell':
+      return [edit.column];
+    // Values are unchanged, and formulas are renamed with the column or block its deletion.
+    case 'renameColumn':
+    case 'deleteColumn':
+      return [];
+    default:
+      return undefined;
+  }
+};
+
+const formatValue = (value: CellValue) => (value === null ? 'empty' : `"${value}"`);
+
+export const describeEdit = (edit: DataEdit): string => {
+  switch (edit.type) {
+    case 'editCell':
+      return `Row ${edit.row + 1}, ${edit.column}: ${formatValue(edit.before)} → ${formatValue(edit.after)}`;
+    case 'addRow':
+      return `Added row ${edit.row + 1}`;
+    case 'addColumn':
+      return `Added column "${edit.column.name}" = ${edit.column.formula}`;
+    case 'deleteRows':
+      return edit.rows.length === 1 ? `Deleted row ${edit.rows[0].index + 1}` : `Deleted ${edit.rows.length} rows`;
+    case 'renameColumn':
+      return `Renamed column "${edit.from}" to "${edit.to}"`;
+    case 'deleteColumn':
+      return `Deleted column "${edit.column.name}"`;
+  }
+};
+
+export interface EditMarkers {
+  // Columns edited by hand, per row position in the current data.
+  cells: Map<number, Set<string>>;
+  addedRows: Set<number>;
+}
+
+/**
+ * Works out which cells and rows currently carry hand edits by replaying the edit log, moving the
+ * marks along as rows are deleted and columns renamed or removed.
+ */
+export const getEditMarkers = (past: DataEdit[]): EditMarkers => {
+  let cells = new Map<number, Set<string>>();
+  let addedRows = new Set<number>();
+
+  past.forEach(edit => {
+    switch (edit.type) {
+      case 'editCell': {
+        const columns = cells.get(edit.row) ?? new Set<string>();
+        columns.add(edit.column);
+        cells.set(edit.row, columns);
+        break;
+      }
+      case 'addRow':
+        addedRows.add(edit.row);
+        break;
+      case 'deleteRows': {
+        const deleted = edit.rows.map(({ index }) => index);
+        const deletedSet = new Set(deleted);
+        // New position = old position minus the number of deleted rows above it.
+        const shift = (row: number) => {
+          let count = 0;
+          while (count < deleted.length && deleted[count] < row) count++;
+          return row - count;
+        };
+        cells = new Map([...cells].filter(([row]) => !deletedSet.has(row)).map(([row, columns]) => [shift(row), columns]));
+        addedRows = new Set([...addedRows].filter(row => !deletedSet.has(row)).map(shift));
+        break;
+      }
+      case 'renameColumn':
+        cells.forEach(columns => {
+          if (columns.delete(edit.from)) columns.add(edit.to);
+        });
+        break;
+      case 'deleteColumn':
+        cells.forEach(columns => columns.delete(edit.column.name));
+        break;
+    }
+  });
+  return { cells, addedRows };
+};
@@ -0,0 +1,128 @@
+import * as XLSX from 'xlsx';
+import type { TableRow, CellValue, ExcelImportOptions, SheetInfo, SheetCombineMode } from '../types';
+
+export const SHEET_COMBINE_LABELS: Record<SheetCombineMode, string> = {
+  separate: 'Separate tables',
+  stack: 'Stack into one table',
+};
+
+const PREVIEW_ROWS = 6;
+const PREVIEW_COLUMNS = 10;
+const A1_RANGE = /^[A-Z]{1,3}[1-9]\d*:[A-Z]{1,3}[1-9]\d*$/i;
+// Added to stacked sheets so every row keeps track of where it came from.
+export const SHEET_SOURCE_COLUMN = 'Sheet';
+
+export interface ParsedSheet {
+  sheetName: string;
+  headers: string[];
+  data: TableRow[];
+}
+
+export const defaultExcelImportOptions = (sheetName: string): ExcelImportOptions => ({
+  sheets: [sheetName],
+  headerRow: 1,
+  range: '',
+  combine: 'separate',
+});
+
+export const isValidCellRange = (range: string) => range.trim() === '' || A1_RANGE.test(range.trim());
+
+const readWorkbook = async (file: File) => XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+// Booleans and other cell types become strings so the row fits TableRow.
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'number' || typeof value === 'string' ? value : String(value);
+};
+
+// Blank header cells get positional names and repeats get a suffix, as Excel users expect.
+const buildHeaders = (cells: unknown[]): string[] => {
+  const seen = new Map<string, number>();
+  return cells.map((cell, i) => {
+    const base = String(cell ?? '').trim() || `Column ${i + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count}`;
+  });
+};
+
+export const readWorkbookSheets = async (file: File): Promise<SheetInfo[]> => {
+  const workbook = await readWorkbook(file);
+  return workbook.SheetNames.map((name: string) => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet['!ref']) return { name, rowCount: 0, columnCount: 0, preview: [], previewStartRow: 1 };
+    const bounds = XLSX.utils.decode_range(sheet['!ref']);
+    const previewBounds = {
+      s: bounds.s,
+      e: { r: Math.min(bounds.e.r, bounds.s.r + PREVIEW_ROWS - 1), c: Math.min(bounds.e.c, bounds.s.c + PREVIEW_COLUMNS - 1) },
+    };
+    const preview: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, range: previewBounds, defval: null, blankrows: true });
+    return {
+      name,
+      rowCount: bounds.e.r - bounds.s.r + 1,
+      columnCount: bounds.e.c - bounds.s.c + 1,
+      preview: preview.map(row => row.map(toCellValue)),
+      previewStartRow: bounds.s.r + 1,
+    };
+  });
+};
+
+const readSheet = (sheet: XLSX.WorkSheet, sheetName: string, options: ExcelImportOptions): ParsedSheet => {
+  const ref = options.range.trim() || sheet['!ref'];
+  if (!ref) return { sheetName, headers: [], data: [] };
+  if (!isValidCellRange(ref)) {
+    throw new Error(`"${options.range}" is not a valid cell range. Use a form like A1:F200.`);
+  }
+  const bounds = XLSX.utils.decode_range(ref);
+  bounds.s.r = Math.max(bounds.s.r, options.headerRow - 1);
+  if (bounds.s.r > bounds.e.r) return { sheetName, headers: [], data: [] };
+
+  const [headerCells = [], ...rows]: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, range: bounds, defval: null, blankrows: false });
+  const headers = buildHeaders(headerCells);
+  const data = rows.map(cells => {
+    const row: TableRow = {};
+    headers.forEach((header, i) => {
+      row[header] = toCellValue(cells[i]);
+    });
+    return row;
+  });
+  return { sheetName, headers, data };
+};
+
+const sameColumns = (a: string[], b: string[]) => {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every(header => set.has(header));
+};
+
+const stackSheets = (sheets: ParsedSheet[]): ParsedSheet => {
+  const [first] = sheets;
+  const mismatch = sheets.find(sheet => !sameColumns(sheet.headers, first.headers));
+  if (mismatch) {
+    throw new Error(`Sheets "${first.sheetName}" and "${mismatch.sheetName}" have different columns, so they cannot be stacked. Load them as separate tables instead.`);
+  }
+  const addSource = !first.headers.includes(SHEET_SOURCE_COLUMN);
+  const data = sheets.flatMap(sheet => (addSource ? sheet.data.map(row => ({ [SHEET_SOURCE_COLUMN]: sheet.sheetName, ...row })) : sheet.data));
+  return {
+    sheetName: '',
+    headers: addSource ? [SHEET_SOURCE_COLUMN, ...first.headers] : first.headers,
+    data,
+  };
+};
+
+/**
+ * Reads the selected sheets of a workbook. Each sheet is read from its header row down, within the
+ * optional cell range. Sheets are returned separately, or stacked into one table with a source column.
+ */
+export const parseExcelFile = async (file: File, options?: ExcelImportOptions): Promise<ParsedSheet[]> => {
+  const workbook = await readWorkbook(file);
+  const resolved = options ?? defaultExcelImportOptions(workbook.SheetNames[0]);
+  if (resolved.sheets.length === 0) throw new Error("Select at least one sheet to load.");
+
+  const sheets = resolved.sheets.map(name => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet) throw new Error(`The workbook has no sheet named "${name}".`);
+    return readSheet(sheet, name, resolved);
+  });
+  return resolved.combine === 'stack' && sheets.length > 1 ? [stackSheets(sheets)] : sheets;
+};
@@ -1,7 +1,8 @@
 
 import type { TableRow } from '../types';
 
-export const exportDataAsCSV = (data: TableRow[], fileName: string) => {
+// `suffix` is added to the file name, e.g. sales.csv exports as sales_cleaned.csv.
+export const exportDataAsCSV = (data: TableRow[], fileName: string, suffix = 'cleaned') => {
   if (data.length === 0) {
     console.warn("No data to export.");
     return;
@@ -12,7 +13,7 @@ export const exportDataAsCSV = (data: TableRow[], fileName: string) => {
 
   data.forEach(row => {
     const values = headers.map(header => {
-      const escaped = ('' + row[header]).replace(/"/g, '""'); // Escape double quotes
+      const escaped = ('' + (row[header] ?? '')).replace(/"/g, '""'); // Escape double quotes
       return `"${escaped}"`; // Wrap all values in quotes
     });
     csvRows.push(values.join(','));
@@ -26,10 +27,173 @@ export const exportDataAsCSV = (data: TableRow[], fileName: string) => {
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
     const cleanFileName = fileName.substring(0, fileName.lastIndexOf('.'));
-    link.setAttribute('download', `${cleanFileName}_cleaned.csv`);
+    link.setAttribute('download', `${cleanFileName}_${suffix}.csv`);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   }
 };
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const EXPORT_PADDING = 16;
+const EXPORT_TITLE_HEIGHT = 32;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_SWATCH = 10;
+const TEXT_STYLE_PROPERTIES = ['font-family', 'font-size', 'font-weight'];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke after the click has been handled, or some browsers cancel the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const toFileName = (title: string) => title.trim().replace(/[^\w\-]+/g, '_').replace(/^_+|_+$/g, '') || 'chart';
+
+// The plotted chart is the largest SVG in the container; legend icons are tiny SVGs too.
+const findChartSvg = (container: HTMLElement): SVGSVGElement | null => {
+  let best: SVGSVGElement | null = null;
+  let bestArea = 0;
+  container.querySelectorAll('svg').forEach(svg => {
+    const { width, height } = svg.getBoundingClientRect();
+    if (width * height > bestArea) {
+      best = svg;
+      bestArea = width * height;
+    }
+  });
+  return best;
+};
+
+// recharts draws its legend as HTML, so read the entries back to redraw them in the SVG.
+const readLegendEntries = (container: HTMLElement): Array<{ label: string; color: string }> =>
+  Array.from(container.querySelectorAll('.recharts-legend-item')).map(item => {
+    const shape = item.querySelector('path, rect, circle, line');
+    const fill = shape?.getAttribute('fill');
+    const color = fill && fill !== 'none' ? fill : shape?.getAttribute('stroke') ?? '#6b7280';
+    return { label: item.querySelector('.recharts-legend-item-text')?.textContent ?? '', color };
+  });
+
+/**
+ * Builds a standalone SVG of the chart rendered inside `container`, with the title above it and the
+ * legend redrawn below it. Text styles that come from CSS are inlined so the file renders the same elsewhere.
+ */
+export const buildChartSvg = (container: HTMLElement, title: string): SVGSVGElement => {
+  const source = findChartSvg(container);
+  if (!source) throw new Error('There is no chart to export yet.');
+
+  const { width: chartWidth, height: chartHeight } = source.getBoundingClientRect();
+  const chart = source.cloneNode(true) as SVGSVGElement;
+  chart.setAttribute('x', String(EXPORT_PADDING));
+  chart.setAttribute('y', String(EXPORT_PADDING + EXPORT_TITLE_HEIGHT));
+  chart.setAttribute('width', String(chartWidth));
+  chart.setAttribute('height', String(chartHeight));
+  chart.removeAttribute('class');
+  const sourceTexts = source.querySelectorAll('text');
+  chart.querySelectorAll('text').forEach((text, i) => {
+    const computed = getComputedStyle(sourceTexts[i]);
+    TEXT_STYLE_PROPERTIES.forEach(property => text.style.setProperty(property, computed.getPropertyValue(property)));
+  });
+
+  const width = chartWidth + EXPORT_PADDING * 2;
+  const fontFamily = getComputedStyle(container).fontFamily;
+
+  // Lay the legend out in rows, estimating text width from the font size.
+  const legend = document.createElementNS(SVG_NS, 'g');
+  let x = 0;
+  let rows = 0;
+  readLegendEntries(container).forEach(({ label, color }) => {
+    const itemWidth = LEGEND_SWATCH + 6 + label.length * 7 + 16;
+    if (rows === 0 || x + itemWidth > chartWidth) {
+      rows++;
+      x = 0;
+    }
+    const y = (rows - 1) * LEGEND_ROW_HEIGHT;
+    const swatch = document.createElementNS(SVG_NS, 'rect');
+    swatch.setAttribute('x', String(x));
+    swatch.setAttribute('y', String(y));
+    swatch.setAttribute('width', String(LEGEND_SWATCH));
+    swatch.setAttribute('height', String(LEGEND_SWATCH));
+    swatch.setAttribute('fill', color);
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('x', String(x + LEGEND_SWATCH + 6));
+    text.setAttribute('y', String(y + LEGEND_SWATCH - 1));
+    text.setAttribute('font-size', '12');
+    text.setAttribute('fill', '#374151');
+    text.textContent = label;
+    legend.append(swatch, text);
+    x += itemWidth;
+  });
+  const legendHeight = rows * LEGEND_ROW_HEIGHT;
+  legend.setAttribute('transform', `translate(${EXPORT_PADDING} ${EXPORT_PADDING + EXPORT_TITLE_HEIGHT + chartHeight + 8})`);
+  const height = EXPORT_PADDING * 2 + EXPORT_TITLE_HEIGHT + chartHeight + (rows > 0 ? legendHeight + 8 : 0);
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  svg.setAttribute('font-family', fontFamily);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#ffffff');
+
+  const heading = document.createElementNS(SVG_NS, 'text');
+  heading.setAttribute('x', String(EXPORT_PADDING));
+  heading.setAttribute('y', String(EXPORT_PADDING + 18));
+  heading.setAttribute('font-size', '18');
+  heading.setAttribute('font-weight', '600');
+  heading.setAttribute('fill', '#1f2937');
+  heading.textContent = title;
+
+  svg.append(background, heading, chart, legend);
+  return svg;
+};
+
+const renderChartPng = async (container: HTMLElement, title: string, scale: number): Promise<Blob> => {
+  const svg = buildChartSvg(container, title);
+  const width = Number(svg.getAttribute('width'));
+  const height = Number(svg.getAttribute('height'));
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(svg))}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not create an image of the chart.');
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create an image of the chart.'))), 'image/png');
+  });
+};
+
+export const exportChartAsSVG = (container: HTMLElement, title: string) => {
+  const svg = buildChartSvg(container, title);
+  const blob = new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml;charset=utf-8' });
+  downloadBlob(blob, `${toFileName(title)}.svg`);
+};
+
+// `scale` multiplies the on-screen size, e.g. 2 for a sharp image on slides.
+export const exportChartAsPNG = async (container: HTMLElement, title: string, scale: number) => {
+  downloadBlob(await renderChartPng(container, title, scale), `${toFileName(title)}.png`);
+};
+
+export const copyChartToClipboard = async (container: HTMLElement, title: string, scale: number) => {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('This browser does not support copying images.');
+  }
+  // Passing the promise keeps the copy inside the click's user gesture in Safari.
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': renderChartPng(container, title, scale) })]);
+};
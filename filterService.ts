@@ -0,0 +1,233 @@
+import type { TableRow, ColumnSchema, ColumnType, ColumnFilter, FilterOperator, FilterSet } from '../types';
+import { isNumericType, isTemporalType, parseNumericValue } from './schemaService';
+import { detectDateOrder, parseDateValue } from './dateService';
+
+// Which editor and operators a column gets, based on its type.
+export type FilterKind = 'number' | 'date' | 'category' | 'text';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  between: 'between',
+  contains: 'contains',
+  notContains: 'does not contain',
+  regex: 'matches regex',
+  in: 'is one of',
+  notIn: 'is not one of',
+  isEmpty: 'is empty',
+  isNotEmpty: 'is not empty',
+};
+
+// Dates read better as before/after than as comparison symbols.
+const DATE_OPERATOR_LABELS: Partial<Record<FilterOperator, string>> = {
+  equals: 'on',
+  notEquals: 'not on',
+  gt: 'after',
+  gte: 'on or after',
+  lt: 'before',
+  lte: 'on or before',
+};
+
+export const FILTER_OPERATORS: Record<FilterKind, FilterOperator[]> = {
+  number: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'between', 'isEmpty', 'isNotEmpty'],
+  date: ['gt', 'lt', 'between', 'equals', 'notEquals', 'gte', 'lte', 'isEmpty', 'isNotEmpty'],
+  category: ['in', 'notIn', 'contains', 'regex', 'isEmpty', 'isNotEmpty'],
+  text: ['contains', 'notContains', 'equals', 'notEquals', 'regex', 'in', 'notIn', 'isEmpty', 'isNotEmpty'],
+};
+
+export const EMPTY_FILTER_SET: FilterSet = { combinator: 'and', filters: [] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The value picker lists at most this many distinct values.
+export const MAX_PICKER_VALUES = 500;
+
+export const getFilterKind = (type: ColumnType | undefined): FilterKind => {
+  if (isNumericType(type)) return 'number';
+  if (isTemporalType(type)) return 'date';
+  if (type === 'categorical' || type === 'boolean') return 'category';
+  return 'text';
+};
+
+export const getOperatorLabel = (kind: FilterKind, operator: FilterOperator): string =>
+  (kind === 'date' ? DATE_OPERATOR_LABELS[operator] : undefined) ?? FILTER_OPERATOR_LABELS[operator];
+
+export const createFilter = (column: string, type: ColumnType | undefined): ColumnFilter => ({
+  id: `filter-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  column,
+  operator: FILTER_OPERATORS[getFilterKind(type)][0],
+  value: '',
+  valueTo: '',
+  values: [],
+});
+
+const isMissing = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A filter only takes part once it has the values its operator needs; half-filled filters are ignored.
+export const isFilterComplete = (filter: ColumnFilter): boolean => {
+  switch (filter.operator) {
+    case 'isEmpty':
+    case 'isNotEmpty':
+      return true;
+    case 'in':
+    case 'notIn':
+      return filter.values.length > 0;
+    case 'between':
+      return filter.value.trim() !== '' && filter.valueTo.trim() !== '';
+    case 'regex':
+      return filter.value !== '' && isValidRegex(filter.value);
+    default:
+      return filter.value.trim() !== '';
+  }
+};
+
+export const getActiveFilters = (filterSet: FilterSet, schema: ColumnSchema[]): ColumnFilter[] =>
+  filterSet.filters.filter(filter => isFilterComplete(filter) && schema.some(column => column.name === filter.column));
+
+export const hasActiveFilters = (filterSet: FilterSet, schema: ColumnSchema[]): boolean =>
+  getActiveFilters(filterSet, schema).length > 0;
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' ? value : parseNumericValue(value as string | null);
+
+// Dates compare by whole days, so "on 2024-03-01" includes times during that day. The filter's own
+// value is read in the column's date order.
+const dayReader = (order: 'MDY' | 'DMY') => (value: unknown): number | null => {
+  const time = parseDateValue(value as string | number | null, order);
+  return time === null ? null : Math.floor(time / DAY_MS);
+};
+
+type Predicate = (row: TableRow) => boolean;
+
+const rangeTest = (operator: FilterOperator, bound: number, upper: number): ((n: number) => boolean) => {
+  switch (operator) {
+    case 'notEquals': return n => n !== bound;
+    case 'gt': return n => n > bound;
+    case 'gte': return n => n >= bound;
+    case 'lt': return n => n < bound;
+    case 'lte': return n => n <= bound;
+    case 'between': return n => n >= Math.min(bound, upper) && n <= Math.max(bound, upper);
+    default: return n => n === bound;
+  }
+};
+
+const compileRange = (filter: ColumnFilter, read: (value: unknown) => number | null): Predicate | null => {
+  const { column, operator } = filter;
+  const bound = read(filter.value);
+  const upper = operator === 'between' ? read(filter.valueTo) : bound;
+  // Values that cannot be read as a number or date leave the filter out rather than hiding every row.
+  if (bound === null || upper === null) return null;
+  const test = rangeTest(operator, bound, upper);
+  return row => {
+    const n = read(row[column]);
+    // Rows without a value never pass a comparison, except "does not equal".
+    if (n === null) return operator === 'notEquals';
+    return test(n);
+  };
+};
+
+const compileFilter = (filter: ColumnFilter, kind: FilterKind, data: TableRow[]): Predicate | null => {
+  const { column, operator } = filter;
+  switch (operator) {
+    case 'isEmpty':
+      return row => isMissing(row[column]);
+    case 'isNotEmpty':
+      return row => !isMissing(row[column]);
+    case 'in':
+    case 'notIn': {
+      const values = new Set(filter.values);
+      const wanted = operator === 'in';
+      return row => values.has(isMissing(row[column]) ? '' : String(row[column])) === wanted;
+    }
+    case 'regex': {
+      const pattern = new RegExp(filter.value, 'i');
+      return row => !isMissing(row[column]) && pattern.test(String(row[column]));
+    }
+    case 'contains':
+    case 'notContains': {
+      const needle = filter.value.toLowerCase();
+      const wanted = operator === 'contains';
+      return row => String(row[column] ?? '').toLowerCase().includes(needle) === wanted;
+    }
+  }
+  if (kind === 'number') return compileRange(filter, toNumber);
+  if (kind === 'date') return compileRange(filter, dayReader(detectDateOrder(data.slice(0, 1000).map(row => row[column] ?? null))));
+  const text = filter.value.trim().toLowerCase();
+  const wanted = operator === 'equals';
+  return row => (String(row[column] ?? '').trim().toLowerCase() === text) === wanted;
+};
+
+/**
+ * Turns the filter set into one row test. Incomplete filters and filters on columns that no longer
+ * exist are skipped; with nothing left to apply, every row passes.
+ */
+export const compileFilterSet = (filterSet: FilterSet, schema: ColumnSchema[], data: TableRow[]): Predicate | null => {
+  const types = new Map(schema.map(column => [column.name, column.type]));
+  const predicates = getActiveFilters(filterSet, schema)
+    .map(filter => compileFilter(filter, getFilterKind(types.get(filter.column)), data))
+    .filter((predicate): predicate is Predicate => predicate !== null);
+  if (predicates.length === 0) return null;
+  return filterSet.combinator === 'and'
+    ? row => predicates.every(predicate => predicate(row))
+    : row => predicates.some(predicate => predicate(row));
+};
+
+export const applyFilterSet = (data: TableRow[], schema: ColumnSchema[], filterSet: FilterSet): TableRow[] => {
+  const predicate = compileFilterSet(filterSet, schema, data);
+  return predicate ? data.filter(predicate) : data;
+};
+
+const quote = (value: string) => `"${value}"`;
+
+export const describeFilter = (filter: ColumnFilter, type: ColumnType | undefined): string => {
+  const label = getOperatorLabel(getFilterKind(type), filter.operator);
+  switch (filter.operator) {
+    case 'isEmpty':
+    case 'isNotEmpty':
+      return `${filter.column} ${label}`;
+    case 'in':
+    case 'notIn':
+      return `${filter.column} ${label} ${filter.values.map(value => (value === '' ? '(empty)' : value)).join(', ')}`;
+    case 'between':
+      return `${filter.column} between ${filter.value} and ${filter.valueTo}`;
+    case 'contains':
+    case 'notContains':
+    case 'regex':
+      return `${filter.column} ${label} ${quote(filter.value)}`;
+    default:
+      return `${filter.column} ${label} ${getFilterKind(type) === 'text' ? quote(filter.value) : filter.value}`;
+  }
+};
+
+// e.g. `Revenue > 1000 AND Region is one of East, West`
+export const describeFilterSet = (filterSet: FilterSet, schema: ColumnSchema[]): string => {
+  const types = new Map(schema.map(column => [column.name, column.type]));
+  return getActiveFilters(filterSet, schema)
+    .map(filter => describeFilter(filter, types.get(filter.column)))
+    .join(filterSet.combinator === 'and' ? ' AND ' : ' OR ');
+};
+
+// Distinct values for the multi-select picker, most frequent first; '' stands for empty cells.
+export const getDistinctValues = (data: TableRow[], column: string): { value: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  data.forEach(row => {
+    const key = isMissing(row[column]) ? '' : String(row[column]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, MAX_PICKER_VALUES);
+};
@@ -0,0 +1,212 @@
+import type { ForecastConfig, ForecastMethod, TimePeriod } from '../types';
+import { nextPeriod, type TimeSeriesPoint } from './dateService';
+import { normalQuantile } from './distributionService';
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  movingAverage: 'Moving average',
+  exponential: 'Exponential smoothing',
+  holt: "Holt's linear trend",
+  holtWinters: 'Holt-Winters (trend and season)',
+};
+
+// Seasons most data at each period repeats over: a week of days, a year of weeks, months or quarters.
+// Yearly data has no natural season, so it starts at the shortest one.
+export const DEFAULT_SEASON_LENGTHS: Record<TimePeriod, number> = {
+  day: 7,
+  week: 52,
+  month: 12,
+  quarter: 4,
+  year: 2,
+};
+
+export const FORECAST_LEVEL = 0.95;
+
+// Keys the forecast adds to chart points; the last actual point carries them too so the lines join.
+export const FORECAST_KEY = 'forecast';
+export const FORECAST_LOWER_KEY = 'forecastLower';
+export const FORECAST_UPPER_KEY = 'forecastUpper';
+
+export const createForecastConfig = (period: TimePeriod): ForecastConfig => ({
+  method: 'holt',
+  horizon: 6,
+  window: 3,
+  seasonLength: DEFAULT_SEASON_LENGTHS[period],
+});
+
+export interface Forecast {
+  method: ForecastMethod;
+  // Smoothing parameters chosen to fit the history best, by name.
+  parameters: Record<string, number>;
+  // Root mean squared error of the one-step-ahead forecasts over the history.
+  rmse: number;
+  values: Array<{ value: number; lower: number; upper: number }>;
+}
+
+// Smoothing parameters tried when fitting; every combination is scored on one-step-ahead error.
+const PARAMETER_GRID = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+
+interface SmoothingFit {
+  sse: number;
+  errors: number;
+  level: number;
+  trend: number;
+  seasonals: number[];
+}
+
+const average = (values: Array<number | null>): number => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.reduce((sum, v) => sum + v, 0) / present.length;
+};
+
+/**
+ * Runs exponential smoothing over the series: level only, with a trend when `beta` is set and with
+ * additive seasons of length `m` when `gamma` is set. Missing periods take the smoothed prediction.
+ */
+const smooth = (values: Array<number | null>, alpha: number, beta: number | null, gamma: number | null, m: number): SmoothingFit => {
+  let level: number;
+  let trend = 0;
+  let seasonals: number[] = [];
+  let start: number;
+  if (gamma !== null) {
+    // The first season sets the level and seasonal pattern, the change to the second the trend.
+    // Seasonals are measured against the trend line so they do not soak up the first season's slope.
+    const first = values.slice(0, m);
+    const mean = average(first);
+    trend = beta !== null ? (average(values.slice(m, 2 * m)) - mean) / m : 0;
+    seasonals = first.map((v, i) => {
+      const expected = mean + (i - (m - 1) / 2) * trend;
+      return (v ?? expected) - expected;
+    });
+    level = mean + ((m - 1) / 2) * trend;
+    start = m;
+  } else {
+    // Leading gaps are skipped so the level does not start from zero.
+    const first = values.findIndex(v => v !== null);
+    const second = values.findIndex((v, i) => i > first && v !== null);
+    level = first >= 0 ? values[first]! : 0;
+    trend = beta !== null && first >= 0 && second >= 0 ? (values[second]! - level) / (second - first) : 0;
+    start = Math.max(first, 0) + 1;
+  }
+
+  let sse = 0;
+  let errors = 0;
+  for (let t = start; t < values.length; t++) {
+    const season = gamma !== null ? seasonals[t % m] : 0;
+    const predicted = level + trend + season;
+    const observed = values[t];
+    if (observed !== null) {
+      sse += (observed - predicted) ** 2;
+      errors++;
+    }
+    const y = observed ?? predicted;
+    const previousLevel = level;
+    level = alpha * (y - season) + (1 - alpha) * (level + trend);
+    if (beta !== null) trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (gamma !== null) seasonals[t % m] = gamma * (y - level) + (1 - gamma) * season;
+  }
+  return { sse, errors, level, trend, seasonals };
+};
+
+const MINIMUM_LENGTHS: Record<ForecastMethod, (config: ForecastConfig) => number> = {
+  movingAverage: ({ window }) => window + 2,
+  exponential: () => 3,
+  holt: () => 4,
+  holtWinters: ({ seasonLength }) => 2 * seasonLength + 2,
+};
+
+const movingAverage = (values: Array<number | null>, { horizon, window }: ForecastConfig, z: number): Forecast => {
+  let sse = 0;
+  let errors = 0;
+  for (let t = window; t < values.length; t++) {
+    const observed = values[t];
+    const predicted = average(values.slice(t - window, t));
+    if (observed !== null && Number.isFinite(predicted)) {
+      sse += (observed - predicted) ** 2;
+      errors++;
+    }
+  }
+  const rmse = errors > 0 ? Math.sqrt(sse / errors) : 0;
+  const value = average(values.slice(-window));
+  // The forecast is a flat average, so the band stays at the one-step error.
+  return {
+    method: 'movingAverage',
+    parameters: { window },
+    rmse,
+    values: Array.from({ length: horizon }, () => ({ value, lower: value - z * rmse, upper: value + z * rmse })),
+  };
+};
+
+/**
+ * Fits the smoothing parameters by grid search and forecasts `horizon` periods ahead. The band
+ * widens with the horizon following the ETS prediction variance σ²(1 + Σ c_j²).
+ */
+const exponentialSmoothing = (values: Array<number | null>, { method, horizon, seasonLength }: ForecastConfig, z: number): Forecast => {
+  const hasTrend = method !== 'exponential';
+  const hasSeason = method === 'holtWinters';
+  const m = hasSeason ? seasonLength : 1;
+  let best: { fit: SmoothingFit; alpha: number; beta: number | null; gamma: number | null } | null = null;
+  for (const alpha of PARAMETER_GRID) {
+    for (const beta of hasTrend ? PARAMETER_GRID : [null]) {
+      for (const gamma of hasSeason ? PARAMETER_GRID : [null]) {
+        const fit = smooth(values, alpha, beta, gamma, m);
+        if (!best || fit.sse < best.fit.sse) best = { fit, alpha, beta, gamma };
+      }
+    }
+  }
+  const { fit, alpha, beta, gamma } = best!;
+  const rmse = fit.errors > 0 ? Math.sqrt(fit.sse / fit.errors) : 0;
+  const n = values.length;
+  let spread = 0;
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    if (h > 1) {
+      const j = h - 1;
+      const c = alpha * (1 + (beta ?? 0) * j) + (gamma !== null && j % m === 0 ? gamma * (1 - alpha) : 0);
+      spread += c * c;
+    }
+    const value = fit.level + h * fit.trend + (hasSeason ? fit.seasonals[(n - 1 + h) % m] : 0);
+    const margin = z * rmse * Math.sqrt(1 + spread);
+    return { value, lower: value - margin, upper: value + margin };
+  });
+  return {
+    method,
+    parameters: { α: alpha, ...(beta !== null ? { β: beta } : {}), ...(gamma !== null ? { γ: gamma } : {}) },
+    rmse,
+    values: forecast,
+  };
+};
+
+// Forecasts a series of evenly spaced values; throws when the series is too short for the method.
+export const forecastValues = (values: Array<number | null>, config: ForecastConfig): Forecast => {
+  if (config.method === 'holtWinters' && config.seasonLength < 2) throw new Error('A season needs at least 2 periods.');
+  if (config.method === 'movingAverage' && config.window < 1) throw new Error('The moving average needs a window of at least 1 period.');
+  const minimum = MINIMUM_LENGTHS[config.method](config);
+  if (values.length < minimum) {
+    throw new Error(`${FORECAST_METHOD_LABELS[config.method]} needs at least ${minimum} periods of history; the chart has ${values.length}.`);
+  }
+  const z = normalQuantile(1 - (1 - FORECAST_LEVEL) / 2);
+  return config.method === 'movingAverage' ? movingAverage(values, config, z) : exponentialSmoothing(values, config, z);
+};
+
+// Forecasts one series of a resampled chart and appends the forecast periods to its points.
+export const appendForecast = (
+  points: TimeSeriesPoint[],
+  key: string,
+  period: TimePeriod,
+  config: ForecastConfig,
+): { points: TimeSeriesPoint[]; forecast: Forecast } => {
+  const forecast = forecastValues(points.map(point => point[key] ?? null), config);
+  const last = points[points.length - 1];
+  const joined = last[key] === null ? last : { ...last, [FORECAST_KEY]: last[key], [FORECAST_LOWER_KEY]: last[key], [FORECAST_UPPER_KEY]: last[key] };
+  let time = last.time;
+  const future = forecast.values.map(({ value, lower, upper }) => {
+    time = nextPeriod(time, period);
+    return { time, [key]: null, [FORECAST_KEY]: value, [FORECAST_LOWER_KEY]: lower, [FORECAST_UPPER_KEY]: upper } as TimeSeriesPoint;
+  });
+  return { points: [...points.slice(0, -1), joined, ...future], forecast };
+};
+
+export const describeForecast = ({ method, parameters, rmse }: Forecast): string => {
+  const settings = Object.entries(parameters).map(([name, value]) => `${name} = ${value}`).join(', ');
+  return `${FORECAST_METHOD_LABELS[method]} (${settings}); one-step error ${rmse.toPrecision(3)}; band shows ${Math.round(FORECAST_LEVEL * 100)}% prediction interval.`;
+};
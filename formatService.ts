@@ -0,0 +1,194 @@
+import type { TableRow, CellValue, DataFormat } from '../types';
+import { parquetReadObjects } from 'hyparquet';
+
+export const DATA_FORMAT_LABELS: Record<DataFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  ndjson: 'NDJSON (JSON lines)',
+  excel: 'Excel',
+  parquet: 'Parquet',
+};
+
+const EXTENSION_FORMATS: Record<string, DataFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  xls: 'excel',
+  xlsx: 'excel',
+  parquet: 'parquet',
+};
+
+export const ACCEPTED_FILE_EXTENSIONS = [...Object.keys(EXTENSION_FORMATS), 'txt'].map(ext => `.${ext}`);
+
+export const PASTED_DATA_FILE_NAME = 'pasted-data.txt';
+
+export const MAX_FILE_SIZE_MB = 500;
+
+const SNIFF_BYTES = 64 * 1024;
+const SNIFF_LINES = 20;
+const CHUNK_BYTES = 4 * 1024 * 1024;
+const PARQUET_MAGIC = [0x50, 0x41, 0x52, 0x31]; // "PAR1"
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]; // .xlsx is a zip archive
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0]; // legacy .xls
+
+const formatFromExtension = (fileName: string): DataFormat | null => {
+  const extension = fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+  return EXTENSION_FORMATS[extension] ?? null;
+};
+
+const hasSignature = (bytes: Uint8Array, signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+const detectTextFormat = (text: string): DataFormat | null => {
+  const trimmed = text.trimStart();
+  if (!trimmed) return null;
+  if (trimmed.startsWith('[')) return 'json';
+
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (trimmed.startsWith('{')) {
+    // One complete object per line means JSON lines; a pretty-printed object fails to parse on line one.
+    try {
+      const first = JSON.parse(lines[0]);
+      if (lines.length > 1 && first !== null && typeof first === 'object') return 'ndjson';
+    } catch {
+      // Not a one-line object, so treat the whole file as a JSON document.
+    }
+    return 'json';
+  }
+
+  const sample = lines.slice(0, SNIFF_LINES).join('\n');
+  const tabs = sample.split('\t').length - 1;
+  const commas = sample.split(',').length - 1;
+  return tabs > 0 && tabs >= commas ? 'tsv' : 'csv';
+};
+
+/**
+ * Works out the format from the file's first bytes: binary signatures for Parquet and Excel, then the shape
+ * of the text for JSON, JSON lines and delimited data. The extension is only used when the content is inconclusive.
+ */
+export const detectFormat = async (file: File): Promise<DataFormat | null> => {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (hasSignature(head, PARQUET_MAGIC)) return 'parquet';
+  if (hasSignature(head, ZIP_MAGIC) || hasSignature(head, OLE_MAGIC)) return 'excel';
+  const text = new TextDecoder().decode(head).replace(/^\uFEFF/, '');
+  if (text.includes('\u0000')) return formatFromExtension(file.name);
+  return detectTextFormat(text) ?? formatFromExtension(file.name);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !ArrayBuffer.isView(value);
+
+// JSON.stringify throws on bigint, which Parquet INT64 columns produce.
+const stringifyJson = (value: unknown) => JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.every(item => item === null || typeof item !== 'object') ? value.map(item => String(item ?? '')).join(', ') : stringifyJson(value);
+  }
+  return String(value);
+};
+
+/**
+ * Turns one record into a flat row. Nested objects become dotted column names ("address.city");
+ * arrays of plain values are joined with commas and arrays of objects are kept as JSON text.
+ */
+export const flattenRecord = (record: unknown, prefix = '', row: TableRow = {}): TableRow => {
+  if (isPlainObject(record)) {
+    const entries = Object.entries(record);
+    if (entries.length === 0 && prefix) row[prefix] = null;
+    entries.forEach(([key, value]) => flattenRecord(value, prefix ? `${prefix}.${key}` : key, row));
+  } else {
+    row[prefix || 'value'] = toCellValue(record);
+  }
+  return row;
+};
+
+// Records can have different keys; give every row every column so the table is rectangular.
+const alignColumns = (rows: TableRow[]): TableRow[] => {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return rows.map(row => {
+    const aligned: TableRow = {};
+    headers.forEach(header => {
+      aligned[header] = row[header] ?? null;
+    });
+    return aligned;
+  });
+};
+
+// APIs often wrap the records, e.g. { "data": [ ... ] }; use the first array of objects found.
+const findRecordArray = (document: Record<string, unknown>): unknown[] | null => {
+  const match = Object.values(document).find(value => Array.isArray(value) && value.length > 0 && value.every(isPlainObject));
+  return (match as unknown[] | undefined) ?? null;
+};
+
+export const parseJsonText = (text: string): TableRow[] => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`The file is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const records = Array.isArray(document)
+    ? document
+    : isPlainObject(document) ? findRecordArray(document) ?? [document] : [document];
+  return alignColumns(records.map(record => flattenRecord(record)));
+};
+
+// Reads JSON lines a chunk at a time, so only one chunk of text is held in memory at once.
+export const parseNdjsonFile = async (file: File, onProgress?: (fraction: number) => void): Promise<TableRow[]> => {
+  const decoder = new TextDecoder();
+  const rows: TableRow[] = [];
+  let lineNumber = 0;
+  let pending = '';
+  const parseLine = (line: string) => {
+    lineNumber++;
+    if (line.trim() === '') return;
+    try {
+      rows.push(flattenRecord(JSON.parse(line)));
+    } catch {
+      throw new Error(`Line ${lineNumber} is not valid JSON.`);
+    }
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const chunk = await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+    const lines = (pending + decoder.decode(chunk, { stream: true })).split(/\r?\n/);
+    // The last line may continue in the next chunk.
+    pending = lines.pop() ?? '';
+    lines.forEach(parseLine);
+    onProgress?.(Math.min(1, (offset + chunk.byteLength) / file.size));
+  }
+  parseLine(pending + decoder.decode());
+  return alignColumns(rows);
+};
+
+export const parseParquetFile = async (file: File): Promise<TableRow[]> => {
+  try {
+    const records = await parquetReadObjects({ file: await file.arrayBuffer() });
+    return alignColumns(records.map(record => flattenRecord(record)));
+  } catch (err) {
+    console.error(err);
+    throw new Error("Could not read the Parquet file. It may use a compression codec that is not supported in the browser.");
+  }
+};
+
+/**
+ * Converts the first <table> in pasted HTML (for example a table copied from a web page) to
+ * tab-separated text, or returns null when the HTML has no table.
+ */
+export const htmlTableToTsv = (html: string): string | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+  return Array.from(table.rows)
+    .map(row => Array.from(row.cells).map(cell => (cell.textContent ?? '').replace(/\s+/g, ' ').trim()).join('\t'))
+    .join('\n');
+};
@@ -0,0 +1,685 @@
+import type { TableRow, CellValue, ColumnSchema, ColumnType } from '../types';
+import { isNumericType, isTemporalType, parseNumericValue } from './schemaService';
+import { detectDateOrder, formatTimestamp, parseDateValue } from './dateService';
+
+// The types an expression can produce. Dates are handled as UTC timestamps while evaluating.
+export type FormulaType = 'number' | 'text' | 'boolean' | 'date';
+
+export const FORMULA_TYPE_LABELS: Record<FormulaType, string> = {
+  number: 'Number',
+  text: 'Text',
+  boolean: 'True/False',
+  date: 'Date',
+};
+
+type Value = number | string | boolean | null;
+// null is the type of the `null` literal, which fits wherever a value is expected.
+type CheckedType = FormulaType | null;
+
+const DAY_MS = 86_400_000;
+// Text results with at most this many distinct values become categorical columns.
+const MAX_CATEGORIES = 50;
+const TRUE_TOKENS = new Set(['true', 'yes', 'y', 't', '1']);
+const FALSE_TOKENS = new Set(['false', 'no', 'n', 'f', '0']);
+
+// --- Tokenizer ---
+
+type Token =
+  | { kind: 'number'; value: number; start: number; end: number }
+  | { kind: 'string'; value: string; start: number; end: number }
+  | { kind: 'column'; value: string; start: number; end: number }
+  | { kind: 'identifier'; value: string; start: number; end: number }
+  | { kind: 'operator'; value: string; start: number; end: number }
+  | { kind: 'end'; value: ''; start: number; end: number };
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '!', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected "${char}" at character ${i + 1}.`);
+      i += match[0].length;
+      tokens.push({ kind: 'number', value: Number(match[0]), start, end: i });
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new Error(`Text starting at character ${start + 1} is missing its closing quote.`);
+      i++;
+      tokens.push({ kind: 'string', value, start, end: i });
+    } else if (char === '[') {
+      const close = source.indexOf(']', i);
+      if (close < 0) throw new Error(`Column reference at character ${start + 1} is missing its closing "]".`);
+      i = close + 1;
+      tokens.push({ kind: 'column', value: source.slice(start + 1, close), start, end: i });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ kind: 'identifier', value: match[0], start, end: i });
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (!operator) throw new Error(`Unexpected "${char}" at character ${i + 1}.`);
+      i += operator.length;
+      tokens.push({ kind: 'operator', value: operator, start, end: i });
+    }
+  }
+  tokens.push({ kind: 'end', value: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+// --- Parser ---
+
+type Node =
+  | { kind: 'literal'; value: Value; type: CheckedType }
+  | { kind: 'column'; name: string; start: number }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[]; start: number };
+
+// Operator aliases so both spreadsheet and programming habits work.
+const OPERATOR_ALIASES: Record<string, string> = { '==': '=', '<>': '!=', '&&': 'and', '||': 'or', '!': 'not' };
+
+const BINARY_LEVELS: string[][] = [['or'], ['and'], ['=', '!=', '<', '<=', '>', '>='], ['&'], ['+', '-'], ['*', '/', '%']];
+
+const parse = (source: string, columns: Set<string>): Node => {
+  const tokens = tokenize(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  // The operator a token stands for, if any: symbols, their aliases, or the words and/or/not.
+  const operatorOf = (token: Token): string | null => {
+    if (token.kind === 'operator') return OPERATOR_ALIASES[token.value] ?? token.value;
+    if (token.kind === 'identifier' && ['and', 'or', 'not'].includes(token.value.toLowerCase())) return token.value.toLowerCase();
+    return null;
+  };
+
+  const expect = (value: string) => {
+    const token = next();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new Error(token.kind === 'end' ? `Expected "${value}" but the formula ended.` : `Expected "${value}" at character ${token.start + 1}.`);
+    }
+  };
+
+  const parseLevel = (level: number): Node => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    // `not` binds looser than comparisons, so `not [a] > 1` negates the comparison.
+    if (BINARY_LEVELS[level][0] === '=' && operatorOf(peek()) === 'not') {
+      next();
+      return { kind: 'unary', op: 'not', operand: parseLevel(level) };
+    }
+    let left = parseLevel(level + 1);
+    for (let op = operatorOf(peek()); op && BINARY_LEVELS[level].includes(op); op = operatorOf(peek())) {
+      next();
+      left = { kind: 'binary', op, left, right: parseLevel(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    const op = operatorOf(peek());
+    if (op === '-' || op === '+') {
+      next();
+      const operand = parseUnary();
+      return op === '-' ? { kind: 'unary', op, operand } : operand;
+    }
+    return parsePower();
+  };
+
+  // ^ is right-associative: 2 ^ 3 ^ 2 is 2 ^ 9.
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (operatorOf(peek()) === '^') {
+      next();
+      return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: token.value, type: 'number' };
+      case 'string':
+        return { kind: 'literal', value: token.value, type: 'text' };
+      case 'column':
+        return { kind: 'column', name: token.value, start: token.start };
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (peek().kind === 'operator' && peek().value === '(') {
+          next();
+          const args: Node[] = [];
+          if (!(peek().kind === 'operator' && peek().value === ')')) {
+            args.push(parseLevel(0));
+            while (peek().kind === 'operator' && peek().value === ',') {
+              next();
+              args.push(parseLevel(0));
+            }
+          }
+          expect(')');
+          return { kind: 'call', name: lower, args, start: token.start };
+        }
+        if (lower === 'true' || lower === 'false') return { kind: 'literal', value: lower === 'true', type: 'boolean' };
+        if (lower === 'null') return { kind: 'literal', value: null, type: null };
+        // Names without spaces can be written without brackets.
+        if (columns.has(token.value)) return { kind: 'column', name: token.value, start: token.start };
+        throw new Error(`Unknown column "${token.value}" at character ${token.start + 1}. Column names with spaces go in brackets, e.g. [Unit Price].`);
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseLevel(0);
+          expect(')');
+          return inner;
+        }
+        throw new Error(`Unexpected "${token.value}" at character ${token.start + 1}.`);
+      case 'end':
+        throw new Error('The formula ended unexpectedly.');
+    }
+  };
+
+  if (peek().kind === 'end') throw new Error('Enter a formula.');
+  const root = parseLevel(0);
+  const rest = peek();
+  if (rest.kind !== 'end') throw new Error(`Unexpected "${source.slice(rest.start, rest.end)}" at character ${rest.start + 1}.`);
+  return root;
+};
+
+// --- Functions ---
+
+type ArgType = FormulaType | 'any';
+
+interface FormulaFunction {
+  args: ArgType[];
+  // Arguments after this many may be left out.
+  required?: number;
+  // Type of any further arguments, for functions that take a list.
+  rest?: ArgType;
+  returns: FormulaType;
+  description: string;
+  // Called only when every argument is present; otherwise the result is empty.
+  evaluate: (...args: Value[]) => Value;
+}
+
+const finite = (n: number): number | null => (Number.isFinite(n) ? n : null);
+const dateParts = (timestamp: number) => new Date(timestamp);
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  abs: { args: ['number'], returns: 'number', description: 'Absolute value', evaluate: n => Math.abs(n as number) },
+  round: {
+    args: ['number', 'number'], required: 1, returns: 'number', description: 'Rounds to a number of decimal places, e.g. round([price], 2)',
+    evaluate: (n, digits) => {
+      const factor = 10 ** ((digits as number | undefined) ?? 0);
+      return Math.round((n as number) * factor) / factor;
+    },
+  },
+  floor: { args: ['number'], returns: 'number', description: 'Rounds down to a whole number', evaluate: n => Math.floor(n as number) },
+  ceil: { args: ['number'], returns: 'number', description: 'Rounds up to a whole number', evaluate: n => Math.ceil(n as number) },
+  sqrt: { args: ['number'], returns: 'number', description: 'Square root', evaluate: n => finite(Math.sqrt(n as number)) },
+  ln: { args: ['number'], returns: 'number', description: 'Natural logarithm', evaluate: n => finite(Math.log(n as number)) },
+  log10: { args: ['number'], returns: 'number', description: 'Base-10 logarithm', evaluate: n => finite(Math.log10(n as number)) },
+  exp: { args: ['number'], returns: 'number', description: 'e raised to a power', evaluate: n => finite(Math.exp(n as number)) },
+  min: { args: ['number', 'number'], rest: 'number', returns: 'number', description: 'Smallest of the values', evaluate: (...ns) => Math.min(...(ns as number[])) },
+  max: { args: ['number', 'number'], rest: 'number', returns: 'number', description: 'Largest of the values', evaluate: (...ns) => Math.max(...(ns as number[])) },
+  bucket: {
+    args: ['number', 'number'], returns: 'text', description: 'Groups a number into ranges of a fixed width, e.g. bucket([age], 10) gives "20-30"',
+    evaluate: (n, width) => {
+      if ((width as number) <= 0) return null;
+      const low = Math.floor((n as number) / (width as number)) * (width as number);
+      return `${low}-${low + (width as number)}`;
+    },
+  },
+  upper: { args: ['text'], returns: 'text', description: 'Converts text to upper case', evaluate: t => (t as string).toUpperCase() },
+  lower: { args: ['text'], returns: 'text', description: 'Converts text to lower case', evaluate: t => (t as string).toLowerCase() },
+  trim: { args: ['text'], returns: 'text', description: 'Removes spaces at the start and end', evaluate: t => (t as string).trim() },
+  len: { args: ['text'], returns: 'number', description: 'Number of characters', evaluate: t => (t as string).length },
+  left: { args: ['text', 'number'], returns: 'text', description: 'First n characters', evaluate: (t, n) => (t as string).slice(0, Math.max(0, n as number)) },
+  right: { args: ['text', 'number'], returns: 'text', description: 'Last n characters', evaluate: (t, n) => ((n as number) > 0 ? (t as string).slice(-(n as number)) : '') },
+  mid: {
+    args: ['text', 'number', 'number'], returns: 'text', description: 'n characters starting at a position (1 is the first), e.g. mid([code], 2, 3)',
+    evaluate: (t, start, n) => (t as string).substr(Math.max(0, (start as number) - 1), Math.max(0, n as number)),
+  },
+  replace: {
+    args: ['text', 'text', 'text'], returns: 'text', description: 'Replaces every occurrence of some text',
+    evaluate: (t, find, replacement) => ((find as string) === '' ? t : (t as string).split(find as string).join(replacement as string)),
+  },
+  contains: { args: ['text', 'text'], returns: 'boolean', description: 'Whether text contains other text (ignoring case)', evaluate: (t, part) => (t as string).toLowerCase().includes((part as string).toLowerCase()) },
+  startswith: { args: ['text', 'text'], returns: 'boolean', description: 'Whether text starts with other text (ignoring case)', evaluate: (t, part) => (t as string).toLowerCase().startsWith((part as string).toLowerCase()) },
+  // Evaluated by compileText so dates come out as dates.
+  text: { args: ['any'], returns: 'text', description: 'Converts a value to text', evaluate: v => String(v) },
+  number: { args: ['text'], returns: 'number', description: 'Reads a number from text such as "$1,200"', evaluate: t => parseNumericValue(t as string) },
+  year: { args: ['date'], returns: 'number', description: 'Year of a date', evaluate: d => dateParts(d as number).getUTCFullYear() },
+  quarter: { args: ['date'], returns: 'number', description: 'Quarter of a date, 1 to 4', evaluate: d => Math.floor(dateParts(d as number).getUTCMonth() / 3) + 1 },
+  month: { args: ['date'], returns: 'number', description: 'Month of a date, 1 to 12', evaluate: d => dateParts(d as number).getUTCMonth() + 1 },
+  day: { args: ['date'], returns: 'number', description: 'Day of the month', evaluate: d => dateParts(d as number).getUTCDate() },
+  weekday: { args: ['date'], returns: 'number', description: 'Day of the week, 1 (Monday) to 7 (Sunday)', evaluate: d => ((dateParts(d as number).getUTCDay() + 6) % 7) + 1 },
+  date: {
+    args: ['number', 'number', 'number'], returns: 'date', description: 'Builds a date from year, month and day',
+    evaluate: (y, m, d) => finite(Date.UTC(y as number, (m as number) - 1, d as number)),
+  },
+  days_between: {
+    args: ['date', 'date'], returns: 'number', description: 'Days from the first date to the second',
+    evaluate: (a, b) => ((b as number) - (a as number)) / DAY_MS,
+  },
+  add_days: { args: ['date', 'number'], returns: 'date', description: 'Adds a number of days to a date', evaluate: (d, n) => (d as number) + (n as number) * DAY_MS },
+};
+
+// Functions whose arguments may be empty; checked and evaluated separately.
+const SPECIAL_FUNCTIONS: Record<string, string> = {
+  if: 'Picks a value by condition, e.g. if([qty] > 10, "bulk", "single")',
+  coalesce: 'The first of its values that is not empty',
+  isblank: 'Whether a value is empty',
+  concat: 'Joins values as text, skipping empty ones',
+};
+
+export const FORMULA_FUNCTION_HELP: { name: string; description: string }[] = [
+  ...Object.entries(SPECIAL_FUNCTIONS).map(([name, description]) => ({ name, description })),
+  ...Object.entries(FORMULA_FUNCTIONS).map(([name, fn]) => ({ name, description: fn.description })),
+];
+
+// --- Type checking ---
+
+export const toFormulaType = (type: ColumnType): FormulaType => {
+  if (isNumericType(type)) return 'number';
+  if (isTemporalType(type)) return 'date';
+  if (type === 'boolean') return 'boolean';
+  return 'text';
+};
+
+const typeName = (type: CheckedType) => (type === null ? 'empty' : FORMULA_TYPE_LABELS[type].toLowerCase());
+
+const fits = (actual: CheckedType, expected: ArgType) => actual === null || expected === 'any' || actual === expected;
+
+// The shared type of branches such as the two results of if(); an empty branch takes the other's type.
+const unify = (types: CheckedType[], context: string): CheckedType => {
+  const present = [...new Set(types.filter((t): t is FormulaType => t !== null))];
+  if (present.length > 1) throw new Error(`${context} must all be the same type, but got ${present.map(typeName).join(' and ')}.`);
+  return present[0] ?? null;
+};
+
+const checkNode = (node: Node, types: Map<string, FormulaType>): CheckedType => {
+  switch (node.kind) {
+    case 'literal':
+      return node.type;
+    case 'column': {
+      const type = types.get(node.name);
+      if (!type) throw new Error(`Unknown column "${node.name}" at character ${node.start + 1}.`);
+      return type;
+    }
+    case 'unary': {
+      const type = checkNode(node.operand, types);
+      const expected: FormulaType = node.op === 'not' ? 'boolean' : 'number';
+      if (!fits(type, expected)) throw new Error(`"${node.op}" needs a ${typeName(expected)} value but got ${typeName(type)}.`);
+      return expected;
+    }
+    case 'binary': {
+      const left = checkNode(node.left, types);
+      const right = checkNode(node.right, types);
+      const { op } = node;
+      if (op === '&') return 'text';
+      if (op === 'and' || op === 'or') {
+        if (!fits(left, 'boolean') || !fits(right, 'boolean')) throw new Error(`"${op}" needs true/false values on both sides.`);
+        return 'boolean';
+      }
+      if (['=', '!=', '<', '<=', '>', '>='].includes(op)) {
+        if (left !== null && right !== null && left !== right) {
+          throw new Error(`Cannot compare ${typeName(left)} with ${typeName(right)} using "${op}".`);
+        }
+        return 'boolean';
+      }
+      // Date arithmetic: date - date gives days, date ± days gives a date.
+      if (op === '-' && left === 'date' && right === 'date') return 'number';
+      if ((op === '+' || op === '-') && left === 'date' && fits(right, 'number')) return 'date';
+      if (op === '+' && fits(left, 'number') && right === 'date') return 'date';
+      if (!fits(left, 'number') || !fits(right, 'number')) {
+        const hint = op === '+' && (left === 'text' || right === 'text') ? ' Use & or concat() to join text.' : '';
+        throw new Error(`"${op}" needs numbers on both sides but got ${typeName(left)} and ${typeName(right)}.${hint}`);
+      }
+      return 'number';
+    }
+    case 'call': {
+      const argTypes = node.args.map(arg => checkNode(arg, types));
+      const count = (min: number, max: number) => {
+        if (argTypes.length < min || argTypes.length > max) {
+          const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+          throw new Error(`${node.name}() takes ${expected} argument${min === 1 && max === 1 ? '' : 's'} but got ${argTypes.length}.`);
+        }
+      };
+      switch (node.name) {
+        case 'if':
+          count(3, 3);
+          if (!fits(argTypes[0], 'boolean')) throw new Error(`The condition of if() must be true/false but got ${typeName(argTypes[0])}.`);
+          return unify(argTypes.slice(1), 'The results of if()');
+        case 'coalesce':
+          count(1, Infinity);
+          return unify(argTypes, 'The values in coalesce()');
+        case 'isblank':
+          count(1, 1);
+          return 'boolean';
+        case 'concat':
+          count(1, Infinity);
+          return 'text';
+      }
+      const fn = FORMULA_FUNCTIONS[node.name];
+      if (!fn) throw new Error(`Unknown function "${node.name}" at character ${node.start + 1}.`);
+      count(fn.required ?? fn.args.length, fn.rest ? Infinity : fn.args.length);
+      argTypes.forEach((type, i) => {
+        const expected = fn.args[i] ?? fn.rest!;
+        if (!fits(type, expected)) throw new Error(`${node.name}() expects ${typeName(expected as FormulaType)} as argument ${i + 1} but got ${typeName(type)}.`);
+      });
+      return fn.returns;
+    }
+  }
+};
+
+export interface CheckedFormula {
+  formula: string;
+  type: FormulaType;
+  // Columns the formula reads.
+  references: string[];
+}
+
+const collectReferences = (node: Node, into: Set<string>) => {
+  switch (node.kind) {
+    case 'column':
+      into.add(node.name);
+      break;
+    case 'unary':
+      collectReferences(node.operand, into);
+      break;
+    case 'binary':
+      collectReferences(node.left, into);
+      collectReferences(node.right, into);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, into));
+      break;
+  }
+};
+
+const parseAndCheck = (formula: string, schema: ColumnSchema[]): { root: Node; checked: CheckedFormula } => {
+  const types = new Map(schema.map(column => [column.name, toFormulaType(column.type)]));
+  const root = parse(formula, new Set(types.keys()));
+  const type = checkNode(root, types);
+  if (type === null) throw new Error('The formula always gives an empty value.');
+  const references = new Set<string>();
+  collectReferences(root, references);
+  return { root, checked: { formula, type, references: [...references] } };
+};
+
+// Parses and type-checks a formula against the columns it may use.
+export const checkFormula = (formula: string, schema: ColumnSchema[]): CheckedFormula | { error: string } => {
+  try {
+    return parseAndCheck(formula, schema).checked;
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// --- Evaluation ---
+
+type Reader = (row: TableRow) => Value;
+
+const columnReader = (data: TableRow[], column: ColumnSchema): Reader => {
+  const { name, type } = column;
+  switch (toFormulaType(type)) {
+    case 'number':
+      return row => parseNumericValue(row[name]);
+    case 'date': {
+      const order = detectDateOrder(data.slice(0, 1000).map(row => row[name] ?? null));
+      return row => parseDateValue(row[name], order);
+    }
+    case 'boolean':
+      return row => {
+        const text = String(row[name] ?? '').trim().toLowerCase();
+        return TRUE_TOKENS.has(text) ? true : FALSE_TOKENS.has(text) ? false : null;
+      };
+    case 'text':
+      return row => {
+        const value = row[name];
+        return value === null || value === undefined || value === '' ? null : String(value);
+      };
+  }
+};
+
+const compare = (op: string, a: Value, b: Value): Value => {
+  if (op === '=' || op === '!=') {
+    const equal = typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+    return op === '=' ? equal : !equal;
+  }
+  if (a === null || b === null) return null;
+  const order = typeof a === 'string' ? a.localeCompare(b as string) : (a as number) - (b as number);
+  switch (op) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    default: return order >= 0;
+  }
+};
+
+const arithmetic = (op: string, a: number, b: number, leftIsDate: boolean, rightIsDate: boolean): Value => {
+  switch (op) {
+    case '+':
+      // Adding a number to a date counts in days.
+      return leftIsDate ? a + b * DAY_MS : rightIsDate ? a * DAY_MS + b : a + b;
+    case '-':
+      if (leftIsDate && rightIsDate) return (a - b) / DAY_MS;
+      return leftIsDate ? a - b * DAY_MS : a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    case '%': return b === 0 ? null : a % b;
+    default: return finite(a ** b);
+  }
+};
+
+const compileNode = (node: Node, readers: Map<string, Reader>, types: Map<string, FormulaType>): Reader => {
+  switch (node.kind) {
+    case 'literal': {
+      const { value } = node;
+      return () => value;
+    }
+    case 'column':
+      return readers.get(node.name)!;
+    case 'unary': {
+      const operand = compileNode(node.operand, readers, types);
+      return node.op === 'not'
+        ? row => { const v = operand(row); return v === null ? null : !v; }
+        : row => { const v = operand(row); return v === null ? null : -(v as number); };
+    }
+    case 'binary': {
+      const { op } = node;
+      if (op === '&') {
+        const left = compileText(node.left, readers, types);
+        const right = compileText(node.right, readers, types);
+        return row => left(row) + right(row);
+      }
+      const left = compileNode(node.left, readers, types);
+      const right = compileNode(node.right, readers, types);
+      // Empty conditions count as false.
+      if (op === 'and') return row => left(row) === true && right(row) === true;
+      if (op === 'or') return row => left(row) === true || right(row) === true;
+      if (['=', '!=', '<', '<=', '>', '>='].includes(op)) return row => compare(op, left(row), right(row));
+      const leftIsDate = checkNode(node.left, types) === 'date';
+      const rightIsDate = checkNode(node.right, types) === 'date';
+      return row => {
+        const a = left(row);
+        const b = right(row);
+        if (a === null || b === null) return null;
+        return arithmetic(op, a as number, b as number, leftIsDate, rightIsDate);
+      };
+    }
+    case 'call': {
+      if (node.name === 'concat') {
+        const parts = node.args.map(arg => compileText(arg, readers, types));
+        return row => parts.map(part => part(row)).join('');
+      }
+      if (node.name === 'text') return compileText(node.args[0], readers, types);
+      const args = node.args.map(arg => compileNode(arg, readers, types));
+      switch (node.name) {
+        case 'if':
+          return row => (args[0](row) === true ? args[1](row) : args[2](row));
+        case 'coalesce':
+          return row => {
+            for (const arg of args) {
+              const value = arg(row);
+              if (value !== null) return value;
+            }
+            return null;
+          };
+        case 'isblank':
+          return row => args[0](row) === null;
+      }
+      const fn = FORMULA_FUNCTIONS[node.name];
+      return row => {
+        const values = args.map(arg => arg(row));
+        return values.some(value => value === null) ? null : fn.evaluate(...values);
+      };
+    }
+  }
+};
+
+const formatDate = (timestamp: number) => formatTimestamp(timestamp, timestamp % DAY_MS !== 0);
+
+// Reads a value as text for joining; empty values join as nothing and dates as ISO dates.
+const compileText = (node: Node, readers: Map<string, Reader>, types: Map<string, FormulaType>): ((row: TableRow) => string) => {
+  const read = compileNode(node, readers, types);
+  const isDate = checkNode(node, types) === 'date';
+  return row => {
+    const value = read(row);
+    if (value === null) return '';
+    return isDate ? formatDate(value as number) : String(value);
+  };
+};
+
+const toCell = (value: Value, type: FormulaType): CellValue => {
+  if (value === null) return null;
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    case 'date':
+      return Number.isFinite(value as number) ? formatDate(value as number) : null;
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'text':
+      return String(value);
+  }
+};
+
+/**
+ * Evaluates a formula for every row. Rows where an input is empty or the result is undefined,
+ * such as a division by zero, get an empty cell.
+ */
+export const evaluateFormula = (formula: string, data: TableRow[], schema: ColumnSchema[]): CellValue[] => {
+  const { root, checked } = parseAndCheck(formula, schema);
+  const types = new Map(schema.map(column => [column.name, toFormulaType(column.type)]));
+  const readers = new Map(
+    schema.filter(column => checked.references.includes(column.name)).map(column => [column.name, columnReader(data, column)]),
+  );
+  const evaluate = compileNode(root, readers, types);
+  return data.map(row => toCell(evaluate(row), checked.type));
+};
+
+// The column type a formula's results are stored as.
+export const getFormulaColumnType = (type: FormulaType, values: CellValue[]): ColumnType => {
+  switch (type) {
+    case 'number':
+      return values.every(value => value === null || Number.isInteger(value)) ? 'integer' : 'float';
+    case 'date':
+      return values.some(value => typeof value === 'string' && value.length > 10) ? 'datetime' : 'date';
+    case 'boolean':
+      return 'boolean';
+    case 'text':
+      return new Set(values).size <= MAX_CATEGORIES ? 'categorical' : 'text';
+  }
+};
+
+export const createFormulaColumn = (name: string, formula: string, data: TableRow[], schema: ColumnSchema[]): ColumnSchema => {
+  const checked = checkFormula(formula, schema);
+  if ('error' in checked) throw new Error(checked.error);
+  const type = getFormulaColumnType(checked.type, evaluateFormula(formula, data, schema));
+  return { name, type, inferredType: type, confidence: 1, overridden: false, formula };
+};
+
+/**
+ * Fills in every formula column from the current data. Each formula sees the columns to its left,
+ * so formula columns can build on earlier ones. A formula that no longer checks, e.g. after a column
+ * it reads changed type, leaves its column empty. With `changedColumns`, only formulas that read one
+ * of them, directly or through another formula, are filled in; the rows are not copied if none do.
+ */
+export const recomputeFormulaColumns = (data: TableRow[], schema: ColumnSchema[], changedColumns?: string[]): TableRow[] => {
+  const changed = changedColumns && new Set(changedColumns);
+  const targets = new Set(schema.filter((column, index) => {
+    if (!column.formula) return false;
+    if (!changed) return true;
+    const checked = checkFormula(column.formula, schema.slice(0, index));
+    if ('error' in checked || !checked.references.some(name => changed.has(name))) return false;
+    changed.add(column.name);
+    return true;
+  }));
+  if (targets.size === 0) return data;
+  const result = data.map(row => ({ ...row }));
+  schema.forEach((column, index) => {
+    if (!targets.has(column)) return;
+    const available = schema.slice(0, index);
+    const values = 'error' in checkFormula(column.formula!, available)
+      ? result.map(() => null)
+      : evaluateFormula(column.formula!, result, available);
+    result.forEach((row, i) => {
+      row[column.name] = values[i];
+    });
+  });
+  return result;
+};
+
+// Adds the formula columns of an earlier schema, e.g. from before the cleaning recipe changed, to a new
+// one. Each is kept only while its name is free and its formula still checks against the columns before it.
+export const carryFormulaColumns = (previous: ColumnSchema[], schema: ColumnSchema[]): ColumnSchema[] =>
+  previous
+    .filter(column => column.formula)
+    .reduce((next, column) => (
+      next.some(c => c.name === column.name) || 'error' in checkFormula(column.formula!, next) ? next : [...next, column]
+    ), schema);
+
+// Formula columns that read a column, which must not be deleted while they do.
+export const getFormulaDependents = (schema: ColumnSchema[], column: string): string[] =>
+  schema
+    .filter(c => c.formula && c.name !== column)
+    .filter(c => {
+      const checked = checkFormula(c.formula!, schema);
+      return !('error' in checked) && checked.references.includes(column);
+    })
+    .map(c => c.name);
+
+const formatColumnReference = (name: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `[${name}]`);
+
+// Rewrites references to a renamed column, leaving the rest of the formula as written.
+export const renameFormulaReferences = (formula: string, from: string, to: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula);
+  } catch {
+    return formula;
+  }
+  let result = '';
+  let last = 0;
+  tokens.forEach((token, i) => {
+    const isCall = token.kind === 'identifier' && tokens[i + 1]?.kind === 'operator' && tokens[i + 1].value === '(';
+    const isReference = token.kind === 'column' || (token.kind === 'identifier' && !isCall);
+    if (!isReference || token.value !== from) return;
+    result += formula.slice(last, token.start) + (token.kind === 'column' ? `[${to}]` : formatColumnReference(to));
+    last = token.end;
+  });
+  return result + formula.slice(last);
+};
@@ -0,0 +1,455 @@
+import type { TableRow, CellValue } from '../types';
+import { contingencyTest, mean, numericPairs, quantile, rankValues } from './statsService';
+import { chiSquareUpperTail, fUpperTail, normalQuantile, normalTwoTailed, tQuantile, tTwoTailed } from './distributionService';
+import { labelOf } from './aggregationService';
+import { MAX_CATEGORY_LEVELS } from './correlationService';
+import { formatStat } from './profileService';
+
+export type HypothesisTest = 'oneSampleT' | 'twoSampleT' | 'pairedT' | 'mannWhitney' | 'anova' | 'chiSquare' | 'oneProportion' | 'twoProportion';
+
+export const HYPOTHESIS_TEST_LABELS: Record<HypothesisTest, string> = {
+  oneSampleT: 'One-sample t-test',
+  twoSampleT: 'Two-sample t-test (Welch)',
+  pairedT: 'Paired t-test',
+  mannWhitney: 'Mann-Whitney U test',
+  anova: 'One-way ANOVA',
+  chiSquare: 'Chi-square test of independence',
+  oneProportion: 'One-sample proportion test',
+  twoProportion: 'Two-sample proportion test',
+};
+
+// The question each test answers, shown next to its settings.
+export const HYPOTHESIS_TEST_QUESTIONS: Record<HypothesisTest, string> = {
+  oneSampleT: 'Is the mean of a column different from a given value?',
+  twoSampleT: 'Do two groups have different means? Does not assume equal variances.',
+  pairedT: 'Do two measurements taken on the same rows differ on average?',
+  mannWhitney: 'Does one group tend to have higher values than another? Compares ranks, so skew and outliers matter less.',
+  anova: 'Do the means differ across the groups of a categorical column?',
+  chiSquare: 'Are two categorical columns related, or do their categories occur independently?',
+  oneProportion: 'Is the share of rows with a given value different from a given proportion?',
+  twoProportion: 'Do two groups have different shares of rows with a given value?',
+};
+
+type ColumnKind = 'numeric' | 'categorical';
+
+// Which settings a test reads.
+export interface TestInputs {
+  column: ColumnKind;
+  second?: ColumnKind;
+  // Two groups of a categorical column to compare, or all of them.
+  groups?: 'pair' | 'all';
+  // What the hypothesized value is.
+  target?: 'mean' | 'proportion';
+  success?: boolean;
+}
+
+export const TEST_INPUTS: Record<HypothesisTest, TestInputs> = {
+  oneSampleT: { column: 'numeric', target: 'mean' },
+  twoSampleT: { column: 'numeric', groups: 'pair' },
+  pairedT: { column: 'numeric', second: 'numeric' },
+  mannWhitney: { column: 'numeric', groups: 'pair' },
+  anova: { column: 'numeric', groups: 'all' },
+  chiSquare: { column: 'categorical', second: 'categorical' },
+  oneProportion: { column: 'categorical', target: 'proportion', success: true },
+  twoProportion: { column: 'categorical', groups: 'pair', success: true },
+};
+
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+export interface TestSettings {
+  test: HypothesisTest;
+  column: string;
+  // The second measurement for a paired test, or the second column for a chi-square test.
+  secondColumn: string;
+  groupColumn: string;
+  groupA: string;
+  groupB: string;
+  // The mean or proportion a one-sample test compares against.
+  hypothesizedValue: number;
+  // The value counted as a success by the proportion tests.
+  successValue: string;
+  confidenceLevel: number;
+}
+
+export const DEFAULT_TEST_SETTINGS: TestSettings = {
+  test: 'twoSampleT',
+  column: '',
+  secondColumn: '',
+  groupColumn: '',
+  groupA: '',
+  groupB: '',
+  hypothesizedValue: 0,
+  successValue: '',
+  confidenceLevel: 0.95,
+};
+
+export interface TestResult {
+  title: string;
+  statisticLabel: string;
+  statistic: number;
+  degreesOfFreedom: string | null;
+  pValue: number;
+  effect: { label: string; value: number; magnitude: string } | null;
+  interval: { label: string; lower: number; upper: number } | null;
+  // Sample sizes and the estimates the test compares, such as group means.
+  details: Array<{ label: string; value: string }>;
+  conclusion: string;
+  warnings: string[];
+}
+
+const isMissing = (value: CellValue | undefined) => value === null || value === undefined || value === '';
+
+const isNumber = (value: CellValue | undefined): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Distinct values of a categorical column, most frequent first.
+export const getGroupLevels = (data: TableRow[], column: string): string[] => {
+  const counts = new Map<string, number>();
+  data.forEach(row => {
+    if (!isMissing(row[column])) counts.set(labelOf(row[column]), (counts.get(labelOf(row[column])) ?? 0) + 1);
+  });
+  return [...counts].sort(([, a], [, b]) => b - a).map(([level]) => level);
+};
+
+const groupNumbers = (data: TableRow[], column: string, groupColumn: string, group: string): number[] =>
+  data.filter(row => !isMissing(row[groupColumn]) && labelOf(row[groupColumn]) === group).map(row => row[column]).filter(isNumber);
+
+const variance = (values: number[], m = mean(values)) =>
+  values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+
+const median = (values: number[]) => quantile(Float64Array.from(values).sort(), 0.5);
+
+export const formatPValue = (p: number): string => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+const describeMagnitude = (value: number, [small, medium, large]: [number, number, number]): string => {
+  const size = Math.abs(value);
+  return size >= large ? 'large' : size >= medium ? 'medium' : size >= small ? 'small' : 'negligible';
+};
+
+const percent = (level: number) => `${Math.round(level * 100)}%`;
+
+const describeP = (p: number) => (p < 0.001 ? 'p < 0.001' : `p = ${formatPValue(p)}`);
+
+// The plain-language verdict shared by every test.
+const verdict = (p: number, level: number, finding: string, noFinding: string): string => {
+  const alpha = percent(1 - level);
+  return p < 1 - level
+    ? `A result this extreme would be unlikely if there were no real ${finding} (${describeP(p)}), so the ${finding} is statistically significant at the ${alpha} level.`
+    : `A result like this could easily arise by chance (${describeP(p)}), so the data do not show a significant ${finding} at the ${alpha} level${noFinding ? `; ${noFinding}` : ''}.`;
+};
+
+const requireSize = (values: number[], minimum: number, what: string) => {
+  if (values.length < minimum) throw new Error(`${what} needs at least ${minimum} numeric values; it has ${values.length}.`);
+};
+
+const tInterval = (estimate: number, standardError: number, df: number, level: number) => {
+  const margin = tQuantile(1 - (1 - level) / 2, df) * standardError;
+  return { lower: estimate - margin, upper: estimate + margin };
+};
+
+const meanTest = (values: number[], hypothesized: number, level: number) => {
+  const n = values.length;
+  const m = mean(values);
+  const sd = Math.sqrt(variance(values, m));
+  if (sd === 0) throw new Error('Every value is the same, so there is no variation to test.');
+  const standardError = sd / Math.sqrt(n);
+  const t = (m - hypothesized) / standardError;
+  return { n, m, sd, t, df: n - 1, p: tTwoTailed(t, n - 1), interval: tInterval(m, standardError, n - 1, level) };
+};
+
+const oneSampleT = (data: TableRow[], { column, hypothesizedValue, confidenceLevel }: TestSettings): TestResult => {
+  const values = data.map(row => row[column]).filter(isNumber);
+  requireSize(values, 2, column);
+  const { n, m, sd, t, df, p, interval } = meanTest(values, hypothesizedValue, confidenceLevel);
+  const d = (m - hypothesizedValue) / sd;
+  return {
+    title: HYPOTHESIS_TEST_LABELS.oneSampleT,
+    statisticLabel: 't',
+    statistic: t,
+    degreesOfFreedom: String(df),
+    pValue: p,
+    effect: { label: "Cohen's d", value: d, magnitude: describeMagnitude(d, [0.2, 0.5, 0.8]) },
+    interval: { label: `${percent(confidenceLevel)} CI for the mean`, ...interval },
+    details: [
+      { label: 'Rows', value: n.toLocaleString() },
+      { label: 'Mean', value: formatStat(m) },
+      { label: 'Std dev', value: formatStat(sd) },
+    ],
+    conclusion: `The mean of ${column} is ${formatStat(m)}, ${m >= hypothesizedValue ? 'above' : 'below'} ${formatStat(hypothesizedValue)} by ${formatStat(Math.abs(m - hypothesizedValue))}. ${verdict(p, confidenceLevel, 'difference', '')}`,
+    warnings: n < 30 ? ['With fewer than 30 values the t-test assumes they are roughly normally distributed.'] : [],
+  };
+};
+
+const twoSampleT = (data: TableRow[], { column, groupColumn, groupA, groupB, confidenceLevel }: TestSettings): TestResult => {
+  const a = groupNumbers(data, column, groupColumn, groupA);
+  const b = groupNumbers(data, column, groupColumn, groupB);
+  requireSize(a, 2, `Group ${groupA}`);
+  requireSize(b, 2, `Group ${groupB}`);
+  const meanA = mean(a);
+  const meanB = mean(b);
+  const varianceA = variance(a, meanA);
+  const varianceB = variance(b, meanB);
+  const standardError = Math.sqrt(varianceA / a.length + varianceB / b.length);
+  if (standardError === 0) throw new Error('Neither group varies, so there is no variation to test.');
+  const difference = meanA - meanB;
+  const t = difference / standardError;
+  // Welch-Satterthwaite degrees of freedom.
+  const df = (varianceA / a.length + varianceB / b.length) ** 2
+    / ((varianceA / a.length) ** 2 / (a.length - 1) + (varianceB / b.length) ** 2 / (b.length - 1));
+  const p = tTwoTailed(t, df);
+  const pooledSd = Math.sqrt(((a.length - 1) * varianceA + (b.length - 1) * varianceB) / (a.length + b.length - 2));
+  const d = difference / pooledSd;
+  return {
+    title: HYPOTHESIS_TEST_LABELS.twoSampleT,
+    statisticLabel: 't',
+    statistic: t,
+    degreesOfFreedom: df.toFixed(1),
+    pValue: p,
+    effect: { label: "Cohen's d", value: d, magnitude: describeMagnitude(d, [0.2, 0.5, 0.8]) },
+    interval: { label: `${percent(confidenceLevel)} CI for the difference (${groupA} − ${groupB})`, ...tInterval(difference, standardError, df, confidenceLevel) },
+    details: [
+      { label: `${groupA}`, value: `mean ${formatStat(meanA)}, sd ${formatStat(Math.sqrt(varianceA))}, n ${a.length}` },
+      { label: `${groupB}`, value: `mean ${formatStat(meanB)}, sd ${formatStat(Math.sqrt(varianceB))}, n ${b.length}` },
+    ],
+    conclusion: `The mean of ${column} is ${formatStat(meanA)} for ${groupA} and ${formatStat(meanB)} for ${groupB}, a difference of ${formatStat(difference)}. ${verdict(p, confidenceLevel, 'difference', '')}`,
+    warnings: a.length < 30 || b.length < 30 ? ['With fewer than 30 values in a group the t-test assumes they are roughly normally distributed; the Mann-Whitney U test does not.'] : [],
+  };
+};
+
+const pairedT = (data: TableRow[], { column, secondColumn, confidenceLevel }: TestSettings): TestResult => {
+  if (column === secondColumn) throw new Error('Choose two different columns to compare.');
+  const { xs, ys } = numericPairs(data, column, secondColumn);
+  const differences = xs.map((x, i) => x - ys[i]);
+  requireSize(differences, 2, 'The paired test');
+  const { n, m, sd, t, df, p, interval } = meanTest(differences, 0, confidenceLevel);
+  const d = m / sd;
+  return {
+    title: HYPOTHESIS_TEST_LABELS.pairedT,
+    statisticLabel: 't',
+    statistic: t,
+    degreesOfFreedom: String(df),
+    pValue: p,
+    effect: { label: "Cohen's d (of the differences)", value: d, magnitude: describeMagnitude(d, [0.2, 0.5, 0.8]) },
+    interval: { label: `${percent(confidenceLevel)} CI for the mean difference (${column} − ${secondColumn})`, ...interval },
+    details: [
+      { label: 'Rows with both values', value: n.toLocaleString() },
+      { label: `Mean ${column}`, value: formatStat(mean(xs)) },
+      { label: `Mean ${secondColumn}`, value: formatStat(mean(ys)) },
+    ],
+    conclusion: `On the same rows, ${column} is on average ${formatStat(Math.abs(m))} ${m >= 0 ? 'higher' : 'lower'} than ${secondColumn}. ${verdict(p, confidenceLevel, 'difference', '')}`,
+    warnings: n < 30 ? ['With fewer than 30 pairs the test assumes the differences are roughly normally distributed.'] : [],
+  };
+};
+
+/**
+ * Normal approximation with a continuity correction and a correction for ties. The effect size is
+ * the rank-biserial correlation: the chance a value from the first group beats one from the
+ * second, minus the reverse.
+ */
+const mannWhitney = (data: TableRow[], { column, groupColumn, groupA, groupB, confidenceLevel }: TestSettings): TestResult => {
+  const a = groupNumbers(data, column, groupColumn, groupA);
+  const b = groupNumbers(data, column, groupColumn, groupB);
+  requireSize(a, 1, `Group ${groupA}`);
+  requireSize(b, 1, `Group ${groupB}`);
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  const combined = [...a, ...b];
+  const ranks = rankValues(combined);
+  const rankSumA = ranks.slice(0, n1).reduce((sum, r) => sum + r, 0);
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+
+  const ties = new Map<number, number>();
+  combined.forEach(v => ties.set(v, (ties.get(v) ?? 0) + 1));
+  const tieTerm = [...ties.values()].reduce((sum, t) => sum + t ** 3 - t, 0);
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1))));
+  if (sigma === 0) throw new Error('Every value is the same, so there is no variation to test.');
+  const centre = (n1 * n2) / 2;
+  const z = (u - centre - Math.sign(u - centre) * 0.5) / sigma;
+  const p = Math.min(1, normalTwoTailed(z));
+  const r = (2 * u) / (n1 * n2) - 1;
+  return {
+    title: HYPOTHESIS_TEST_LABELS.mannWhitney,
+    statisticLabel: 'U',
+    statistic: u,
+    degreesOfFreedom: null,
+    pValue: p,
+    effect: { label: 'Rank-biserial correlation', value: r, magnitude: describeMagnitude(r, [0.1, 0.3, 0.5]) },
+    interval: null,
+    details: [
+      { label: `${groupA}`, value: `median ${formatStat(median(a))}, n ${n1}` },
+      { label: `${groupB}`, value: `median ${formatStat(median(b))}, n ${n2}` },
+      { label: 'z', value: formatStat(z) },
+      { label: `P(${groupA} > ${groupB})`, value: formatStat(u / (n1 * n2)) },
+    ],
+    conclusion: `A value of ${column} from ${groupA} is larger than one from ${groupB} ${Math.round((u / (n1 * n2)) * 100)}% of the time (ties count half). ${verdict(p, confidenceLevel, 'difference', '')}`,
+    warnings: n1 < 10 || n2 < 10 ? ['With fewer than 10 values in a group the normal approximation behind this p-value is rough.'] : [],
+  };
+};
+
+const anova = (data: TableRow[], { column, groupColumn, confidenceLevel }: TestSettings): TestResult => {
+  const levels = getGroupLevels(data, groupColumn);
+  if (levels.length > MAX_CATEGORY_LEVELS) throw new Error(`${groupColumn} has more than ${MAX_CATEGORY_LEVELS} groups; choose a column with fewer.`);
+  const groups = levels
+    .map(level => ({ level, values: groupNumbers(data, column, groupColumn, level) }))
+    .filter(({ values }) => values.length > 0);
+  const all = groups.flatMap(({ values }) => values);
+  const k = groups.length;
+  if (k < 2) throw new Error(`${groupColumn} needs at least two groups with values of ${column}.`);
+  if (all.length <= k) throw new Error('There are too few rows for the number of groups.');
+  const grandMean = mean(all);
+  const stats = groups.map(({ level, values }) => ({ level, n: values.length, m: mean(values), sd: values.length > 1 ? Math.sqrt(variance(values)) : 0 }));
+  const between = stats.reduce((sum, { n, m }) => sum + n * (m - grandMean) ** 2, 0);
+  const within = groups.reduce((sum, { values }, i) => sum + values.reduce((s, v) => s + (v - stats[i].m) ** 2, 0), 0);
+  if (within === 0) throw new Error('No group varies, so there is no variation to test.');
+  const df1 = k - 1;
+  const df2 = all.length - k;
+  const f = (between / df1) / (within / df2);
+  const p = fUpperTail(f, df1, df2);
+  const etaSquared = between / (between + within);
+  const byMean = [...stats].sort((x, y) => y.m - x.m);
+  const sds = stats.filter(({ n }) => n > 1).map(({ sd }) => sd);
+  const warnings: string[] = [];
+  if (Math.max(...sds) > 2 * Math.min(...sds)) warnings.push('Group standard deviations differ by more than a factor of two; ANOVA assumes similar spread in every group.');
+  if (stats.some(({ n }) => n < 2)) warnings.push('Some groups have a single value.');
+  return {
+    title: HYPOTHESIS_TEST_LABELS.anova,
+    statisticLabel: 'F',
+    statistic: f,
+    degreesOfFreedom: `${df1}, ${df2}`,
+    pValue: p,
+    effect: { label: 'η² (share of variance explained)', value: etaSquared, magnitude: describeMagnitude(etaSquared, [0.01, 0.06, 0.14]) },
+    interval: null,
+    details: byMean.map(({ level, n, m, sd }) => ({ label: level, value: `mean ${formatStat(m)}, sd ${formatStat(sd)}, n ${n}` })),
+    conclusion: `Across ${k} groups of ${groupColumn}, the mean of ${column} ranges from ${formatStat(byMean[k - 1].m)} (${byMean[k - 1].level}) to ${formatStat(byMean[0].m)} (${byMean[0].level}). ${verdict(p, confidenceLevel, 'difference between the groups', '')}`,
+    warnings,
+  };
+};
+
+const chiSquare = (data: TableRow[], { column, secondColumn, confidenceLevel }: TestSettings): TestResult => {
+  if (column === secondColumn) throw new Error('Choose two different columns to compare.');
+  const xs: string[] = [];
+  const ys: string[] = [];
+  data.forEach(row => {
+    if (isMissing(row[column]) || isMissing(row[secondColumn])) return;
+    xs.push(labelOf(row[column]));
+    ys.push(labelOf(row[secondColumn]));
+  });
+  const test = contingencyTest(xs, ys);
+  if (test.rowLevels < 2 || test.columnLevels < 2) throw new Error('Both columns need at least two different values.');
+  if (test.rowLevels > MAX_CATEGORY_LEVELS || test.columnLevels > MAX_CATEGORY_LEVELS) {
+    throw new Error(`Columns with more than ${MAX_CATEGORY_LEVELS} distinct values are too fine-grained for this test.`);
+  }
+  const p = chiSquareUpperTail(test.chiSquare, test.degreesOfFreedom);
+  const v = Math.sqrt(test.chiSquare / test.n / (Math.min(test.rowLevels, test.columnLevels) - 1));
+  const cells = test.rowLevels * test.columnLevels;
+  return {
+    title: HYPOTHESIS_TEST_LABELS.chiSquare,
+    statisticLabel: 'χ²',
+    statistic: test.chiSquare,
+    degreesOfFreedom: String(test.degreesOfFreedom),
+    pValue: p,
+    effect: { label: "Cramér's V", value: v, magnitude: describeMagnitude(v, [0.1, 0.3, 0.5]) },
+    interval: null,
+    details: [
+      { label: 'Rows with both values', value: test.n.toLocaleString() },
+      { label: 'Table size', value: `${test.rowLevels} × ${test.columnLevels}` },
+    ],
+    conclusion: verdict(p, confidenceLevel, `relationship between ${column} and ${secondColumn}`, 'the categories may occur independently'),
+    warnings: test.sparseCells > 0.2 * cells
+      ? [`${test.sparseCells} of ${cells} cells expect fewer than 5 rows, so the p-value is approximate. Combining rare categories helps.`]
+      : [],
+  };
+};
+
+// Successes and totals of a categorical column, over rows with a value.
+const countSuccesses = (rows: TableRow[], column: string, successValue: string) => {
+  let successes = 0;
+  let total = 0;
+  rows.forEach(row => {
+    if (isMissing(row[column])) return;
+    total++;
+    if (labelOf(row[column]) === successValue) successes++;
+  });
+  return { successes, total };
+};
+
+const cohensH = (p1: number, p2: number) => 2 * Math.asin(Math.sqrt(p1)) - 2 * Math.asin(Math.sqrt(p2));
+
+const oneProportion = (data: TableRow[], { column, successValue, hypothesizedValue: p0, confidenceLevel }: TestSettings): TestResult => {
+  if (!(p0 > 0 && p0 < 1)) throw new Error('The hypothesized proportion must be between 0 and 1.');
+  const { successes, total: n } = countSuccesses(data, column, successValue);
+  if (n === 0) throw new Error(`${column} has no values.`);
+  const share = successes / n;
+  const z = (share - p0) / Math.sqrt((p0 * (1 - p0)) / n);
+  const p = normalTwoTailed(z);
+  // Wilson score interval, which stays sensible near 0 and 1.
+  const zc = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const centre = (share + zc ** 2 / (2 * n)) / (1 + zc ** 2 / n);
+  const margin = (zc / (1 + zc ** 2 / n)) * Math.sqrt((share * (1 - share)) / n + zc ** 2 / (4 * n * n));
+  const h = cohensH(share, p0);
+  return {
+    title: HYPOTHESIS_TEST_LABELS.oneProportion,
+    statisticLabel: 'z',
+    statistic: z,
+    degreesOfFreedom: null,
+    pValue: p,
+    effect: { label: "Cohen's h", value: h, magnitude: describeMagnitude(h, [0.2, 0.5, 0.8]) },
+    interval: { label: `${percent(confidenceLevel)} CI for the proportion`, lower: centre - margin, upper: centre + margin },
+    details: [
+      { label: `Rows with ${successValue}`, value: `${successes.toLocaleString()} of ${n.toLocaleString()}` },
+      { label: 'Proportion', value: formatStat(share) },
+    ],
+    conclusion: `${(share * 100).toFixed(1)}% of rows have ${column} = ${successValue}, against ${(p0 * 100).toFixed(1)}% expected. ${verdict(p, confidenceLevel, 'difference', '')}`,
+    warnings: n * p0 < 10 || n * (1 - p0) < 10 ? ['Fewer than 10 successes or failures are expected, so the normal approximation is rough.'] : [],
+  };
+};
+
+const twoProportion = (data: TableRow[], { column, successValue, groupColumn, groupA, groupB, confidenceLevel }: TestSettings): TestResult => {
+  const inGroup = (group: string) => data.filter(row => !isMissing(row[groupColumn]) && labelOf(row[groupColumn]) === group);
+  const a = countSuccesses(inGroup(groupA), column, successValue);
+  const b = countSuccesses(inGroup(groupB), column, successValue);
+  if (a.total === 0 || b.total === 0) throw new Error(`Both groups need rows with a value of ${column}.`);
+  const p1 = a.successes / a.total;
+  const p2 = b.successes / b.total;
+  const pooled = (a.successes + b.successes) / (a.total + b.total);
+  const pooledError = Math.sqrt(pooled * (1 - pooled) * (1 / a.total + 1 / b.total));
+  if (pooledError === 0) throw new Error(`Every row in both groups is ${pooled === 1 ? '' : 'not '}${successValue}, so there is nothing to compare.`);
+  const z = (p1 - p2) / pooledError;
+  const p = normalTwoTailed(z);
+  const margin = normalQuantile(1 - (1 - confidenceLevel) / 2) * Math.sqrt((p1 * (1 - p1)) / a.total + (p2 * (1 - p2)) / b.total);
+  const h = cohensH(p1, p2);
+  const expected = [a.total * pooled, a.total * (1 - pooled), b.total * pooled, b.total * (1 - pooled)];
+  return {
+    title: HYPOTHESIS_TEST_LABELS.twoProportion,
+    statisticLabel: 'z',
+    statistic: z,
+    degreesOfFreedom: null,
+    pValue: p,
+    effect: { label: "Cohen's h", value: h, magnitude: describeMagnitude(h, [0.2, 0.5, 0.8]) },
+    interval: { label: `${percent(confidenceLevel)} CI for the difference (${groupA} − ${groupB})`, lower: p1 - p2 - margin, upper: p1 - p2 + margin },
+    details: [
+      { label: `${groupA}`, value: `${a.successes.toLocaleString()} of ${a.total.toLocaleString()} (${(p1 * 100).toFixed(1)}%)` },
+      { label: `${groupB}`, value: `${b.successes.toLocaleString()} of ${b.total.toLocaleString()} (${(p2 * 100).toFixed(1)}%)` },
+    ],
+    conclusion: `${(p1 * 100).toFixed(1)}% of ${groupA} rows have ${column} = ${successValue}, against ${(p2 * 100).toFixed(1)}% of ${groupB} rows. ${verdict(p, confidenceLevel, 'difference', '')}`,
+    warnings: expected.some(count => count < 10) ? ['Fewer than 10 successes or failures are expected in a group, so the normal approximation is rough.'] : [],
+  };
+};
+
+const TESTS: Record<HypothesisTest, (data: TableRow[], settings: TestSettings) => TestResult> = {
+  oneSampleT, twoSampleT, pairedT, mannWhitney, anova, chiSquare, oneProportion, twoProportion,
+};
+
+// Whether every setting the chosen test reads has been filled in.
+export const isTestReady = (settings: TestSettings): boolean => {
+  const inputs = TEST_INPUTS[settings.test];
+  if (!settings.column) return false;
+  if (inputs.second && !settings.secondColumn) return false;
+  if (inputs.groups && !settings.groupColumn) return false;
+  if (inputs.groups === 'pair' && (!settings.groupA || !settings.groupB || settings.groupA === settings.groupB)) return false;
+  if (inputs.success && !settings.successValue) return false;
+  return !inputs.target || Number.isFinite(settings.hypothesizedValue);
+};
+
+// Runs the chosen test; throws with a readable message when the data cannot support it.
+export const runHypothesisTest = (data: TableRow[], settings: TestSettings): TestResult => TESTS[settings.test](data, settings);
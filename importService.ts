@@ -0,0 +1,65 @@
+import type { CleaningRecipe, ImportOptions, ImportProgress } from '../types';
+import type { CleanedTable } from './dataService';
+
+export interface ImportRequest {
+  file: File;
+  recipe: CleaningRecipe;
+  importOptions: ImportOptions;
+}
+
+export type ImportResponse =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'result'; tables: CleanedTable[] }
+  | { type: 'error'; message: string };
+
+export interface ImportTask {
+  // Resolves with null when the import is cancelled.
+  result: Promise<CleanedTable[] | null>;
+  cancel: () => void;
+}
+
+/**
+ * Parses, cleans and profiles the file in a Web Worker so the page stays responsive on large files.
+ * Cancelling stops the worker at once, wherever it is in the file.
+ */
+export const startImport = (
+  file: File,
+  recipe: CleaningRecipe,
+  importOptions: ImportOptions,
+  onProgress: (progress: ImportProgress) => void,
+): ImportTask => {
+  const worker = new Worker(new URL('../workers/dataWorker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const result = new Promise<CleanedTable[] | null>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      worker.onmessage = null;
+      worker.onerror = null;
+    };
+    cancel = () => {
+      finish();
+      resolve(null);
+    };
+    worker.onmessage = (event: MessageEvent<ImportResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress(response.progress);
+      } else if (response.type === 'result') {
+        finish();
+        resolve(response.tables);
+      } else {
+        finish();
+        reject(new Error(response.message));
+      }
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'The file could not be processed.'));
+    };
+  });
+
+  const request: ImportRequest = { file, recipe, importOptions };
+  worker.postMessage(request);
+  return { result, cancel: () => cancel() };
+};
@@ -0,0 +1,250 @@
+import type { TableRow, CellValue, ColumnSchema, OutlierMethod, OutlierAction, OutlierRule } from '../types';
+import { isNumericType, isTemporalType } from './schemaService';
+import { mean, quantile } from './statsService';
+import { detectDateOrder, parseDateValue } from './dateService';
+import { formatStat } from './profileService';
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  iqr: 'IQR fences',
+  zScore: 'Z-score',
+  modifiedZScore: 'Modified z-score (median and MAD)',
+  rolling: 'Rolling deviation (time-ordered)',
+};
+
+// What the threshold means for each method.
+export const OUTLIER_THRESHOLD_LABELS: Record<OutlierMethod, string> = {
+  iqr: '× IQR beyond the quartiles',
+  zScore: 'standard deviations from the mean',
+  modifiedZScore: 'modified z-score',
+  rolling: 'standard deviations from the neighbouring values',
+};
+
+export const DEFAULT_OUTLIER_THRESHOLDS: Record<OutlierMethod, number> = {
+  iqr: 1.5,
+  zScore: 3,
+  modifiedZScore: 3.5,
+  rolling: 3,
+};
+
+export const OUTLIER_ACTION_LABELS: Record<OutlierAction, string> = {
+  keep: 'Keep and mark',
+  exclude: 'Exclude rows',
+  cap: 'Cap (winsorize)',
+};
+
+export const DEFAULT_ROLLING_WINDOW = 10;
+
+// Scales the median absolute deviation to match the standard deviation of normal data.
+const MAD_SCALE = 0.6745;
+
+export interface OutlierDetection {
+  // Positions of the flagged rows in the data, with the value each is capped to.
+  rows: Map<number, number>;
+  // Number of values checked.
+  checked: number;
+  // Fences outside which values are flagged; unset for rolling detection, whose band moves along the data.
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface RuleDetection {
+  rule: OutlierRule;
+  detection: OutlierDetection;
+}
+
+export const createOutlierRule = (column: string, method: OutlierMethod): OutlierRule => ({
+  id: `outlier-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  column,
+  method,
+  threshold: DEFAULT_OUTLIER_THRESHOLDS[method],
+  action: 'keep',
+});
+
+// Columns rolling detection can put rows in order by.
+export const getOrderColumns = (schema: ColumnSchema[]): ColumnSchema[] =>
+  schema.filter(column => isTemporalType(column.type) || isNumericType(column.type));
+
+// Rules whose columns are still there; rules for renamed or deleted columns are ignored until the column returns.
+export const getActiveOutlierRules = (rules: OutlierRule[], schema: ColumnSchema[]): OutlierRule[] =>
+  rules.filter(rule => {
+    const column = schema.find(({ name }) => name === rule.column);
+    if (!column || !isNumericType(column.type)) return false;
+    return rule.method !== 'rolling' || (!!rule.orderBy && getOrderColumns(schema).some(({ name }) => name === rule.orderBy));
+  });
+
+// Flags values outside the fences. Capping winsorizes: a flagged value becomes the most extreme value left inside the fences.
+const flagOutside = (positions: number[], values: number[], lower: number, upper: number): OutlierDetection => {
+  let lowestInside = Infinity;
+  let highestInside = -Infinity;
+  values.forEach(value => {
+    if (value >= lower && value <= upper) {
+      lowestInside = Math.min(lowestInside, value);
+      highestInside = Math.max(highestInside, value);
+    }
+  });
+  const rows = new Map<number, number>();
+  values.forEach((value, i) => {
+    if (value < lower) rows.set(positions[i], Number.isFinite(lowestInside) ? lowestInside : lower);
+    else if (value > upper) rows.set(positions[i], Number.isFinite(highestInside) ? highestInside : upper);
+  });
+  return { rows, checked: values.length, lower, upper };
+};
+
+// Dates in the order-by column are read in its detected date order; other values must already be numbers.
+const orderKeyReader = (data: TableRow[], column: string, temporal: boolean): ((value: CellValue) => number | null) => {
+  if (temporal) {
+    const order = detectDateOrder(data.slice(0, 1000).map(row => row[column] ?? null));
+    return value => parseDateValue(value, order);
+  }
+  return value => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+};
+
+/**
+ * Compares each value with the mean and standard deviation of up to `window` neighbours on either
+ * side, in the order of `orderBy`. Running sums keep this linear in the number of rows.
+ */
+const detectRolling = (data: TableRow[], schema: ColumnSchema[], rule: OutlierRule): OutlierDetection => {
+  const orderBy = rule.orderBy ?? '';
+  const temporal = isTemporalType(schema.find(column => column.name === orderBy)?.type);
+  const readOrderKey = orderKeyReader(data, orderBy, temporal);
+  const points: { position: number; key: number; value: number }[] = [];
+  data.forEach((row, position) => {
+    const value = row[rule.column];
+    const key = readOrderKey(row[orderBy]);
+    if (typeof value === 'number' && Number.isFinite(value) && key !== null) points.push({ position, key, value });
+  });
+  points.sort((a, b) => a.key - b.key);
+
+  const n = points.length;
+  const sums = new Float64Array(n + 1);
+  const squares = new Float64Array(n + 1);
+  points.forEach(({ value }, i) => {
+    sums[i + 1] = sums[i] + value;
+    squares[i + 1] = squares[i] + value * value;
+  });
+
+  const half = Math.max(1, Math.floor((rule.window ?? DEFAULT_ROLLING_WINDOW) / 2));
+  const rows = new Map<number, number>();
+  points.forEach(({ position, value }, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(n, i + half + 1);
+    // The neighbours, leaving out the value itself.
+    const count = to - from - 1;
+    if (count < 2) return;
+    const sum = sums[to] - sums[from] - value;
+    const neighbourMean = sum / count;
+    const variance = Math.max(0, (squares[to] - squares[from] - value * value - count * neighbourMean * neighbourMean) / (count - 1));
+    const band = rule.threshold * Math.sqrt(variance);
+    if (band === 0) return;
+    if (value > neighbourMean + band) rows.set(position, neighbourMean + band);
+    else if (value < neighbourMean - band) rows.set(position, neighbourMean - band);
+  });
+  return { rows, checked: n, lower: null, upper: null };
+};
+
+export const detectOutliers = (data: TableRow[], schema: ColumnSchema[], rule: OutlierRule): OutlierDetection => {
+  if (rule.method === 'rolling') return detectRolling(data, schema, rule);
+
+  const positions: number[] = [];
+  const values: number[] = [];
+  data.forEach((row, position) => {
+    const value = row[rule.column];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      positions.push(position);
+      values.push(value);
+    }
+  });
+  if (values.length < 3) return { rows: new Map(), checked: values.length, lower: null, upper: null };
+
+  const k = rule.threshold;
+  switch (rule.method) {
+    case 'iqr': {
+      const sorted = Float64Array.from(values).sort();
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      return flagOutside(positions, values, q1 - k * (q3 - q1), q3 + k * (q3 - q1));
+    }
+    case 'zScore': {
+      const m = mean(values);
+      const sd = Math.sqrt(values.reduce((total, v) => total + (v - m) ** 2, 0) / (values.length - 1));
+      return flagOutside(positions, values, m - k * sd, m + k * sd);
+    }
+    case 'modifiedZScore': {
+      const median = quantile(Float64Array.from(values).sort(), 0.5);
+      const mad = quantile(Float64Array.from(values, v => Math.abs(v - median)).sort(), 0.5);
+      // With more than half the values equal, MAD is zero and every other value would count as extreme.
+      if (mad === 0) return { rows: new Map(), checked: values.length, lower: null, upper: null };
+      return flagOutside(positions, values, median - (k * mad) / MAD_SCALE, median + (k * mad) / MAD_SCALE);
+    }
+  }
+};
+
+export const detectRuleOutliers = (data: TableRow[], schema: ColumnSchema[], rules: OutlierRule[]): RuleDetection[] =>
+  getActiveOutlierRules(rules, schema).map(rule => ({ rule, detection: detectOutliers(data, schema, rule) }));
+
+/**
+ * The rows analyses work on: rows flagged by an exclude rule are dropped and values flagged by a
+ * cap rule are replaced by their cap. Unchanged rows are passed through as they are.
+ */
+export const applyOutlierDetections = (data: TableRow[], detections: RuleDetection[]): TableRow[] => {
+  const excluded = new Set<number>();
+  const capped = new Map<number, TableRow>();
+  detections.forEach(({ rule, detection }) => {
+    if (rule.action === 'exclude') detection.rows.forEach((_, position) => excluded.add(position));
+    if (rule.action === 'cap') {
+      detection.rows.forEach((value, position) => {
+        capped.set(position, { ...(capped.get(position) ?? data[position]), [rule.column]: value });
+      });
+    }
+  });
+  if (excluded.size === 0 && capped.size === 0) return data;
+  const result: TableRow[] = [];
+  data.forEach((row, position) => {
+    if (!excluded.has(position)) result.push(capped.get(position) ?? row);
+  });
+  return result;
+};
+
+export const applyOutlierRules = (data: TableRow[], schema: ColumnSchema[], rules: OutlierRule[]): TableRow[] =>
+  rules.length === 0 ? data : applyOutlierDetections(data, detectRuleOutliers(data, schema, rules));
+
+// The decision for each flagged cell, by row position and column; a later rule wins over an earlier one.
+export const getOutlierCells = (detections: RuleDetection[]): Map<number, Map<string, OutlierAction>> => {
+  const cells = new Map<number, Map<string, OutlierAction>>();
+  detections.forEach(({ rule, detection }) => {
+    detection.rows.forEach((_, position) => {
+      const columns = cells.get(position) ?? new Map<string, OutlierAction>();
+      columns.set(rule.column, rule.action);
+      cells.set(position, columns);
+    });
+  });
+  return cells;
+};
+
+// Rows kept in the data but flagged, per column, so charts can mark them.
+export const getMarkedOutlierRows = (data: TableRow[], detections: RuleDetection[]): Map<string, Set<TableRow>> => {
+  const marked = new Map<string, Set<TableRow>>();
+  detections.forEach(({ rule, detection }) => {
+    if (rule.action !== 'keep') return;
+    const rows = marked.get(rule.column) ?? new Set<TableRow>();
+    detection.rows.forEach((_, position) => rows.add(data[position]));
+    marked.set(rule.column, rows);
+  });
+  return marked;
+};
+
+export const describeOutlierRule = (rule: OutlierRule): string => {
+  const method = rule.method === 'rolling'
+    ? `more than ${rule.threshold} standard deviations from the ${rule.window ?? DEFAULT_ROLLING_WINDOW} neighbouring values by ${rule.orderBy}`
+    : `${OUTLIER_METHOD_LABELS[rule.method]} at ${rule.threshold} ${OUTLIER_THRESHOLD_LABELS[rule.method]}`;
+  return `${rule.column}: ${method}`;
+};
+
+// One line per decision, for the summary sent to the AI.
+export const describeOutlierDecisions = (detections: RuleDetection[]): string =>
+  detections.map(({ rule, detection }) => {
+    const count = detection.rows.size;
+    const outcome = rule.action === 'exclude' ? 'rows excluded' : rule.action === 'cap' ? 'values capped' : 'kept as they are';
+    const fences = detection.lower !== null && detection.upper !== null ? `, fences ${formatStat(detection.lower)} to ${formatStat(detection.upper)}` : '';
+    return `- ${describeOutlierRule(rule)}: ${count} outlier${count === 1 ? '' : 's'}${fences}, ${outcome}`;
+  }).join('\n');
@@ -0,0 +1,304 @@
+import type { TableRow, ColumnSchema, ColumnType, PivotAggregation, PivotConfig, PivotValue } from '../types';
+import { isNumericType, isTemporalType } from './schemaService';
+import { labelOf } from './aggregationService';
+
+export const PIVOT_AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: 'Sum',
+  mean: 'Average',
+  count: 'Count',
+  distinct: 'Distinct count',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+export const EMPTY_PIVOT_CONFIG: PivotConfig = {
+  rows: [],
+  columns: [],
+  values: [],
+  sort: { valueIndex: null, direction: 'ascending' },
+};
+
+// Rendering is capped so a field with thousands of values cannot lock up the page; exports are not.
+export const MAX_PIVOT_ROWS = 1000;
+export const MAX_PIVOT_COLUMNS = 50;
+
+export const TOTAL_LABEL = 'Total';
+
+// Text columns can only be counted.
+export const getPivotAggregations = (type: ColumnType | undefined): PivotAggregation[] =>
+  isNumericType(type) ? ['sum', 'mean', 'count', 'distinct', 'min', 'max'] : ['count', 'distinct'];
+
+export const createPivotValue = (column: ColumnSchema): PivotValue => ({
+  id: `value-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  column: column.name,
+  aggregation: isNumericType(column.type) ? 'sum' : 'count',
+  percentOfTotal: false,
+});
+
+export const getPivotValueLabel = ({ column, aggregation, percentOfTotal }: PivotValue): string =>
+  `${PIVOT_AGGREGATION_LABELS[aggregation]} of ${column}${percentOfTotal ? ' (% of total)' : ''}`;
+
+// Drops fields whose columns no longer exist, e.g. after a column was deleted or the recipe changed.
+export const getActivePivotConfig = (config: PivotConfig, schema: ColumnSchema[]): PivotConfig => {
+  const names = new Set(schema.map(column => column.name));
+  const values = config.values.filter(value => names.has(value.column));
+  const { valueIndex } = config.sort;
+  return {
+    rows: config.rows.filter(name => names.has(name)),
+    columns: config.columns.filter(name => names.has(name)),
+    values,
+    sort: valueIndex !== null && valueIndex >= values.length ? { ...config.sort, valueIndex: null } : config.sort,
+  };
+};
+
+export const isPivotReady = (config: PivotConfig) => config.values.length > 0;
+
+export type PivotEntryKind = 'item' | 'subtotal' | 'total';
+
+export interface PivotEntry {
+  // Labels from the outermost field inwards; shorter than the field list for subtotals, empty for the grand total.
+  key: string[];
+  kind: PivotEntryKind;
+}
+
+export interface PivotResult {
+  config: PivotConfig;
+  // Display order, with subtotals after their groups and the grand total last.
+  rows: PivotEntry[];
+  columns: PivotEntry[];
+  // Aggregated values per row and column key; see getPivotCell.
+  cells: Map<string, Array<number | null>>;
+}
+
+interface Accumulator {
+  sum: number;
+  numbers: number;
+  count: number;
+  min: number;
+  max: number;
+  distinct: Set<string> | null;
+}
+
+// Labels never contain control characters, so they make safe separators.
+const KEY_SEPARATOR = '\u0000';
+const CELL_SEPARATOR = '\u0001';
+
+const encodeKey = (key: string[]) => `${key.length}${CELL_SEPARATOR}${key.join(KEY_SEPARATOR)}`;
+const cellKey = (rowKey: string, columnKey: string) => `${rowKey}${CELL_SEPARATOR}${columnKey}`;
+
+const createAccumulator = (aggregation: PivotAggregation): Accumulator => ({
+  sum: 0,
+  numbers: 0,
+  count: 0,
+  min: Infinity,
+  max: -Infinity,
+  distinct: aggregation === 'distinct' ? new Set() : null,
+});
+
+const accumulate = (acc: Accumulator, value: TableRow[string] | undefined) => {
+  if (value === null || value === undefined || value === '') return;
+  acc.count++;
+  acc.distinct?.add(String(value));
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    acc.sum += value;
+    acc.numbers++;
+    if (value < acc.min) acc.min = value;
+    if (value > acc.max) acc.max = value;
+  }
+};
+
+const finish = (acc: Accumulator | undefined, aggregation: PivotAggregation): number | null => {
+  if (!acc) return aggregation === 'count' || aggregation === 'distinct' ? 0 : null;
+  switch (aggregation) {
+    case 'count':
+      return acc.count;
+    case 'distinct':
+      return acc.distinct!.size;
+    case 'sum':
+      return acc.numbers > 0 ? acc.sum : null;
+    case 'mean':
+      return acc.numbers > 0 ? acc.sum / acc.numbers : null;
+    case 'min':
+      return acc.numbers > 0 ? acc.min : null;
+    case 'max':
+      return acc.numbers > 0 ? acc.max : null;
+  }
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Tree of the labels seen at each level, used to lay out groups in order.
+interface LabelNode {
+  children: Map<string, LabelNode>;
+}
+
+const addPath = (root: LabelNode, labels: string[]) => {
+  let node = root;
+  labels.forEach(label => {
+    let child = node.children.get(label);
+    if (!child) {
+      child = { children: new Map() };
+      node.children.set(label, child);
+    }
+    node = child;
+  });
+};
+
+// Lists a tree's entries depth-first, each group followed by its subtotal, then the grand total.
+const layoutEntries = (root: LabelNode, depth: number, compare: (a: string[], b: string[]) => number): PivotEntry[] => {
+  const entries: PivotEntry[] = [];
+  const walk = (node: LabelNode, prefix: string[]) => {
+    const keys = [...node.children.keys()].map(label => [...prefix, label]).sort(compare);
+    keys.forEach(key => {
+      if (key.length === depth) {
+        entries.push({ key, kind: 'item' });
+      } else {
+        walk(node.children.get(key[key.length - 1])!, key);
+        entries.push({ key, kind: 'subtotal' });
+      }
+    });
+  };
+  walk(root, []);
+  entries.push({ key: [], kind: 'total' });
+  return entries;
+};
+
+/**
+ * Groups rows by the row and column fields and aggregates each value field, including every
+ * subtotal and the grand totals. Cells are kept for every level of grouping so any subtotal can be read.
+ */
+export const computePivot = (data: TableRow[], config: PivotConfig): PivotResult => {
+  const { rows: rowFields, columns: columnFields, values } = config;
+  const accumulators = new Map<string, Accumulator[]>();
+  const rowTree: LabelNode = { children: new Map() };
+  const columnTree: LabelNode = { children: new Map() };
+
+  const prefixKeys = (labels: string[]) => labels.map((_, i) => encodeKey(labels.slice(0, i))).concat(encodeKey(labels));
+
+  data.forEach(row => {
+    const rowLabels = rowFields.map(field => labelOf(row[field]));
+    const columnLabels = columnFields.map(field => labelOf(row[field]));
+    addPath(rowTree, rowLabels);
+    addPath(columnTree, columnLabels);
+    const columnKeys = prefixKeys(columnLabels);
+    prefixKeys(rowLabels).forEach(rowKey => {
+      columnKeys.forEach(columnKey => {
+        const key = cellKey(rowKey, columnKey);
+        let accs = accumulators.get(key);
+        if (!accs) {
+          accs = values.map(value => createAccumulator(value.aggregation));
+          accumulators.set(key, accs);
+        }
+        values.forEach((value, i) => accumulate(accs![i], row[value.column]));
+      });
+    });
+  });
+
+  const cells = new Map<string, Array<number | null>>();
+  accumulators.forEach((accs, key) => {
+    cells.set(key, accs.map((acc, i) => finish(acc, values[i].aggregation)));
+  });
+
+  // Percentages are shares of the grand total for the same value.
+  const grandKey = cellKey(encodeKey([]), encodeKey([]));
+  const grand = cells.get(grandKey) ?? values.map(value => finish(undefined, value.aggregation));
+  values.forEach((value, i) => {
+    if (!value.percentOfTotal) return;
+    const total = grand[i];
+    cells.forEach(cell => {
+      const v = cell[i];
+      cell[i] = v === null || !total ? null : (v / total) * 100;
+    });
+  });
+
+  const totalOf = (key: string[]) => cells.get(cellKey(encodeKey(key), encodeKey([])));
+  const { valueIndex, direction } = config.sort;
+  const sign = direction === 'ascending' ? 1 : -1;
+  const compareRows = (a: string[], b: string[]) => {
+    if (valueIndex !== null) {
+      const order = (totalOf(a)?.[valueIndex] ?? -Infinity) - (totalOf(b)?.[valueIndex] ?? -Infinity);
+      if (order !== 0 && !Number.isNaN(order)) return order * sign;
+    }
+    return collator.compare(a[a.length - 1], b[b.length - 1]) * (valueIndex === null ? sign : 1);
+  };
+  const compareColumns = (a: string[], b: string[]) => collator.compare(a[a.length - 1], b[b.length - 1]);
+
+  return {
+    config,
+    rows: layoutEntries(rowTree, rowFields.length, compareRows),
+    // Without column fields the grand total is the only column.
+    columns: columnFields.length > 0 ? layoutEntries(columnTree, columnFields.length, compareColumns) : [{ key: [], kind: 'total' }],
+    cells,
+  };
+};
+
+export const getPivotCell = (result: PivotResult, rowKey: string[], columnKey: string[], valueIndex: number): number | null =>
+  result.cells.get(cellKey(encodeKey(rowKey), encodeKey(columnKey)))?.[valueIndex] ?? null;
+
+// The label shown for an entry at one level of its fields, e.g. "North total" on a subtotal row.
+export const getEntryLabel = (entry: PivotEntry, level: number): string => {
+  if (entry.kind === 'total') return level === 0 ? TOTAL_LABEL : '';
+  if (level < entry.key.length - 1) return entry.key[level];
+  if (level === entry.key.length - 1) return entry.kind === 'subtotal' ? `${entry.key[level]} ${TOTAL_LABEL.toLowerCase()}` : entry.key[level];
+  return '';
+};
+
+const columnHeading = (entry: PivotEntry) =>
+  entry.kind === 'total' ? TOTAL_LABEL : entry.kind === 'subtotal' ? `${entry.key.join(' / ')} ${TOTAL_LABEL.toLowerCase()}` : entry.key.join(' / ');
+
+// The pivot as laid out on screen, one object per row, for exporting.
+export const pivotToRows = (result: PivotResult): TableRow[] => {
+  const { config, rows, columns } = result;
+  const rowFields = config.rows.length > 0 ? config.rows : [''];
+  return rows.map(entry => {
+    const out: TableRow = {};
+    rowFields.forEach((field, level) => {
+      out[field] = getEntryLabel(entry, level);
+    });
+    columns.forEach(column => {
+      config.values.forEach((value, i) => {
+        const heading = config.columns.length > 0 ? `${columnHeading(column)} - ${getPivotValueLabel(value)}` : getPivotValueLabel(value);
+        out[heading] = getPivotCell(result, entry.key, column.key, i);
+      });
+    });
+    return out;
+  });
+};
+
+/**
+ * The pivot in long form for charting: one row per combination of row and column labels, with a
+ * column per value. Subtotals and totals are left out so charts do not count them twice.
+ */
+export const pivotToChartTable = (result: PivotResult, schema: ColumnSchema[]): { data: TableRow[]; schema: ColumnSchema[] } => {
+  const { config } = result;
+  const fields = [...config.rows, ...config.columns];
+  const rowKeys = result.rows.filter(entry => entry.kind === 'item' || config.rows.length === 0).map(entry => entry.key);
+  const columnKeys = result.columns.filter(entry => entry.kind === 'item' || config.columns.length === 0).map(entry => entry.key);
+  const valueLabels = config.values.map(getPivotValueLabel);
+
+  const data: TableRow[] = [];
+  rowKeys.forEach(rowKey => {
+    columnKeys.forEach(columnKey => {
+      const cells = result.cells.get(cellKey(encodeKey(rowKey), encodeKey(columnKey)));
+      // Combinations with no rows behind them are left out rather than charted as zero.
+      if (!cells) return;
+      const row: TableRow = {};
+      [...rowKey, ...columnKey].forEach((label, i) => {
+        row[fields[i]] = label;
+      });
+      valueLabels.forEach((label, i) => {
+        row[label] = cells[i];
+      });
+      data.push(row);
+    });
+  });
+
+  const fieldSchema = fields.map(name => {
+    const source = schema.find(column => column.name === name);
+    // Labels are text, so only dates keep their type; everything else is grouped as categories.
+    const type: ColumnType = source && isTemporalType(source.type) ? source.type : 'categorical';
+    return { name, type, inferredType: type, confidence: 1, overridden: false };
+  });
+  const valueSchema = valueLabels.map(name => ({ name, type: 'float' as ColumnType, inferredType: 'float' as ColumnType, confidence: 1, overridden: false }));
+  return { data, schema: [...fieldSchema, ...valueSchema] };
+};
@@ -0,0 +1,145 @@
+import type { TableRow, CellValue, ColumnSchema, ColumnStat, NumericStat, TextLengthStat, TableProfile } from '../types';
+import { isNumericType, isTemporalType } from './schemaService';
+import { quantile } from './statsService';
+
+const HISTOGRAM_BINS = 20;
+const SAMPLE_VALUE_COUNT = 5;
+const TOP_VALUE_COUNT = 5;
+// Categorical sparklines show the counts of this many most frequent values.
+const CATEGORY_BARS = 12;
+
+const isPresent = (value: CellValue | undefined): value is string | number =>
+  value !== null && value !== undefined && value !== '';
+
+// Two decimals for ordinary values, two significant digits for tiny ones.
+export const formatStat = (value: number | null): string => {
+  if (value === null || !Number.isFinite(value)) return 'n/a';
+  if (Number.isInteger(value)) return value.toLocaleString();
+  if (value !== 0 && Math.abs(value) < 0.01) return value.toPrecision(2);
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+const binValues = (values: ArrayLike<number>, min: number, max: number): number[] => {
+  const bins = new Array(HISTOGRAM_BINS).fill(0);
+  const width = (max - min) / HISTOGRAM_BINS;
+  for (let i = 0; i < values.length; i++) {
+    const bin = width === 0 ? 0 : Math.min(HISTOGRAM_BINS - 1, Math.floor((values[i] - min) / width));
+    bins[bin]++;
+  }
+  return width === 0 ? [values.length] : bins;
+};
+
+/**
+ * Moments and order statistics of a numeric column. Skewness and kurtosis use the population
+ * moments and are left out when the values do not vary.
+ */
+const profileNumbers = (numbers: number[]): { stat: NumericStat; histogram: number[] } => {
+  const count = numbers.length;
+  // Typed arrays sort numerically without a comparator, which is much faster on large columns.
+  const sorted = Float64Array.from(numbers).sort();
+  let sum = 0;
+  let zeros = 0;
+  let negatives = 0;
+  for (const n of numbers) {
+    sum += n;
+    if (n === 0) zeros++;
+    else if (n < 0) negatives++;
+  }
+  const mean = sum / count;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const n of numbers) {
+    const d = n - mean;
+    const d2 = d * d;
+    m2 += d2;
+    m3 += d2 * d;
+    m4 += d2 * d2;
+  }
+  const variance = count > 1 ? m2 / (count - 1) : 0;
+  const hasShape = count > 2 && m2 > 0;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const min = sorted[0];
+  const max = sorted[count - 1];
+  return {
+    stat: {
+      count,
+      mean,
+      variance,
+      stdDev: Math.sqrt(variance),
+      min,
+      q1,
+      median: quantile(sorted, 0.5),
+      q3,
+      iqr: q3 - q1,
+      max,
+      skewness: hasShape ? (m3 / count) / (m2 / count) ** 1.5 : null,
+      kurtosis: hasShape ? (m4 / count) / (m2 / count) ** 2 - 3 : null,
+      zeros,
+      negatives,
+    },
+    histogram: binValues(sorted, min, max),
+  };
+};
+
+const profileLengths = (values: string[]): TextLengthStat | null => {
+  if (values.length === 0) return null;
+  let min = Infinity;
+  let max = 0;
+  let total = 0;
+  values.forEach(value => {
+    min = Math.min(min, value.length);
+    max = Math.max(max, value.length);
+    total += value.length;
+  });
+  return { min, max, mean: total / values.length };
+};
+
+export const profileColumn = (data: TableRow[], { name, type, formula }: ColumnSchema): ColumnStat => {
+  const values = data.map(row => row[name]).filter(isPresent);
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const byCount = [...counts].sort(([, a], [, b]) => b - a);
+
+  const stat: ColumnStat = {
+    name,
+    type,
+    ...(formula ? { formula } : {}),
+    missing: data.length - values.length,
+    distinct: counts.size,
+    sampleValues: [...counts.keys()].slice(0, SAMPLE_VALUE_COUNT),
+    topValues: byCount.slice(0, TOP_VALUE_COUNT).map(([value, count]) => ({ value, count })),
+    numeric: null,
+    textLength: null,
+    dateRange: null,
+    histogram: byCount.slice(0, CATEGORY_BARS).map(([, count]) => count),
+  };
+
+  const numbers = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+  if (isNumericType(type) && numbers.length > 0) {
+    const { stat: numeric, histogram } = profileNumbers(numbers);
+    return { ...stat, numeric, histogram };
+  }
+  if (isTemporalType(type)) {
+    // Cleaned dates are ISO text, so they sort and parse directly.
+    const times = values.map(value => Date.parse(String(value))).filter(time => !Number.isNaN(time));
+    if (times.length === 0) return stat;
+    const sorted = Float64Array.from(times).sort();
+    const keys = [...counts.keys()].sort();
+    return {
+      ...stat,
+      dateRange: { min: keys[0], max: keys[keys.length - 1] },
+      histogram: binValues(sorted, sorted[0], sorted[sorted.length - 1]),
+    };
+  }
+  return { ...stat, textLength: profileLengths(values.map(String)) };
+};
+
+export const profileTable = (data: TableRow[], schema: ColumnSchema[]): TableProfile => ({
+  rowCount: data.length,
+  columns: schema.map(column => profileColumn(data, column)),
+});
@@ -0,0 +1,184 @@
+import type { TableRow, ColumnSchema, CellValue } from '../types';
+import { isNumericType } from './schemaService';
+import { fUpperTail, tQuantile, tTwoTailed } from './distributionService';
+import { labelOf } from './aggregationService';
+import { MAX_CATEGORY_LEVELS } from './correlationService';
+
+export interface RegressionCoefficient {
+  // "(Intercept)", a numeric column, or "column = level" for a one-hot encoded level.
+  term: string;
+  // The predictor column and, for one-hot encoded terms, the level; unset for the intercept.
+  column?: string;
+  level?: string;
+  estimate: number;
+  standardError: number;
+  t: number;
+  pValue: number;
+  lower: number;
+  upper: number;
+}
+
+export interface RegressionModel {
+  target: string;
+  coefficients: RegressionCoefficient[];
+  // The level each categorical predictor is compared against, by column.
+  referenceLevels: Record<string, string>;
+  n: number;
+  r2: number;
+  adjustedR2: number;
+  fStatistic: number;
+  fPValue: number;
+  // Residual standard error.
+  sigma: number;
+  fitted: number[];
+  residuals: number[];
+}
+
+export const REGRESSION_CONFIDENCE = 0.95;
+
+interface DesignColumn {
+  term: string;
+  column?: string;
+  level?: string;
+  value: (row: TableRow) => number;
+}
+
+const isMissing = (value: CellValue | undefined) => value === null || value === undefined || value === '';
+
+/**
+ * Turns each predictor into design matrix columns: numeric columns as they are, categorical ones
+ * one-hot encoded with the most frequent level left out as the reference.
+ */
+const buildDesign = (rows: TableRow[], schema: ColumnSchema[], predictors: string[]) => {
+  const columns: DesignColumn[] = [{ term: '(Intercept)', value: () => 1 }];
+  const referenceLevels: Record<string, string> = {};
+  predictors.forEach(name => {
+    if (isNumericType(schema.find(column => column.name === name)?.type)) {
+      columns.push({ term: name, column: name, value: row => row[name] as number });
+      return;
+    }
+    const counts = new Map<string, number>();
+    rows.forEach(row => counts.set(labelOf(row[name]), (counts.get(labelOf(row[name])) ?? 0) + 1));
+    if (counts.size > MAX_CATEGORY_LEVELS) throw new Error(`${name} has ${counts.size} distinct values; one-hot encoding allows at most ${MAX_CATEGORY_LEVELS}.`);
+    const [reference, ...levels] = [...counts].sort(([, a], [, b]) => b - a).map(([level]) => level);
+    referenceLevels[name] = reference;
+    levels.forEach(level => columns.push({ term: `${name} = ${level}`, column: name, level, value: row => (labelOf(row[name]) === level ? 1 : 0) }));
+  });
+  return { columns, referenceLevels };
+};
+
+/**
+ * Inverts X'X by Gauss-Jordan elimination, or returns the index of the first column that is a
+ * combination of the ones before it. X'X is positive definite, so no pivoting is needed, and each
+ * pivot is what is left of its column's sum of squares after the earlier columns are taken out.
+ */
+const invert = (matrix: number[][]): number[][] | number => {
+  const size = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < size; col++) {
+    if (a[col][col] <= 1e-10 * matrix[col][col]) return col;
+    const scale = a[col][col];
+    for (let c = 0; c < 2 * size; c++) a[col][c] /= scale;
+    for (let r = 0; r < size; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const factor = a[r][col];
+      for (let c = 0; c < 2 * size; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+  return a.map(row => row.slice(size));
+};
+
+// Ordinary least squares on the rows where the target and every predictor have a value.
+export const fitRegression = (data: TableRow[], schema: ColumnSchema[], target: string, predictors: string[]): RegressionModel => {
+  if (predictors.length === 0) throw new Error('Choose at least one predictor.');
+  if (predictors.includes(target)) throw new Error(`${target} cannot predict itself.`);
+  const numeric = new Set(predictors.filter(name => isNumericType(schema.find(column => column.name === name)?.type)));
+  const rows = data.filter(row => {
+    const y = row[target];
+    if (typeof y !== 'number' || !Number.isFinite(y)) return false;
+    return predictors.every(name => {
+      const value = row[name];
+      return numeric.has(name) ? typeof value === 'number' && Number.isFinite(value) : !isMissing(value);
+    });
+  });
+
+  const { columns, referenceLevels } = buildDesign(rows, schema, predictors);
+  const n = rows.length;
+  const p = columns.length;
+  if (n <= p) throw new Error(`The model has ${p} terms but only ${n} complete rows; it needs more rows than terms.`);
+
+  // Accumulate X'X and X'y row by row rather than building X.
+  const xtx = columns.map(() => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+  const ys = rows.map(row => row[target] as number);
+  rows.forEach((row, r) => {
+    const x = columns.map(column => column.value(row));
+    for (let i = 0; i < p; i++) {
+      xty[i] += x[i] * ys[r];
+      for (let j = i; j < p; j++) xtx[i][j] += x[i] * x[j];
+    }
+  });
+  for (let i = 0; i < p; i++) for (let j = 0; j < i; j++) xtx[i][j] = xtx[j][i];
+
+  const inverse = invert(xtx);
+  if (typeof inverse === 'number') {
+    throw new Error(`"${columns[inverse].term}" is a combination of the other terms (perfectly collinear or constant). Remove it or a predictor it depends on.`);
+  }
+  const beta = inverse.map(row => row.reduce((sum, v, j) => sum + v * xty[j], 0));
+
+  const fitted = rows.map(row => columns.reduce((sum, column, i) => sum + beta[i] * column.value(row), 0));
+  const residuals = ys.map((y, i) => y - fitted[i]);
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sse = residuals.reduce((sum, e) => sum + e * e, 0);
+  const sst = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const dfResidual = n - p;
+  const dfModel = p - 1;
+  const sigma2 = sse / dfResidual;
+  const r2 = sst === 0 ? 0 : 1 - sse / sst;
+  const fStatistic = dfModel > 0 && sse > 0 ? ((sst - sse) / dfModel) / sigma2 : NaN;
+  const critical = tQuantile(1 - (1 - REGRESSION_CONFIDENCE) / 2, dfResidual);
+
+  return {
+    target,
+    coefficients: columns.map(({ term, column, level }, i) => {
+      const standardError = Math.sqrt(sigma2 * inverse[i][i]);
+      const t = beta[i] / standardError;
+      return {
+        term,
+        ...(column !== undefined ? { column } : {}),
+        ...(level !== undefined ? { level } : {}),
+        estimate: beta[i],
+        standardError,
+        t,
+        pValue: standardError === 0 ? 0 : tTwoTailed(t, dfResidual),
+        lower: beta[i] - critical * standardError,
+        upper: beta[i] + critical * standardError,
+      };
+    }),
+    referenceLevels,
+    n,
+    r2,
+    adjustedR2: 1 - (1 - r2) * (n - 1) / dfResidual,
+    fStatistic,
+    fPValue: Number.isNaN(fStatistic) ? NaN : fUpperTail(fStatistic, dfModel, dfResidual),
+    sigma: Math.sqrt(sigma2),
+    fitted,
+    residuals,
+  };
+};
+
+// A one-paragraph reading of the model for people who do not read coefficient tables.
+export const describeRegression = (model: RegressionModel): string => {
+  const significant = model.coefficients.filter(({ term, pValue }) => term !== '(Intercept)' && pValue < 1 - REGRESSION_CONFIDENCE);
+  const share = `The predictors explain ${(model.r2 * 100).toFixed(1)}% of the variation in ${model.target} across ${model.n.toLocaleString()} rows.`;
+  if (significant.length === 0) {
+    return `${share} No predictor has a statistically significant effect at the ${Math.round((1 - REGRESSION_CONFIDENCE) * 100)}% level.`;
+  }
+  const effects = significant
+    .sort((a, b) => a.pValue - b.pValue)
+    .slice(0, 3)
+    .map(({ term, column, level, estimate }) => (level !== undefined
+      ? `${term} shifts ${model.target} by ${estimate.toPrecision(3)} compared with ${model.referenceLevels[column!]}`
+      : `each unit of ${term} changes ${model.target} by ${estimate.toPrecision(3)}`));
+  return `${share} Holding the other predictors fixed, ${effects.join('; ')}.`;
+};
@@ -0,0 +1,163 @@
+import type { TableRow, ColumnType, ColumnSchema } from '../types';
+import { DAY_MONTH_NAME_DATE } from './dateService';
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  integer: 'Integer',
+  float: 'Decimal',
+  currency: 'Currency',
+  percentage: 'Percentage',
+  boolean: 'Boolean',
+  date: 'Date',
+  datetime: 'Date & Time',
+  categorical: 'Categorical',
+  text: 'Free Text',
+  id: 'ID',
+};
+
+export const NUMERIC_COLUMN_TYPES: ColumnType[] = ['integer', 'float', 'currency', 'percentage'];
+export const TEMPORAL_COLUMN_TYPES: ColumnType[] = ['date', 'datetime'];
+
+export const isNumericType = (type: ColumnType | undefined): boolean => !!type && NUMERIC_COLUMN_TYPES.includes(type);
+export const isTemporalType = (type: ColumnType | undefined): boolean => !!type && TEMPORAL_COLUMN_TYPES.includes(type);
+
+// Share of non-empty values that must match a type for it to be inferred.
+const MATCH_THRESHOLD = 0.9;
+// Inference looks at an evenly spaced sample so large files stay fast.
+const SAMPLE_SIZE = 5000;
+const MAX_CATEGORIES = 50;
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f', '0', '1']);
+const BOOLEAN_WORDS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f']);
+const PLAIN_NUMBER = /^[-+]?(\d+|\d{1,3}(,\d{3})+)(\.\d+)?([eE][-+]?\d+)?$/;
+const CURRENCY = /^(\(?[-+]?\s*[$€£¥₹]\s*[\d,]*\.?\d+\)?|\(?[-+]?[\d,]*\.?\d+\s*[$€£¥₹]\)?|[A-Z]{3}\s+[-+]?[\d,]*\.?\d+)$/;
+const PERCENTAGE = /^[-+]?[\d,]*\.?\d+\s*%$/;
+const DATE = new RegExp(String.raw`^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|${DAY_MONTH_NAME_DATE}|[A-Za-z]{3,9}\.? \d{1,2},? \d{4})$`);
+const DATETIME = /^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*([AaPp][Mm])?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ID_NAME = /(^id$|[_\s-]id$|^uuid$|^guid$|[_\s-](key|code|number|no)$)/i;
+const CAMEL_CASE_ID = /[a-z]Id$/;
+
+const isMissing = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+// Parses plain, currency and percentage formatted text into a number. Returns null when it cannot.
+export const parseNumericValue = (value: string | number | null | undefined): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value === null || value === undefined) return null;
+  let text = String(value).trim();
+  if (text === '') return null;
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/^\(|\)$/g, '').replace(/^[A-Z]{3}\s+/, '').replace(/[$€£¥₹%\s,]/g, '');
+  if (text === '' || isNaN(Number(text))) return null;
+  const n = Number(text);
+  return negative ? -n : n;
+};
+
+const sampleValues = (data: TableRow[], column: string): Array<string | number> => {
+  const step = Math.max(1, Math.floor(data.length / SAMPLE_SIZE));
+  const values: Array<string | number> = [];
+  for (let i = 0; i < data.length; i += step) {
+    const value = data[i][column];
+    if (!isMissing(value)) values.push(value as string | number);
+  }
+  return values;
+};
+
+const share = (values: Array<string | number>, test: (value: string | number) => boolean) =>
+  values.length === 0 ? 0 : values.filter(test).length / values.length;
+
+const inferColumn = (data: TableRow[], name: string): ColumnSchema => {
+  const values = sampleValues(data, name);
+  const result = (type: ColumnType, confidence: number): ColumnSchema => ({
+    name,
+    type,
+    inferredType: type,
+    confidence: Math.round(confidence * 100) / 100,
+    overridden: false,
+  });
+
+  if (values.length === 0) return result('text', 0);
+
+  const strings = values.map(v => String(v).trim());
+  const distinct = new Set(strings);
+  const uniqueness = distinct.size / values.length;
+
+  const lower = strings.map(s => s.toLowerCase());
+  const booleanShare = share(lower, v => BOOLEAN_TOKENS.has(v as string));
+  if (booleanShare >= MATCH_THRESHOLD && distinct.size <= 2 && lower.some(v => BOOLEAN_WORDS.has(v))) {
+    return result('boolean', booleanShare);
+  }
+
+  if (share(strings, v => UUID.test(v as string)) >= MATCH_THRESHOLD) {
+    return result('id', share(strings, v => UUID.test(v as string)));
+  }
+
+  const numericShare = share(values, v => typeof v === 'number' || PLAIN_NUMBER.test(String(v).trim()));
+  if ((ID_NAME.test(name) || CAMEL_CASE_ID.test(name)) && uniqueness >= 0.95 && values.length > 1) {
+    return result('id', uniqueness);
+  }
+  if (numericShare >= MATCH_THRESHOLD) {
+    const numbers = values.map(parseNumericValue).filter((n): n is number => n !== null);
+    const allIntegers = numbers.every(Number.isInteger);
+    return result(allIntegers ? 'integer' : 'float', numericShare);
+  }
+
+  const percentageShare = share(strings, v => PERCENTAGE.test(v as string));
+  if (percentageShare >= MATCH_THRESHOLD) return result('percentage', percentageShare);
+
+  const currencyShare = share(strings, v => CURRENCY.test(v as string));
+  if (currencyShare >= MATCH_THRESHOLD) return result('currency', currencyShare);
+
+  const datetimeShare = share(strings, v => DATETIME.test(v as string));
+  if (datetimeShare >= MATCH_THRESHOLD) return result('datetime', datetimeShare);
+
+  const dateShare = share(strings, v => DATE.test(v as string) || DATETIME.test(v as string));
+  if (dateShare >= MATCH_THRESHOLD) return result('date', dateShare);
+
+  const averageLength = strings.reduce((total, s) => total + s.length, 0) / strings.length;
+  if (distinct.size <= MAX_CATEGORIES && (uniqueness <= 0.5 || values.length < 20) && averageLength <= 40) {
+    // Fewer repeats means less certainty that the values form a fixed set of categories.
+    return result('categorical', Math.max(0.5, 1 - uniqueness));
+  }
+  return result('text', averageLength > 40 ? 0.9 : Math.max(0.5, uniqueness));
+};
+
+// Infers a type and confidence for every column in the dataset.
+export const inferSchema = (data: TableRow[]): ColumnSchema[] => {
+  const headers = new Set<string>();
+  data.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return Array.from(headers).map(name => inferColumn(data, name));
+};
+
+export const getColumnType = (schema: ColumnSchema[], column: string): ColumnType | undefined =>
+  schema.find(c => c.name === column)?.type;
+
+export const getColumnsOfTypes = (schema: ColumnSchema[], types: ColumnType[]): string[] =>
+  schema.filter(c => types.includes(c.type)).map(c => c.name);
+
+const coerceValue = (value: string | number | null, type: ColumnType): string | number | null => {
+  if (isMissing(value)) return value;
+  if (isNumericType(type)) {
+    const n = parseNumericValue(value);
+    // Values that do not parse are kept as-is so overriding a type never loses data.
+    return n === null ? value : n;
+  }
+  if (typeof value === 'number') return String(value);
+  return value;
+};
+
+// Converts cell values to the representation their column type expects, e.g. "$1,200" to 1200.
+export const applySchema = (data: TableRow[], schema: ColumnSchema[], columns?: string[]): TableRow[] => {
+  const targets = schema.filter(c => !columns || columns.includes(c.name));
+  return data.map(row => {
+    const newRow: TableRow = { ...row };
+    targets.forEach(({ name, type }) => {
+      if (name in newRow) newRow[name] = coerceValue(newRow[name], type);
+    });
+    return newRow;
+  });
+};
+
+// Replaces a column's type with a user-chosen one, keeping the inferred type for reference.
+export const overrideColumnType = (schema: ColumnSchema[], column: string, type: ColumnType): ColumnSchema[] =>
+  schema.map(c => (c.name === column ? { ...c, type, overridden: type !== c.inferredType } : c));
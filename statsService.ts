@@ -0,0 +1,210 @@
+import type { TableRow } from '../types';
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? NaN : values.reduce((a, b) => a + b, 0) / values.length;
+
+// Linear interpolation between closest ranks; `sorted` must be in ascending order.
+export const quantile = (sorted: ArrayLike<number>, q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const numericValues = (data: TableRow[], column: string): number[] =>
+  data.map(row => row[column]).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+
+// Rows where both columns hold numbers, as parallel arrays.
+export const numericPairs = (data: TableRow[], xKey: string, yKey: string): { xs: number[]; ys: number[] } => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  data.forEach(row => {
+    const x = row[xKey];
+    const y = row[yKey];
+    if (typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y)) {
+      xs.push(x);
+      ys.push(y);
+    }
+  });
+  return { xs, ys };
+};
+
+export const pearson = (xs: number[], ys: number[]): number => {
+  const n = xs.length;
+  if (n < 2) return NaN;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  return sxx === 0 || syy === 0 ? NaN : sxy / Math.sqrt(sxx * syy);
+};
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+// Ordinary least squares fit of y = slope * x + intercept.
+export const linearRegression = (xs: number[], ys: number[]): LinearFit | null => {
+  const n = xs.length;
+  if (n < 2) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  const r = pearson(xs, ys);
+  return { slope, intercept: my - slope * mx, r2: Number.isNaN(r) ? 0 : r * r };
+};
+
+export interface BoxPlotStats {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  // Whiskers reach the furthest values within 1.5 × IQR of the box.
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number[];
+  count: number;
+}
+
+export const boxPlotStats = (values: number[]): BoxPlotStats | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowFence = q1 - 1.5 * iqr;
+  const highFence = q3 + 1.5 * iqr;
+  const inside = sorted.filter(v => v >= lowFence && v <= highFence);
+  return {
+    min: sorted[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: sorted[sorted.length - 1],
+    lowerWhisker: inside.length > 0 ? inside[0] : q1,
+    upperWhisker: inside.length > 0 ? inside[inside.length - 1] : q3,
+    outliers: sorted.filter(v => v < lowFence || v > highFence),
+    count: sorted.length,
+  };
+};
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+// Ranks from 1 in ascending order; tied values share the average of their ranks.
+export const rankValues = (values: number[]): number[] => {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start + 1;
+    while (end < order.length && values[order[end]] === values[order[start]]) end++;
+    const rank = (start + end + 1) / 2;
+    for (let k = start; k < end; k++) ranks[order[k]] = rank;
+    start = end;
+  }
+  return ranks;
+};
+
+// Pearson correlation of the ranks, so any monotonic relationship scores fully.
+export const spearman = (xs: number[], ys: number[]): number => pearson(rankValues(xs), rankValues(ys));
+
+export interface ContingencyTest {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  n: number;
+  rowLevels: number;
+  columnLevels: number;
+  // Cells whose expected count is below 5, where the chi-square approximation gets rough.
+  sparseCells: number;
+}
+
+// Pearson's chi-square statistic for the contingency table of two categorical variables given as parallel labels.
+export const contingencyTest = (xs: string[], ys: string[]): ContingencyTest => {
+  const n = xs.length;
+  const xLevels = new Map<string, number>();
+  const yLevels = new Map<string, number>();
+  const cells = new Map<string, number>();
+  for (let i = 0; i < n; i++) {
+    xLevels.set(xs[i], (xLevels.get(xs[i]) ?? 0) + 1);
+    yLevels.set(ys[i], (yLevels.get(ys[i]) ?? 0) + 1);
+    const cell = `${xs[i]}\u0000${ys[i]}`;
+    cells.set(cell, (cells.get(cell) ?? 0) + 1);
+  }
+  let chiSquare = 0;
+  let sparseCells = 0;
+  xLevels.forEach((xCount, x) => {
+    yLevels.forEach((yCount, y) => {
+      const expected = (xCount * yCount) / n;
+      const observed = cells.get(`${x}\u0000${y}`) ?? 0;
+      chiSquare += (observed - expected) ** 2 / expected;
+      if (expected < 5) sparseCells++;
+    });
+  });
+  return {
+    chiSquare,
+    degreesOfFreedom: (xLevels.size - 1) * (yLevels.size - 1),
+    n,
+    rowLevels: xLevels.size,
+    columnLevels: yLevels.size,
+    sparseCells,
+  };
+};
+
+/**
+ * Association between two categorical variables given as parallel labels: 0 when they are
+ * independent, 1 when one determines the other. NaN when either has a single level.
+ */
+export const cramersV = (xs: string[], ys: string[]): number => {
+  const { chiSquare, n, rowLevels, columnLevels } = contingencyTest(xs, ys);
+  const dof = Math.min(rowLevels, columnLevels) - 1;
+  if (n === 0 || dof < 1) return NaN;
+  return Math.sqrt(chiSquare / n / dof);
+};
+
+// Correlation ratio η: the share of a value's spread explained by its groups, as a square root, from 0 to 1.
+export const correlationRatio = (groups: number[][]): number => {
+  const all = groups.flat();
+  if (groups.length < 2 || all.length < 3) return NaN;
+  const grandMean = mean(all);
+  const total = all.reduce((sum, v) => sum + (v - grandMean) ** 2, 0);
+  if (total === 0) return NaN;
+  const between = groups.reduce((sum, group) => sum + group.length * (mean(group) - grandMean) ** 2, 0);
+  return Math.sqrt(between / total);
+};
+
+// Pairwise Pearson correlations using, for each pair, the rows where both values are present.
+export const correlationMatrix = (data: TableRow[], columns: string[]): number[][] => {
+  const matrix = columns.map(() => columns.map(() => 1));
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = i + 1; j < columns.length; j++) {
+      const { xs, ys } = numericPairs(data, columns[i], columns[j]);
+      matrix[i][j] = matrix[j][i] = pearson(xs, ys);
+    }
+  }
+  return matrix;
+};
+
+// Evenly spaced subset so charts stay responsive on large datasets.
+export const sampleEvenly = <T>(items: T[], max: number): T[] => {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)]);
+};
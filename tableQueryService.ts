@@ -0,0 +1,84 @@
+import type { TableRow, ColumnSchema, FilterSet } from '../types';
+import { compileFilterSet, hasActiveFilters } from './filterService';
+import { isNumericType, isTemporalType, parseNumericValue } from './schemaService';
+import { detectDateOrder, parseDateValue } from './dateService';
+
+export type SortDirection = 'ascending' | 'descending';
+
+export interface SortConfig {
+  key: string;
+  direction: SortDirection;
+}
+
+export interface TableQuery {
+  filterSet: FilterSet;
+  // Sort keys in priority order; later keys break ties in earlier ones.
+  sorts: SortConfig[];
+}
+
+export const isEmptyQuery = ({ filterSet, sorts }: TableQuery, schema: ColumnSchema[]): boolean =>
+  sorts.length === 0 && !hasActiveFilters(filterSet, schema);
+
+// Natural order: "Item 2" before "Item 10", and case differences ignored.
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isMissing = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+// Numeric and date columns sort by value; anything that does not read as one sorts as text after them.
+const toSortKey = (value: string | number | null, read: ((value: string | number) => number | null) | null): number | string | null => {
+  if (isMissing(value)) return null;
+  if (read) {
+    const n = read(value);
+    if (n !== null) return n;
+  }
+  return String(value);
+};
+
+const compareKeys = (a: number | string | null, b: number | string | null, sign: number): number => {
+  // Empty cells go last whichever way the column is sorted.
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return (a - b) * sign;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return collator.compare(a, b) * sign;
+};
+
+const sortIndices = (data: TableRow[], schema: ColumnSchema[], indices: number[], sorts: SortConfig[]): void => {
+  const types = new Map(schema.map(column => [column.name, column.type]));
+  // Keys are worked out once per row rather than on every comparison.
+  const columns = sorts.map(({ key, direction }) => {
+    const type = types.get(key);
+    let read: ((value: string | number) => number | null) | null = null;
+    if (isNumericType(type)) {
+      read = value => (typeof value === 'number' ? value : parseNumericValue(value));
+    } else if (isTemporalType(type)) {
+      const order = detectDateOrder(data.slice(0, 1000).map(row => row[key] ?? null));
+      read = value => parseDateValue(value, order);
+    }
+    const keys: Array<number | string | null> = new Array(data.length);
+    indices.forEach(i => {
+      keys[i] = toSortKey(data[i][key] ?? null, read);
+    });
+    return { keys, sign: direction === 'ascending' ? 1 : -1 };
+  });
+  indices.sort((a, b) => {
+    for (const { keys, sign } of columns) {
+      const order = compareKeys(keys[a], keys[b], sign);
+      if (order !== 0) return order;
+    }
+    return a - b;
+  });
+};
+
+// Returns the positions of the rows that pass the filters, in display order.
+export const queryRowIndices = (data: TableRow[], schema: ColumnSchema[], { filterSet, sorts }: TableQuery): Uint32Array => {
+  const predicate = compileFilterSet(filterSet, schema, data);
+  const indices: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    if (!predicate || predicate(data[i])) indices.push(i);
+  }
+
+  if (sorts.length > 0) sortIndices(data, schema, indices, sorts);
+  return Uint32Array.from(indices);
+};
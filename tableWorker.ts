@@ -0,0 +1,17 @@
+import type { TableRow, ColumnSchema } from '../types';
+import { queryRowIndices } from '../services/tableQueryService';
+import type { TableWorkerRequest, TableWorkerResponse } from '../services/tableWorkerService';
+
+let data: TableRow[] = [];
+let schema: ColumnSchema[] = [];
+
+// Holds the table's rows and answers filter and sort queries; see createTableQueryRunner.
+self.onmessage = (event: MessageEvent<TableWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    ({ data, schema } = request);
+    return;
+  }
+  const response: TableWorkerResponse = { id: request.id, indices: queryRowIndices(data, schema, request.query) };
+  self.postMessage(response, { transfer: [response.indices.buffer] });
+};
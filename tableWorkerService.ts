@@ -0,0 +1,63 @@
+import type { TableRow, ColumnSchema } from '../types';
+import type { TableQuery } from './tableQueryService';
+
+export type TableWorkerRequest =
+  | { type: 'load'; data: TableRow[]; schema: ColumnSchema[] }
+  | { type: 'query'; id: number; query: TableQuery };
+
+export interface TableWorkerResponse {
+  id: number;
+  indices: Uint32Array;
+}
+
+export interface TableQueryRunner {
+  // Resolves with the matching row positions, or null if the runner was disposed first.
+  // Rejects if the worker fails.
+  run: (query: TableQuery) => Promise<Uint32Array | null>;
+  dispose: () => void;
+}
+
+/**
+ * Sends the rows to a worker once, then filters and sorts them there so typing in a filter
+ * never blocks the page. Only row positions come back, not copies of the rows.
+ */
+export const createTableQueryRunner = (data: TableRow[], schema: ColumnSchema[]): TableQueryRunner => {
+  const worker = new Worker(new URL('../workers/tableWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (indices: Uint32Array | null) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+  let failure: Error | null = null;
+
+  worker.onmessage = (event: MessageEvent<TableWorkerResponse>) => {
+    const { id, indices } = event.data;
+    pending.get(id)?.resolve(indices);
+    pending.delete(id);
+  };
+  // A worker that failed, e.g. while loading or running out of memory, answers nothing more.
+  worker.onerror = event => {
+    event.preventDefault();
+    const error = new Error(event.message || 'The table worker failed.');
+    failure = error;
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+  const load: TableWorkerRequest = { type: 'load', data, schema };
+  worker.postMessage(load);
+
+  return {
+    run: query => new Promise((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      const request: TableWorkerRequest = { type: 'query', id, query };
+      worker.postMessage(request);
+    }),
+    dispose: () => {
+      worker.terminate();
+      pending.forEach(({ resolve }) => resolve(null));
+      pending.clear();
+    },
+  };
+};
@@ -1,20 +1,417 @@
+export type CellValue = string | number | null;
 
-export type TableRow = Record<string, string | number | null>;
+export type TableRow = Record<string, CellValue>;
 
+export type ColumnType =
+  | 'integer'
+  | 'float'
+  | 'currency'
+  | 'percentage'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'categorical'
+  | 'text'
+  | 'id';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  inferredType: ColumnType;
+  // Share of sampled values that support the inferred type, from 0 to 1.
+  confidence: number;
+  overridden: boolean;
+  // Set on columns computed from other columns; see formulaService.
+  formula?: string;
+}
+
+export interface NumericStat {
+  count: number;
+  mean: number;
+  // Sample variance and standard deviation (n - 1).
+  variance: number;
+  stdDev: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  iqr: number;
+  max: number;
+  // Null when there are too few distinct values to measure the shape.
+  skewness: number | null;
+  // Excess kurtosis: 0 for a normal distribution.
+  kurtosis: number | null;
+  zeros: number;
+  negatives: number;
+}
+
+export interface TextLengthStat {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+// Profile of one column, computed by profileService. The AI summary is written from these.
 export interface ColumnStat {
-  type: 'numeric' | 'categorical';
-  stats: Record<string, number | string>;
+  name: string;
+  type: ColumnType;
+  formula?: string;
+  missing: number;
+  distinct: number;
+  // A few distinct values in order of first appearance.
+  sampleValues: string[];
+  // Most frequent values, most frequent first.
+  topValues: { value: string; count: number }[];
+  numeric: NumericStat | null;
+  // Lengths of the values of text-like columns.
+  textLength: TextLengthStat | null;
+  dateRange: { min: string; max: string } | null;
+  // Row counts in equal-width bins over the value range, or of the top values for other columns; drawn as a sparkline.
+  histogram: number[];
+}
+
+export type OutlierMethod = 'iqr' | 'zScore' | 'modifiedZScore' | 'rolling';
+
+export type OutlierAction = 'keep' | 'exclude' | 'cap';
+
+// What to do with the outliers one method finds in a column. Kept with the analysis and re-run whenever the data changes.
+export interface OutlierRule {
+  id: string;
+  column: string;
+  method: OutlierMethod;
+  threshold: number;
+  // Rolling detection only: the column that puts the rows in order, and how many neighbours each value is compared with.
+  orderBy?: string;
+  window?: number;
+  action: OutlierAction;
+}
+
+export interface TableProfile {
+  rowCount: number;
+  columns: ColumnStat[];
+}
+
+export type CleaningStepType =
+  | 'trimHeaders'
+  | 'trimValues'
+  | 'lowercaseValues'
+  | 'removeDuplicates'
+  | 'handleMissing'
+  | 'dropConstantColumns'
+  | 'parseDates'
+  | 'convertNumbers';
+
+export type MissingValueStrategy = 'drop' | 'mean' | 'median' | 'mode' | 'constant' | 'forwardFill';
+
+// How ambiguous numeric dates such as 03/04/2024 are read; 'auto' looks at the data, then the browser locale.
+export type DateOrder = 'auto' | 'MDY' | 'DMY';
+
+export type TimePeriod = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type GapHandling = 'break' | 'connect' | 'zero';
+
+export type AggregationFunction = 'sum' | 'mean' | 'median' | 'count' | 'min' | 'max';
+
+export type ChartSortOrder = 'valueDesc' | 'valueAsc' | 'labelAsc' | 'labelDesc';
+
+// Charts draw either the table's rows or the output of the pivot table.
+export type ChartSource = 'data' | 'pivot';
+
+export type ChartType = 'bar' | 'stackedBar' | 'percentBar' | 'line' | 'area' | 'pie' | 'histogram' | 'scatter' | 'box' | 'heatmap';
+
+// Simple exponential smoothing, Holt's linear trend, and additive Holt-Winters with seasonality.
+export type ForecastMethod = 'movingAverage' | 'exponential' | 'holt' | 'holtWinters';
+
+// A forecast drawn past the end of a resampled line chart.
+export interface ForecastConfig {
+  method: ForecastMethod;
+  // Periods to forecast.
+  horizon: number;
+  // Periods averaged by the moving average.
+  window: number;
+  // Periods per season for Holt-Winters, such as 12 for monthly data.
+  seasonLength: number;
+}
+
+// Everything needed to redraw a chart; saved with pinned dashboard charts.
+export interface ChartConfig {
+  chartType: ChartType;
+  xAxisKey: string;
+  yAxisKey: string;
+  binCount: number;
+  period: TimePeriod | 'none';
+  aggregation: AggregationFunction;
+  gaps: GapHandling;
+  // Series split for grouped charts, color encoding for scatter plots.
+  seriesKey: string;
+  sizeKey: string;
+  sortOrder: ChartSortOrder;
+  topN: number;
+  showTrendLine: boolean;
+  isDonut: boolean;
+  // Unset on charts saved before pivot tables existed, which draw the table's rows.
+  source?: ChartSource;
+  // Line charts over resampled dates only; unset for no forecast.
+  forecast?: ForecastConfig;
+}
+
+export type PivotAggregation = 'sum' | 'mean' | 'count' | 'distinct' | 'min' | 'max';
+
+export interface PivotValue {
+  id: string;
+  column: string;
+  aggregation: PivotAggregation;
+  // Shows each cell as a percentage of the grand total for this value.
+  percentOfTotal: boolean;
+}
+
+export interface PivotSort {
+  // Index into the values to sort groups by their totals, or null to sort by label.
+  valueIndex: number | null;
+  direction: 'ascending' | 'descending';
+}
+
+export interface PivotConfig {
+  rows: string[];
+  columns: string[];
+  values: PivotValue[];
+  sort: PivotSort;
+}
+
+export interface PinnedChart {
+  id: string;
+  title: string;
+  config: ChartConfig;
+  // Filters in effect when the chart was pinned, which it keeps drawing with. Unset on charts pinned
+  // before filters were saved, which follow the current filters.
+  filterSet?: FilterSet;
+  // Grid columns spanned (of 2) and chart height in pixels.
+  width: 1 | 2;
+  height: number;
+}
+
+export interface SavedDashboard {
+  // Column names and types; a file with the same signature can reuse the dashboard.
+  schemaSignature: string;
+  fileName: string;
+  charts: PinnedChart[];
+  updatedAt: number;
+}
+
+export type DataFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'excel' | 'parquet';
+
+export interface CsvImportOptions {
+  delimiter: string;
+  // Any label TextDecoder accepts, e.g. "utf-8" or "windows-1252".
+  encoding: string;
+  decimalSeparator: '.' | ',';
+  // Digit grouping character; empty when numbers are not grouped.
+  thousandsSeparator: '' | ',' | '.' | ' ' | "'";
+  // 1-based line holding the column names; lines above it are preamble and skipped.
+  headerRow: number;
+  // Lines starting with this are skipped; empty for none.
+  commentPrefix: string;
+  quoteChar: string;
+}
+
+export type SheetCombineMode = 'stack' | 'separate';
+
+export interface ExcelImportOptions {
+  // Selected sheet names, in the order they are loaded.
+  sheets: string[];
+  // 1-based sheet row holding the column names; rows above it are skipped.
+  headerRow: number;
+  // Optional A1-style range such as "B2:H500"; empty means the sheet's used range.
+  range: string;
+  combine: SheetCombineMode;
+}
+
+// Format-specific settings chosen in the import step.
+export interface ImportOptions {
+  csv?: CsvImportOptions;
+  excel?: ExcelImportOptions;
+}
+
+export type FilterOperator =
+  | 'equals' | 'notEquals' | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'contains' | 'notContains' | 'regex' | 'in' | 'notIn' | 'isEmpty' | 'isNotEmpty';
+
+export interface ColumnFilter {
+  id: string;
+  column: string;
+  operator: FilterOperator;
+  value: string;
+  // Upper bound for 'between'.
+  valueTo: string;
+  // Selected values for 'in' and 'notIn'.
+  values: string[];
+}
+
+export interface FilterSet {
+  combinator: 'and' | 'or';
+  filters: ColumnFilter[];
+}
+
+export interface ImportProgress {
+  message: string;
+  // Share of the current stage that is done, from 0 to 1, or null when it cannot be measured.
+  fraction: number | null;
+}
+
+export interface SheetInfo {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  // First rows of the sheet as raw cell values, for choosing the header row.
+  preview: Array<Array<string | number | null>>;
+  // 1-based sheet row number of preview[0].
+  previewStartRow: number;
+}
+
+export interface CleaningStep {
+  type: CleaningStepType;
+  enabled: boolean;
+  // Columns the step applies to (dedupe key set for removeDuplicates). Empty or missing means all columns.
+  columns?: string[];
+  strategy?: MissingValueStrategy;
+  fillValue?: string;
+  dateOrder?: DateOrder;
+}
+
+export type CleaningRecipe = CleaningStep[];
+
+export interface CleaningStepReport {
+  step: CleaningStep;
+  rowsBefore: number;
+  rowsAfter: number;
+  cellsChanged: number;
+  columnsRemoved: string[];
+  // Date order each column was parsed with, so restored rows are read the same way.
+  dateOrders?: Record<string, 'MDY' | 'DMY'>;
+}
+
+export interface DroppedRow {
+  // 0-based position of the row in the parsed file.
+  sourceIndex: number;
+  // Index into CleaningReport.steps of the step that removed the row.
+  stepIndex: number;
+  reason: string;
+  row: TableRow;
+}
+
+export interface CellChange {
+  sourceIndex: number;
+  stepIndex: number;
+  column: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface CleaningReport {
+  originalRowCount: number;
+  steps: CleaningStepReport[];
+  droppedRows: DroppedRow[];
+  // Capped sample of changed cells; per-step totals are in steps[].cellsChanged.
+  changedCells: CellChange[];
+  restoredRowCount: number;
+}
+
+// One reversible change made by hand in the data table. Rows are addressed by position in cleanedData.
+export type DataEdit =
+  | { type: 'editCell'; row: number; column: string; before: CellValue; after: CellValue }
+  | { type: 'addRow'; row: number }
+  | { type: 'addColumn'; column: ColumnSchema }
+  // Deleted rows with their positions before the deletion, in ascending order.
+  | { type: 'deleteRows'; rows: { index: number; row: TableRow }[] }
+  | { type: 'renameColumn'; from: string; to: string }
+  | { type: 'deleteColumn'; column: ColumnSchema; index: number; values: CellValue[] };
+
+export interface EditHistory {
+  // Applied edits, oldest first; this is the edit log.
+  past: DataEdit[];
+  // Undone edits that can be redone, most recently undone first.
+  future: DataEdit[];
+}
+
+export interface ChatQueryFilter {
+  column: string;
+  operator: FilterOperator;
+  value?: string;
+  valueTo?: string;
+  values?: string[];
+}
+
+export interface ChatQueryAggregate {
+  aggregation: AggregationFunction;
+  // Left out to count rows.
+  column?: string;
+}
+
+// A query the chat assistant runs on the table, as the model requests it; fields it leaves out take defaults.
+export interface ChatQuery {
+  filters?: ChatQueryFilter[];
+  groupBy?: string[];
+  aggregates?: ChatQueryAggregate[];
+  // Columns to list when nothing is grouped or aggregated.
+  columns?: string[];
+  // A column of the result.
+  sortBy?: string;
+  sortDirection?: 'ascending' | 'descending';
+  limit?: number;
+}
+
+export interface ChatQueryResult {
+  columns: string[];
+  rows: CellValue[][];
+  // Rows of the table that passed the filters.
+  matchedRows: number;
+  // Result rows before the limit was applied.
+  totalRows: number;
+}
+
+export interface ChatQueryRun {
+  query: ChatQuery;
+  // The query in words, e.g. "Average of Sales by Region, top 5".
+  description: string;
+  result?: ChatQueryResult;
+  error?: string;
 }
 
 export interface ChatMessage {
     role: 'user' | 'model';
     parts: Array<{ text: string }>;
+    // Queries the assistant ran on the data to write this reply.
+    queries?: ChatQueryRun[];
+}
+
+// The file a table was read from and the settings it was read with, kept for re-running its cleaning.
+export interface TableSource {
+  file: File;
+  importOptions: ImportOptions;
 }
 
 export interface AnalysisResult {
   fileName: string;
+  // Worksheet the table was read from; unset for CSV files and stacked sheets.
+  sheetName?: string;
+  // Null for tables joined or appended from other tables, which have no file of their own.
+  source: TableSource | null;
   cleanedData: TableRow[];
+  cleaningRecipe: CleaningRecipe;
+  cleaningReport: CleaningReport;
+  schema: ColumnSchema[];
+  pinnedCharts: PinnedChart[];
+  // Shared by the data table, charts and chat so they all work on the same rows.
+  filterSet: FilterSet;
+  pivotConfig: PivotConfig;
+  // Outlier decisions, applied to the rows every analysis sees; the data table keeps showing the original values.
+  outlierRules: OutlierRule[];
+  editHistory: EditHistory;
+  profile: TableProfile;
+  // Text form of the profile, sent to the AI.
   summary: string;
   insights: string;
+  // Set once the data is edited by hand or outlier decisions change, until the AI analysis is regenerated.
+  insightsOutdated: boolean;
   chatHistory: ChatMessage[];
 }